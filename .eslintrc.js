@@ -29,5 +29,14 @@ module.exports = {
     node: true,
     es2022: true,
   },
+  overrides: [
+    {
+      // The build tsconfig leaves tests out
+      files: ['*.spec.ts', '*.test.ts'],
+      parserOptions: {
+        project: './tsconfig.spec.json',
+      },
+    },
+  ],
   ignorePatterns: ['dist/', 'node_modules/', '*.js'],
 };
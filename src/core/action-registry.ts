@@ -0,0 +1,108 @@
+import { Injectable, Logger, OnModuleInit, SetMetadata } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { ActionDefinition, WorkflowAction } from '../types';
+import { validateJsonSchema } from './json-schema';
+
+export const ACTION_HANDLER_METADATA = 'flowforge:action-handler';
+
+/**
+ * Marks a provider implementing `WorkflowAction` as the handler of a named
+ * action. Decorated providers of any module are registered at boot.
+ *
+ * @example
+ * @ActionHandler({ name: 'email.send', schema: { type: 'object', required: ['to'] } })
+ * export class SendEmailAction implements WorkflowAction { ... }
+ */
+export const ActionHandler = (definition: ActionDefinition) =>
+  SetMetadata(ACTION_HANDLER_METADATA, definition);
+
+/**
+ * The input an action step passes to its handler: its config without the
+ * `action` name.
+ */
+export function getActionInput(config: Record<string, any>): Record<string, any> {
+  const input = { ...config };
+  delete input.action;
+  return input;
+}
+
+/**
+ * Catalog of the actions `action` steps can invoke, by the name in their
+ * `config.action`. The rest of a step's config is the action's input and is
+ * checked against the action's schema when the workflow is validated.
+ */
+@Injectable()
+export class ActionRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ActionRegistry.name);
+  private readonly actions = new Map<
+    string,
+    { definition: ActionDefinition; handler: WorkflowAction }
+  >();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly reflector: Reflector
+  ) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance, metatype } = wrapper;
+      if (!instance || !metatype) {
+        continue;
+      }
+
+      const definition = this.reflector.get<ActionDefinition>(ACTION_HANDLER_METADATA, metatype);
+      if (definition) {
+        this.register(definition, instance as WorkflowAction);
+      }
+    }
+
+    this.logger.log(`Registered ${this.actions.size} workflow actions`);
+  }
+
+  register(definition: ActionDefinition, handler: WorkflowAction): void {
+    if (this.actions.has(definition.name)) {
+      throw new Error(`Action ${definition.name} is already registered`);
+    }
+
+    this.actions.set(definition.name, { definition, handler });
+    this.logger.debug(`Registered action ${definition.name}`);
+  }
+
+  getHandler(name: string): WorkflowAction | undefined {
+    return this.actions.get(name)?.handler;
+  }
+
+  listActions(): ActionDefinition[] {
+    return Array.from(this.actions.values())
+      .map(({ definition }) => definition)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Problems with an action step's config: an unknown action, or input that
+   * doesn't match the action's schema.
+   */
+  validateConfig(stepId: string, config: Record<string, any>): string[] {
+    const action = config.action;
+
+    if (typeof action !== 'string' || action.length === 0) {
+      return [`Action step ${stepId} requires an action name`];
+    }
+
+    const registered = this.actions.get(action);
+    if (!registered) {
+      return [`Action step ${stepId} uses unknown action ${action}`];
+    }
+
+    const input = getActionInput(config);
+    const errors = registered.definition.schema
+      ? validateJsonSchema(registered.definition.schema, input)
+      : [];
+    if (errors.length === 0 && registered.handler.validate) {
+      errors.push(...registered.handler.validate(input));
+    }
+
+    return errors.map(error => `Action step ${stepId} (${action}): ${error}`);
+  }
+}
@@ -0,0 +1,99 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { CacheInvalidation, InMemoryCacheInvalidationBus } from './cache-invalidation';
+import { WorkflowRegistry } from './workflow-registry';
+import { ExpressionEngine } from './expression-engine';
+import { ActionRegistry } from './action-registry';
+import { WorkflowDefinitionEntity } from '../workflows/entities/workflow-definition.entity';
+
+// Stand-ins for the injected classes, whose modules load the whole engine
+jest.mock('./action-registry', () => ({ ActionRegistry: class {} }));
+jest.mock('../workflows/entities/workflow-definition.entity', () => ({
+  WorkflowDefinitionEntity: class {},
+}));
+
+describe('InMemoryCacheInvalidationBus', () => {
+  it('delivers every invalidation to every listener, including its publisher', async () => {
+    const bus = new InMemoryCacheInvalidationBus();
+    const received: CacheInvalidation[][] = [[], []];
+    bus.subscribe(invalidation => received[0].push(invalidation));
+    bus.subscribe(invalidation => received[1].push(invalidation));
+
+    const invalidation = { cache: 'workflows', keys: ['wf-1'], origin: 'instance-a' };
+    await bus.publish(invalidation);
+
+    expect(received).toEqual([[invalidation], [invalidation]]);
+  });
+});
+
+describe('WorkflowRegistry cache invalidation', () => {
+  const entity = {
+    id: 'wf-1',
+    name: 'orders',
+    version: '1.0.0',
+    triggers: [],
+    steps: [],
+    metadata: {},
+    status: 'published',
+  };
+
+  let bus: InMemoryCacheInvalidationBus;
+  let repository: { findOne: jest.Mock };
+
+  const createRegistry = () => {
+    const configService = { get: (_key: string, defaultValue: unknown) => defaultValue };
+    const registry = new WorkflowRegistry(
+      repository as unknown as Repository<WorkflowDefinitionEntity>,
+      new ExpressionEngine(),
+      {} as ActionRegistry,
+      bus,
+      configService as unknown as ConfigService,
+      new EventEmitter2()
+    );
+    registry.onModuleInit();
+    return registry;
+  };
+
+  beforeEach(() => {
+    bus = new InMemoryCacheInvalidationBus();
+    repository = { findOne: jest.fn(() => Promise.resolve({ ...entity })) };
+  });
+
+  it('gives every registry an id of its own', () => {
+    expect(createRegistry().instanceId).not.toBe(createRegistry().instanceId);
+  });
+
+  it('drops entries other instances invalidated', async () => {
+    const reader = createRegistry();
+    const writer = createRegistry();
+
+    await reader.getWorkflow('wf-1');
+    await reader.getWorkflow('wf-1');
+    expect(repository.findOne).toHaveBeenCalledTimes(1);
+
+    await writer.clearCache();
+    await reader.getWorkflow('wf-1');
+
+    expect(repository.findOne).toHaveBeenCalledTimes(2);
+    expect(reader.getCacheStats()).toMatchObject({ invalidations: 1, size: 1 });
+  });
+
+  it('ignores its own invalidations once it has applied them', async () => {
+    const registry = createRegistry();
+    await registry.getWorkflow('wf-1');
+
+    await registry.clearCache();
+
+    expect(registry.getCacheStats()).toMatchObject({ invalidations: 1, size: 0 });
+  });
+
+  it('ignores invalidations of other caches', async () => {
+    const registry = createRegistry();
+    await registry.getWorkflow('wf-1');
+
+    await bus.publish({ cache: 'actions', origin: 'elsewhere' });
+
+    expect(registry.getCacheStats()).toMatchObject({ invalidations: 0, size: 1 });
+  });
+});
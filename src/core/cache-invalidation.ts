@@ -0,0 +1,127 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+
+/**
+ * Tells every instance to drop entries of a named cache. Without `keys` the
+ * whole cache is dropped. `origin` identifies the cache owner that sent it.
+ */
+export interface CacheInvalidation {
+  cache: string;
+  keys?: string[];
+  origin: string;
+}
+
+export type CacheInvalidationListener = (invalidation: CacheInvalidation) => void;
+
+/**
+ * Broadcasts cache invalidations between instances, so an instance that
+ * changes a definition can evict the copies other instances cached. Listeners
+ * also receive the invalidations they published themselves; publishers set
+ * `origin` to an id of their own so they can recognise them.
+ */
+export abstract class CacheInvalidationBus {
+  abstract publish(invalidation: CacheInvalidation): Promise<void>;
+  abstract subscribe(listener: CacheInvalidationListener): void;
+}
+
+/**
+ * Process-local bus for tests and single-instance development. Instances
+ * sharing one bus object see each other's invalidations, as separate
+ * processes would through Redis.
+ */
+export class InMemoryCacheInvalidationBus extends CacheInvalidationBus {
+  private readonly listeners: CacheInvalidationListener[] = [];
+
+  publish(invalidation: CacheInvalidation): Promise<void> {
+    for (const listener of this.listeners) {
+      listener(invalidation);
+    }
+    return Promise.resolve();
+  }
+
+  subscribe(listener: CacheInvalidationListener): void {
+    this.listeners.push(listener);
+  }
+}
+
+/**
+ * Bus over a Redis pub/sub channel. Subscribing needs a connection of its
+ * own, so the bus holds one client to publish and one to listen. Pub/sub
+ * doesn't deliver to instances that are disconnected at the time, which is
+ * why cached entries also expire.
+ */
+@Injectable()
+export class RedisCacheInvalidationBus
+  extends CacheInvalidationBus
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(RedisCacheInvalidationBus.name);
+  private readonly publisher: RedisClientType;
+  private readonly subscriber: RedisClientType;
+  private readonly channel: string;
+  private readonly listeners: CacheInvalidationListener[] = [];
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+
+    this.channel = this.configService.get(
+      'CACHE_INVALIDATION_CHANNEL',
+      'flowforge:cache-invalidation'
+    );
+
+    this.publisher = createClient({
+      socket: {
+        host: this.configService.get('REDIS_HOST', 'localhost'),
+        port: Number(this.configService.get('REDIS_PORT', 6379)),
+      },
+      password: this.configService.get('REDIS_PASSWORD') || undefined,
+      database: Number(this.configService.get('REDIS_DB', 0)),
+    });
+    this.subscriber = this.publisher.duplicate();
+
+    for (const client of [this.publisher, this.subscriber]) {
+      client.on('error', error => this.logger.error('Redis client error:', error));
+    }
+  }
+
+  async onModuleInit() {
+    await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+    await this.subscriber.subscribe(this.channel, message => this.deliver(message));
+    this.logger.log(`Cache invalidation subscribed to Redis channel ${this.channel}`);
+  }
+
+  async onModuleDestroy() {
+    for (const client of [this.subscriber, this.publisher]) {
+      if (client.isOpen) {
+        await client.quit();
+      }
+    }
+  }
+
+  async publish(invalidation: CacheInvalidation): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(invalidation));
+  }
+
+  subscribe(listener: CacheInvalidationListener): void {
+    this.listeners.push(listener);
+  }
+
+  private deliver(message: string): void {
+    let invalidation: CacheInvalidation;
+    try {
+      invalidation = JSON.parse(message);
+    } catch {
+      this.logger.warn(`Ignoring malformed cache invalidation: ${message}`);
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(invalidation);
+      } catch (error) {
+        this.logger.error(`Cache invalidation listener failed for ${invalidation.cache}:`, error);
+      }
+    }
+  }
+}
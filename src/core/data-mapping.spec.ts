@@ -0,0 +1,105 @@
+import { ExpressionEngine } from './expression-engine';
+import { applyMapping, getStepOutput, recordStepOutput, validateMapping } from './data-mapping';
+import { WorkflowStep } from '../types';
+
+describe('data mapping', () => {
+  const expressionEngine = new ExpressionEngine();
+  const charge: WorkflowStep = {
+    id: 'charge',
+    name: 'charge',
+    type: 'action',
+    config: { action: 'payments.charge' },
+  };
+
+  it('takes what a step stored under its own id as its output', () => {
+    expect(getStepOutput(charge, { charge: { id: 'ch_1' }, other: true })).toEqual({ id: 'ch_1' });
+    expect(getStepOutput(charge, { id: 'ch_1' })).toEqual({ id: 'ch_1' });
+  });
+
+  it('records outputs without touching an outputs object a parent context shares', () => {
+    const parent: Record<string, any> = {};
+    recordStepOutput(parent, 'reserve', { sku: 'A' });
+    const branch = { ...parent };
+
+    recordStepOutput(branch, 'charge', { id: 'ch_1' });
+
+    expect(parent.steps).toEqual({ reserve: { output: { sku: 'A' } } });
+    expect(branch.steps).toEqual({
+      reserve: { output: { sku: 'A' } },
+      charge: { output: { id: 'ch_1' } },
+    });
+  });
+
+  it('evaluates every key of a mapping against $', () => {
+    const root = { steps: { reserve: { output: { sku: 'A' } } }, context: { qty: 2 } };
+
+    expect(
+      applyMapping(
+        expressionEngine,
+        { sku: '$.steps.reserve.output.sku', qty: '$.context.qty * 2' },
+        root
+      )
+    ).toEqual({ sku: 'A', qty: 4 });
+  });
+
+  describe('validateMapping', () => {
+    const stepIds = new Set(['reserve', 'charge', 'ship']);
+    const validate = (output: Record<string, string>) =>
+      validateMapping(
+        expressionEngine,
+        { ...charge, output },
+        'output',
+        new Set(['reserve']),
+        stepIds
+      );
+
+    it('accepts mappings of earlier steps and of the step output', () => {
+      expect(
+        validate({ sku: '$.steps.reserve.output.sku', chargeId: '$.output.id', all: '$.context' })
+      ).toEqual([]);
+    });
+
+    it('rejects expressions that do not read from a known root of $', () => {
+      expect(validate({ a: 'context.qty', b: '$.secrets.key', c: '$.' })).toEqual([
+        'Step charge output mapping a must read from $, not context',
+        'Step charge output mapping b reads unknown root $.secrets; expected one of steps, context, trigger, input, output',
+        expect.stringMatching(/^Step charge output mapping c is invalid: /),
+      ]);
+    });
+
+    it('rejects reads of steps that are unknown or do not run before the step', () => {
+      expect(validate({ a: '$.steps.refund.output', b: '$.steps.ship.output.trackingId' })).toEqual(
+        [
+          'Step charge output mapping a reads unknown step refund',
+          'Step charge output mapping b reads step ship, which does not run before it',
+        ]
+      );
+    });
+
+    it('only lets output mappings read the step output', () => {
+      expect(
+        validateMapping(
+          expressionEngine,
+          { ...charge, input: { id: '$.output.id' } },
+          'input',
+          new Set(),
+          stepIds
+        )
+      ).toEqual([
+        'Step charge input mapping id reads unknown root $.output; expected one of steps, context, trigger, input',
+      ]);
+    });
+
+    it('rejects mappings that are not objects', () => {
+      expect(
+        validateMapping(
+          expressionEngine,
+          { ...charge, input: [] as never },
+          'input',
+          new Set(),
+          stepIds
+        )
+      ).toEqual(['Step charge input mapping must be an object of expressions']);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { WorkflowStep } from '../types';
+import { ExpressionEngine } from './expression-engine';
+
+/**
+ * Context key under which every step's output is kept, by step id, as
+ * `steps.<id>.output`.
+ */
+export const STEP_OUTPUTS_KEY = 'steps';
+
+export const INPUT_MAPPING_ROOTS = ['steps', 'context', 'trigger', 'input'];
+export const OUTPUT_MAPPING_ROOTS = [...INPUT_MAPPING_ROOTS, 'output'];
+
+/**
+ * A step's output: what it stored under its own id, or else its whole result.
+ */
+export function getStepOutput(step: WorkflowStep, data: Record<string, any>): any {
+  return Object.prototype.hasOwnProperty.call(data, step.id) ? data[step.id] : data;
+}
+
+/**
+ * Stores a step's output in a context. The outputs object is replaced rather
+ * than mutated because branch and iteration contexts share it with their
+ * parent.
+ */
+export function recordStepOutput(context: Record<string, any>, stepId: string, output: any): void {
+  context[STEP_OUTPUTS_KEY] = { ...(context[STEP_OUTPUTS_KEY] || {}), [stepId]: { output } };
+}
+
+/**
+ * Evaluates a mapping of keys to expressions with `root` bound to `$`.
+ */
+export function applyMapping(
+  expressionEngine: ExpressionEngine,
+  mapping: Record<string, string>,
+  root: Record<string, any>
+): Record<string, any> {
+  const mapped: Record<string, any> = {};
+  for (const [key, expression] of Object.entries(mapping)) {
+    mapped[key] = expressionEngine.evaluate(expression, { $: root });
+  }
+  return mapped;
+}
+
+/**
+ * Problems with one of a step's mappings: expressions that don't parse, read
+ * anything but `$.<root>`, or read the output of a step that can't have run
+ * before `step`.
+ */
+export function validateMapping(
+  expressionEngine: ExpressionEngine,
+  step: WorkflowStep,
+  kind: 'input' | 'output',
+  preceding: Set<string>,
+  stepIds: Set<string>
+): string[] {
+  const mapping = step[kind];
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return [`Step ${step.id} ${kind} mapping must be an object of expressions`];
+  }
+
+  const roots = kind === 'input' ? INPUT_MAPPING_ROOTS : OUTPUT_MAPPING_ROOTS;
+  const errors: string[] = [];
+
+  for (const [key, expression] of Object.entries(mapping)) {
+    const error = expressionEngine.validate(expression);
+    if (error) {
+      errors.push(`Step ${step.id} ${kind} mapping ${key} is invalid: ${error}`);
+      continue;
+    }
+
+    for (const [identifier, root, stepId] of expressionEngine.references(expression)) {
+      if (identifier !== '$') {
+        errors.push(`Step ${step.id} ${kind} mapping ${key} must read from $, not ${identifier}`);
+      } else if (root !== undefined && !roots.includes(root)) {
+        errors.push(
+          `Step ${step.id} ${kind} mapping ${key} reads unknown root $.${root}; expected one of ${roots.join(', ')}`
+        );
+      } else if (root === STEP_OUTPUTS_KEY && stepId !== undefined) {
+        if (!stepIds.has(stepId)) {
+          errors.push(`Step ${step.id} ${kind} mapping ${key} reads unknown step ${stepId}`);
+        } else if (!preceding.has(stepId)) {
+          errors.push(
+            `Step ${step.id} ${kind} mapping ${key} reads step ${stepId}, which does not run before it`
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+}
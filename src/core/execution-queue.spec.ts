@@ -0,0 +1,67 @@
+import { ExecutionJob, InMemoryExecutionQueue } from './execution-queue';
+
+describe('InMemoryExecutionQueue', () => {
+  let queue: InMemoryExecutionQueue;
+
+  const job = (executionId: string, overrides: Partial<ExecutionJob> = {}): ExecutionJob => ({
+    executionId,
+    workflowId: 'wf-1',
+    priority: 0,
+    enqueuedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  const drain = async () => {
+    const claimed: string[] = [];
+    for (let next = await queue.claim(() => true); next; next = await queue.claim(() => true)) {
+      claimed.push(next.executionId);
+    }
+    return claimed;
+  };
+
+  beforeEach(() => {
+    queue = new InMemoryExecutionQueue();
+  });
+
+  it('claims higher priorities first and equal priorities in enqueue order', async () => {
+    await queue.enqueue(job('low', { priority: -1 }));
+    await queue.enqueue(job('second', { enqueuedAt: new Date('2024-01-01T00:00:02Z') }));
+    await queue.enqueue(job('first', { enqueuedAt: new Date('2024-01-01T00:00:01Z') }));
+    await queue.enqueue(job('urgent', { priority: 10, enqueuedAt: new Date('2024-01-02') }));
+
+    expect(await drain()).toEqual(['urgent', 'first', 'second', 'low']);
+    expect(await queue.claim(() => true)).toBeNull();
+  });
+
+  it('skips jobs the caller cannot run and keeps their place', async () => {
+    await queue.enqueue(job('busy-1', { workflowId: 'busy', priority: 5 }));
+    await queue.enqueue(job('idle-1', { workflowId: 'idle' }));
+    await queue.enqueue(job('busy-2', { workflowId: 'busy' }));
+
+    const claimed = await queue.claim(candidate => candidate.workflowId !== 'busy');
+
+    expect(claimed?.executionId).toBe('idle-1');
+    expect(await queue.claim(candidate => candidate.workflowId !== 'busy')).toBeNull();
+    expect(await drain()).toEqual(['busy-1', 'busy-2']);
+  });
+
+  it('removes queued jobs', async () => {
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+
+    expect(await queue.remove('a')).toBe(true);
+    expect(await queue.remove('a')).toBe(false);
+    expect(await queue.has('a')).toBe(false);
+    expect(await queue.has('b')).toBe(true);
+    expect(await drain()).toEqual(['b']);
+  });
+
+  it('reports its depth by workflow', async () => {
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+    await queue.enqueue(job('c', { workflowId: 'wf-2' }));
+    await queue.claim(candidate => candidate.workflowId === 'wf-2');
+
+    expect(await queue.depth()).toEqual({ total: 2, byWorkflow: { 'wf-1': 2 } });
+  });
+});
@@ -0,0 +1,215 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+
+/**
+ * A request to run an execution that has been persisted as `queued`.
+ * `maxConcurrency` is the workflow's cap at the time it was enqueued.
+ */
+export interface ExecutionJob {
+  executionId: string;
+  workflowId: string;
+  priority: number;
+  maxConcurrency?: number;
+  enqueuedAt: Date;
+}
+
+export interface ExecutionQueueDepth {
+  total: number;
+  byWorkflow: Record<string, number>;
+}
+
+export interface ExecutionQueueStats {
+  queued: ExecutionQueueDepth;
+  active: number;
+  activeByWorkflow: Record<string, number>;
+  workers: number;
+}
+
+/**
+ * Queue of executions waiting for a worker. Higher priorities are claimed
+ * first, equal priorities in enqueue order. `claim` skips jobs the caller
+ * cannot run yet (e.g. their workflow is at its concurrency cap) so they keep
+ * their place in the queue.
+ */
+export abstract class ExecutionQueue {
+  abstract enqueue(job: ExecutionJob): Promise<void>;
+  abstract claim(canRun: (job: ExecutionJob) => boolean): Promise<ExecutionJob | null>;
+  abstract remove(executionId: string): Promise<boolean>;
+  abstract has(executionId: string): Promise<boolean>;
+  abstract depth(): Promise<ExecutionQueueDepth>;
+}
+
+// Claim scans this many jobs from the head of the queue for one it can run
+const CLAIM_SCAN_SIZE = 100;
+
+// Removes a job from the sorted set and the hash in one step. Returns its
+// payload (empty if it had none), or nil when another instance removed it first
+const TAKE_JOB_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+  return nil
+end
+local payload = redis.call('HGET', KEYS[2], ARGV[1])
+redis.call('HDEL', KEYS[2], ARGV[1])
+return payload or ''
+`;
+
+function compareJobs(a: ExecutionJob, b: ExecutionJob): number {
+  return b.priority - a.priority || a.enqueuedAt.getTime() - b.enqueuedAt.getTime();
+}
+
+function countByWorkflow(jobs: ExecutionJob[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const job of jobs) {
+    counts[job.workflowId] = (counts[job.workflowId] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Process-local queue for tests and single-instance development. Jobs do not
+ * survive a restart.
+ */
+export class InMemoryExecutionQueue extends ExecutionQueue {
+  private readonly jobs: ExecutionJob[] = [];
+
+  enqueue(job: ExecutionJob): Promise<void> {
+    this.jobs.push(job);
+    this.jobs.sort(compareJobs);
+    return Promise.resolve();
+  }
+
+  claim(canRun: (job: ExecutionJob) => boolean): Promise<ExecutionJob | null> {
+    const index = this.jobs.slice(0, CLAIM_SCAN_SIZE).findIndex(canRun);
+    return Promise.resolve(index === -1 ? null : this.jobs.splice(index, 1)[0]);
+  }
+
+  remove(executionId: string): Promise<boolean> {
+    const index = this.jobs.findIndex(job => job.executionId === executionId);
+    if (index === -1) {
+      return Promise.resolve(false);
+    }
+    this.jobs.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  has(executionId: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.some(job => job.executionId === executionId));
+  }
+
+  depth(): Promise<ExecutionQueueDepth> {
+    return Promise.resolve({ total: this.jobs.length, byWorkflow: countByWorkflow(this.jobs) });
+  }
+}
+
+/**
+ * Durable queue shared by all instances. Execution ids are kept in a sorted
+ * set ordered by priority and enqueue time, with the jobs themselves in a hash.
+ * A job is claimed by a script that removes it from both, so only one
+ * instance can win it and none is left half removed.
+ */
+@Injectable()
+export class RedisExecutionQueue extends ExecutionQueue implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisExecutionQueue.name);
+  private readonly client: RedisClientType;
+  private readonly queueKey: string;
+  private readonly jobsKey: string;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+
+    const prefix = this.configService.get('EXECUTION_QUEUE_KEY', 'flowforge:execution-queue');
+    this.queueKey = `${prefix}:pending`;
+    this.jobsKey = `${prefix}:jobs`;
+
+    this.client = createClient({
+      socket: {
+        host: this.configService.get('REDIS_HOST', 'localhost'),
+        port: Number(this.configService.get('REDIS_PORT', 6379)),
+      },
+      password: this.configService.get('REDIS_PASSWORD') || undefined,
+      database: Number(this.configService.get('REDIS_DB', 0)),
+    });
+    this.client.on('error', error => this.logger.error('Redis client error:', error));
+  }
+
+  async onModuleInit() {
+    await this.client.connect();
+    this.logger.log(`Execution queue connected to Redis (${this.queueKey})`);
+  }
+
+  async onModuleDestroy() {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  async enqueue(job: ExecutionJob): Promise<void> {
+    await this.client
+      .multi()
+      .hSet(this.jobsKey, job.executionId, JSON.stringify(job))
+      .zAdd(this.queueKey, { score: this.score(job), value: job.executionId })
+      .exec();
+  }
+
+  async claim(canRun: (job: ExecutionJob) => boolean): Promise<ExecutionJob | null> {
+    const executionIds = await this.client.zRange(this.queueKey, 0, CLAIM_SCAN_SIZE - 1);
+    if (executionIds.length === 0) {
+      return null;
+    }
+
+    const payloads = await this.client.hmGet(this.jobsKey, executionIds);
+    for (let i = 0; i < executionIds.length; i++) {
+      const payload = payloads[i];
+      if (!payload) {
+        continue;
+      }
+
+      const job = this.parseJob(payload);
+      if (!canRun(job)) {
+        continue;
+      }
+
+      // Another instance claimed it first
+      if ((await this.takeJob(job.executionId)) === null) {
+        continue;
+      }
+
+      return job;
+    }
+
+    return null;
+  }
+
+  async remove(executionId: string): Promise<boolean> {
+    return (await this.takeJob(executionId)) !== null;
+  }
+
+  async has(executionId: string): Promise<boolean> {
+    return (await this.client.zScore(this.queueKey, executionId)) !== null;
+  }
+
+  async depth(): Promise<ExecutionQueueDepth> {
+    const payloads = await this.client.hVals(this.jobsKey);
+    const jobs = payloads.map(payload => this.parseJob(payload));
+    return { total: jobs.length, byWorkflow: countByWorkflow(jobs) };
+  }
+
+  private async takeJob(executionId: string): Promise<string | null> {
+    const payload = await this.client.eval(TAKE_JOB_SCRIPT, {
+      keys: [this.queueKey, this.jobsKey],
+      arguments: [executionId],
+    });
+    return typeof payload === 'string' ? payload : null;
+  }
+
+  // Lower scores are claimed first: priority dominates, then enqueue time
+  private score(job: ExecutionJob): number {
+    return -job.priority * 1e13 + job.enqueuedAt.getTime();
+  }
+
+  private parseJob(payload: string): ExecutionJob {
+    const job = JSON.parse(payload);
+    return { ...job, enqueuedAt: new Date(job.enqueuedAt) };
+  }
+}
@@ -0,0 +1,147 @@
+import { ExpressionEngine, ExpressionError, buildEventScope } from './expression-engine';
+import { Event } from '../types';
+
+describe('ExpressionEngine', () => {
+  let engine: ExpressionEngine;
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  describe('evaluate', () => {
+    const scope = {
+      data: { amount: 150, currency: 'EUR', items: ['a', 'b'], customer: { tier: 'gold' } },
+      type: 'order.created',
+    };
+
+    it('reads dotted and bracket member paths', () => {
+      expect(engine.evaluate('data.customer.tier', scope)).toBe('gold');
+      expect(engine.evaluate("data['currency']", scope)).toBe('EUR');
+      expect(engine.evaluate('data.items[1]', scope)).toBe('b');
+      expect(engine.evaluate('data.missing.deeper', scope)).toBeUndefined();
+    });
+
+    it('applies arithmetic and comparison operators with precedence', () => {
+      expect(engine.evaluate('1 + 2 * 3', {})).toBe(7);
+      expect(engine.evaluate('(1 + 2) * 3', {})).toBe(9);
+      expect(engine.evaluate('10 % 4', {})).toBe(2);
+      expect(engine.test('data.amount >= 100 && data.currency == "EUR"', scope)).toBe(true);
+      expect(engine.test('data.amount < 100 or not (type == "order.created")', scope)).toBe(false);
+    });
+
+    it('supports in, contains and whitelisted functions', () => {
+      expect(engine.test('"a" in data.items', scope)).toBe(true);
+      expect(engine.test('data.items contains "c"', scope)).toBe(false);
+      expect(engine.test('type contains "order"', scope)).toBe(true);
+      expect(engine.evaluate('len(data.items)', scope)).toBe(2);
+      expect(engine.evaluate('upper(data.currency)', scope)).toBe('EUR');
+      expect(engine.test('startsWith(type, "order.")', scope)).toBe(true);
+      expect(engine.test('exists(data.missing)', scope)).toBe(false);
+    });
+
+    it('compares arrays and objects structurally', () => {
+      expect(engine.test('data.items == ["a", "b"]', scope)).toBe(true);
+      expect(engine.test('data.items != ["b", "a"]', scope)).toBe(true);
+    });
+
+    it('does not expose prototype properties', () => {
+      expect(engine.evaluate('data.constructor', scope)).toBeUndefined();
+      expect(engine.evaluate('data.__proto__', scope)).toBeUndefined();
+      expect(engine.evaluate('data.toString', scope)).toBeUndefined();
+    });
+
+    it('rejects unknown functions', () => {
+      expect(() => engine.evaluate('eval("1")', {})).toThrow(ExpressionError);
+    });
+  });
+
+  describe('validate', () => {
+    it('returns null for a valid expression', () => {
+      expect(engine.validate('data.amount > 10')).toBeNull();
+    });
+
+    it('reports syntax errors with their position', () => {
+      expect(engine.validate('data.amount >')).toMatch(/position 13/);
+      expect(engine.validate('(1 + 2')).toMatch(/position/);
+      expect(engine.validate('  ')).toBe('Expression must be a non-empty string');
+    });
+  });
+
+  describe('references', () => {
+    it('lists the static paths an expression reads', () => {
+      expect(engine.references('$.steps.a.output.id == data[key]')).toEqual([
+        ['$', 'steps', 'a', 'output', 'id'],
+        ['key'],
+        ['data'],
+      ]);
+    });
+  });
+
+  describe('render', () => {
+    const scope = { data: { id: 42, tags: ['x'] }, name: 'flow' };
+
+    it('returns the raw value of a template that is a single placeholder', () => {
+      expect(engine.render('{{ data.id }}', scope)).toBe(42);
+      expect(engine.render('{{ data.tags }}', scope)).toEqual(['x']);
+    });
+
+    it('interpolates placeholders inside text', () => {
+      expect(engine.render('id={{ data.id }} tags={{ data.tags }} none={{ data.no }}', scope)).toBe(
+        'id=42 tags=["x"] none='
+      );
+    });
+
+    it('renders every string of arrays and objects', () => {
+      expect(
+        engine.render({ url: '/items/{{ data.id }}', list: ['{{ name }}', 3] }, scope)
+      ).toEqual({ url: '/items/42', list: ['flow', 3] });
+    });
+
+    it('reports invalid placeholders with their path', () => {
+      expect(engine.validateTemplate({ headers: ['{{ data. }}'] })).toEqual([
+        expect.stringMatching(/^headers\[0\]: /),
+      ]);
+    });
+  });
+
+  describe('filters', () => {
+    const scope = buildEventScope({
+      id: 'evt-1',
+      type: 'order.created',
+      data: { amount: 250, status: 'paid', customer: { country: 'DE' } },
+      metadata: { source: 'test', tags: { region: 'eu' } },
+      timestamp: new Date(),
+    } as Event);
+
+    it('resolves paths against data unless they start with a scope root', () => {
+      expect(engine.matchesFilters({ status: 'paid', 'tags.region': 'eu' }, scope)).toBe(true);
+      expect(engine.matchesFilters({ type: 'order.updated' }, scope)).toBe(false);
+    });
+
+    it('supports operators, membership and nested filters', () => {
+      expect(
+        engine.matchesFilters(
+          {
+            amount: { $gte: 100, $lt: 500 },
+            status: ['paid', 'settled'],
+            customer: { country: { $in: ['DE', 'AT'] } },
+            refund: { $exists: false },
+          },
+          scope
+        )
+      ).toBe(true);
+      expect(engine.matchesFilters({ amount: { $gt: 250 } }, scope)).toBe(false);
+      expect(engine.matchesFilters({ status: { $nin: ['paid'] } }, scope)).toBe(false);
+    });
+
+    it('reports unknown operators and malformed operands', () => {
+      expect(
+        engine.validateFilters({ amount: { $between: [1, 2] }, status: { $in: 'x' } })
+      ).toEqual([
+        'Unknown filter operator "$between" at "amount"',
+        'Filter operator "$in" at "status" requires an array',
+      ]);
+      expect(engine.validateFilters({ customer: { country: { $eq: 'DE' } } })).toEqual([]);
+    });
+  });
+});
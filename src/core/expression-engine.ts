@@ -0,0 +1,824 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Event } from '../types';
+
+/**
+ * Raised when an expression cannot be parsed or evaluated. `position` is the
+ * zero-based character offset in `expression` where the problem was detected.
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position: number
+  ) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode; position: number }
+  | { kind: 'array'; elements: ExpressionNode[] }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const KEYWORD_LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+const MAX_CACHED_EXPRESSIONS = 1000;
+const TEMPLATE_PATTERN = /\{\{(.*?)\}\}/g;
+
+/**
+ * Whitelisted functions callable from expressions. They must stay pure: no
+ * I/O, no clock, no access to anything outside their arguments.
+ */
+const FUNCTIONS: Record<string, (...args: any[]) => unknown> = {
+  exists: (value: unknown) => value !== undefined && value !== null,
+  len: (value: unknown) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  lower: (value: unknown) => String(value ?? '').toLowerCase(),
+  upper: (value: unknown) => String(value ?? '').toUpperCase(),
+  startsWith: (value: unknown, prefix: unknown) => String(value ?? '').startsWith(String(prefix)),
+  endsWith: (value: unknown, suffix: unknown) => String(value ?? '').endsWith(String(suffix)),
+};
+
+const FILTER_OPERATORS = new Set([
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$exists',
+  '$contains',
+]);
+
+/**
+ * Sandboxed, side-effect-free expression language used for trigger conditions
+ * and filters. Expressions are parsed into an AST and interpreted against a
+ * plain scope object; nothing is ever handed to `eval` or `Function`, and only
+ * own properties of scope values are reachable.
+ *
+ * Supported syntax: literals (numbers, strings, true/false/null, arrays),
+ * dotted and bracket member access, arithmetic (+ - * / %), comparisons
+ * (== != < <= > >=), `in`, `contains`, logical `&&`/`and`, `||`/`or`,
+ * `!`/`not`, parentheses and the functions in {@link FUNCTIONS}.
+ */
+@Injectable()
+export class ExpressionEngine {
+  private readonly logger = new Logger(ExpressionEngine.name);
+  private readonly compiled = new Map<string, ExpressionNode>();
+
+  /**
+   * Parses an expression, throwing {@link ExpressionError} on invalid syntax.
+   * Parsed expressions are cached by source text.
+   */
+  compile(expression: string): ExpressionNode {
+    const cached = this.compiled.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    const ast = new Parser(expression).parse();
+
+    if (this.compiled.size >= MAX_CACHED_EXPRESSIONS) {
+      const oldest = this.compiled.keys().next().value;
+      if (oldest !== undefined) {
+        this.compiled.delete(oldest);
+      }
+    }
+    this.compiled.set(expression, ast);
+
+    return ast;
+  }
+
+  evaluate(expression: string, scope: Record<string, any>): unknown {
+    return this.evaluateNode(this.compile(expression), scope, expression);
+  }
+
+  /**
+   * Evaluates an expression and coerces the result to a boolean.
+   */
+  test(expression: string, scope: Record<string, any>): boolean {
+    return Boolean(this.evaluate(expression, scope));
+  }
+
+  /**
+   * Returns a human-readable parse error, or null when the expression is valid.
+   */
+  validate(expression: string): string | null {
+    if (typeof expression !== 'string' || expression.trim().length === 0) {
+      return 'Expression must be a non-empty string';
+    }
+
+    try {
+      this.compile(expression);
+      return null;
+    } catch (error) {
+      return error instanceof ExpressionError ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Lists the static paths an expression reads, each starting with its root
+   * identifier: `$.steps.a.output` yields `['$', 'steps', 'a', 'output']`.
+   * A path stops at the first computed property.
+   */
+  references(expression: string): string[][] {
+    const paths: string[][] = [];
+
+    const visit = (node: ExpressionNode): string[] | null => {
+      switch (node.kind) {
+        case 'identifier':
+          return [node.name];
+        case 'member': {
+          const path = visit(node.object);
+          if (node.property.kind !== 'literal') {
+            collect(node.property);
+            if (path) paths.push(path);
+            return null;
+          }
+          return path ? [...path, String(node.property.value)] : null;
+        }
+        case 'array':
+          node.elements.forEach(element => collect(element));
+          return null;
+        case 'unary':
+          collect(node.operand);
+          return null;
+        case 'binary':
+          collect(node.left);
+          collect(node.right);
+          return null;
+        case 'call':
+          node.args.forEach(arg => collect(arg));
+          return null;
+        default:
+          return null;
+      }
+    };
+    const collect = (node: ExpressionNode) => {
+      const path = visit(node);
+      if (path) paths.push(path);
+    };
+
+    collect(this.compile(expression));
+    return paths;
+  }
+
+  /**
+   * Renders `{{ expression }}` placeholders in a string, or in every string
+   * of an array or object. A string that is exactly one placeholder yields the
+   * expression's value as is; otherwise values are interpolated as text.
+   */
+  render(template: unknown, scope: Record<string, any>): unknown {
+    if (typeof template === 'string') {
+      const whole = template.match(/^\{\{(.*?)\}\}$/);
+      if (whole && !whole[1].includes('}}')) {
+        return this.evaluate(whole[1].trim(), scope);
+      }
+
+      return template.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+        const value = this.evaluate(expression.trim(), scope);
+        if (value === undefined || value === null) {
+          return '';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+
+    if (Array.isArray(template)) {
+      return template.map(item => this.render(item, scope));
+    }
+
+    if (this.isPlainObject(template)) {
+      const rendered: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(template)) {
+        rendered[key] = this.render(value, scope);
+      }
+      return rendered;
+    }
+
+    return template;
+  }
+
+  /**
+   * Returns the parse errors of every placeholder in a template.
+   */
+  validateTemplate(template: unknown, path: string = ''): string[] {
+    if (typeof template === 'string') {
+      const errors: string[] = [];
+      for (const [, expression] of template.matchAll(TEMPLATE_PATTERN)) {
+        const error = this.validate(expression.trim());
+        if (error) {
+          errors.push(path ? `${path}: ${error}` : error);
+        }
+      }
+      return errors;
+    }
+
+    if (Array.isArray(template)) {
+      return template.flatMap((item, index) => this.validateTemplate(item, `${path}[${index}]`));
+    }
+
+    if (this.isPlainObject(template)) {
+      return Object.entries(template).flatMap(([key, value]) =>
+        this.validateTemplate(value, path ? `${path}.${key}` : key)
+      );
+    }
+
+    return [];
+  }
+
+  /**
+   * Checks a filters object against a scope. Each key is a dotted path; keys
+   * whose first segment is not a scope root are resolved against `data`.
+   * Values may be a literal (equality), an array (membership), an operator
+   * object such as `{ $gte: 100 }`, or a nested filters object.
+   */
+  matchesFilters(filters: Record<string, any>, scope: Record<string, any>): boolean {
+    return Object.entries(filters).every(([path, expected]) => {
+      const actual = this.resolveFilterPath(scope, path);
+      return this.matchesFilterValue(actual, expected);
+    });
+  }
+
+  /**
+   * Returns a list of problems with a filters object (unknown operators,
+   * malformed operands). An empty list means the filters are usable.
+   */
+  validateFilters(filters: Record<string, any>, path: string = ''): string[] {
+    const errors: string[] = [];
+
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+      return [`Filters${path ? ` at "${path}"` : ''} must be an object`];
+    }
+
+    for (const [key, expected] of Object.entries(filters)) {
+      const keyPath = path ? `${path}.${key}` : key;
+
+      if (!this.isPlainObject(expected)) {
+        continue;
+      }
+
+      const keys = Object.keys(expected);
+      if (keys.some(k => k.startsWith('$'))) {
+        for (const operator of keys) {
+          if (!FILTER_OPERATORS.has(operator)) {
+            errors.push(`Unknown filter operator "${operator}" at "${keyPath}"`);
+          } else if (
+            (operator === '$in' || operator === '$nin') &&
+            !Array.isArray(expected[operator])
+          ) {
+            errors.push(`Filter operator "${operator}" at "${keyPath}" requires an array`);
+          }
+        }
+      } else {
+        errors.push(...this.validateFilters(expected, keyPath));
+      }
+    }
+
+    return errors;
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: Record<string, any>, source: string): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return this.readProperty(scope, node.name);
+
+      case 'array':
+        return node.elements.map(element => this.evaluateNode(element, scope, source));
+
+      case 'member': {
+        const object = this.evaluateNode(node.object, scope, source);
+        const property = this.evaluateNode(node.property, scope, source);
+        if (typeof property !== 'string' && typeof property !== 'number') {
+          throw new ExpressionError(
+            'Property name must be a string or number',
+            source,
+            node.position
+          );
+        }
+        return this.readProperty(object, String(property));
+      }
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, scope, source);
+        return node.operator === '!' ? !operand : -Number(operand);
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node, scope, source);
+
+      case 'call': {
+        const fn = FUNCTIONS[node.name];
+        if (!fn) {
+          throw new ExpressionError(`Unknown function "${node.name}"`, source, node.position);
+        }
+        return fn(...node.args.map(arg => this.evaluateNode(arg, scope, source)));
+      }
+    }
+  }
+
+  private evaluateBinary(
+    node: Extract<ExpressionNode, { kind: 'binary' }>,
+    scope: Record<string, any>,
+    source: string
+  ): unknown {
+    // Logical operators short-circuit, so evaluate the right side lazily
+    if (node.operator === '&&') {
+      return (
+        this.evaluateNode(node.left, scope, source) && this.evaluateNode(node.right, scope, source)
+      );
+    }
+    if (node.operator === '||') {
+      return (
+        this.evaluateNode(node.left, scope, source) || this.evaluateNode(node.right, scope, source)
+      );
+    }
+
+    const left: any = this.evaluateNode(node.left, scope, source);
+    const right: any = this.evaluateNode(node.right, scope, source);
+
+    switch (node.operator) {
+      case '==':
+      case '===':
+        return this.isEqual(left, right);
+      case '!=':
+      case '!==':
+        return !this.isEqual(left, right);
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      case '>=':
+        return left >= right;
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        return left / right;
+      case '%':
+        return left % right;
+      case 'in':
+        return this.contains(right, left);
+      case 'contains':
+        return this.contains(left, right);
+      default:
+        throw new ExpressionError(`Unsupported operator "${node.operator}"`, source, 0);
+    }
+  }
+
+  private readProperty(object: unknown, property: string): unknown {
+    if (object === null || object === undefined || BLOCKED_PROPERTIES.has(property)) {
+      return undefined;
+    }
+    if (typeof object === 'string') {
+      return property === 'length' ? object.length : undefined;
+    }
+    if (typeof object !== 'object') {
+      return undefined;
+    }
+    return Object.prototype.hasOwnProperty.call(object, property)
+      ? (object as Record<string, unknown>)[property]
+      : undefined;
+  }
+
+  private contains(container: unknown, value: unknown): boolean {
+    if (Array.isArray(container)) {
+      return container.some(item => this.isEqual(item, value));
+    }
+    if (typeof container === 'string') {
+      return container.includes(String(value));
+    }
+    if (this.isPlainObject(container)) {
+      return Object.prototype.hasOwnProperty.call(container, String(value));
+    }
+    return false;
+  }
+
+  private isEqual(left: unknown, right: unknown): boolean {
+    if (left === right) return true;
+    if (left instanceof Date || right instanceof Date) {
+      return new Date(left as any).getTime() === new Date(right as any).getTime();
+    }
+    if (Array.isArray(left) && Array.isArray(right)) {
+      return left.length === right.length && left.every((item, i) => this.isEqual(item, right[i]));
+    }
+    if (this.isPlainObject(left) && this.isPlainObject(right)) {
+      const leftKeys = Object.keys(left);
+      return (
+        leftKeys.length === Object.keys(right).length &&
+        leftKeys.every(key => this.isEqual(left[key], right[key]))
+      );
+    }
+    return false;
+  }
+
+  private resolveFilterPath(scope: Record<string, any>, path: string): unknown {
+    const segments = path.split('.');
+    let current: unknown = Object.prototype.hasOwnProperty.call(scope, segments[0])
+      ? scope
+      : scope.data;
+
+    for (const segment of segments) {
+      current = this.readProperty(current, segment);
+      if (current === undefined) {
+        return undefined;
+      }
+    }
+
+    return current;
+  }
+
+  private matchesFilterValue(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(expected)) {
+      return expected.some(item => this.isEqual(actual, item));
+    }
+
+    if (!this.isPlainObject(expected)) {
+      return this.isEqual(actual, expected);
+    }
+
+    const keys = Object.keys(expected);
+    if (!keys.some(key => key.startsWith('$'))) {
+      return this.isPlainObject(actual) && this.matchesFilters(expected, actual);
+    }
+
+    return keys.every(operator => {
+      const operand: any = expected[operator];
+      const value: any = actual;
+      switch (operator) {
+        case '$eq':
+          return this.isEqual(value, operand);
+        case '$ne':
+          return !this.isEqual(value, operand);
+        case '$gt':
+          return value !== undefined && value !== null && value > operand;
+        case '$gte':
+          return value !== undefined && value !== null && value >= operand;
+        case '$lt':
+          return value !== undefined && value !== null && value < operand;
+        case '$lte':
+          return value !== undefined && value !== null && value <= operand;
+        case '$in':
+          return Array.isArray(operand) && operand.some(item => this.isEqual(value, item));
+        case '$nin':
+          return Array.isArray(operand) && !operand.some(item => this.isEqual(value, item));
+        case '$exists':
+          return (value !== undefined && value !== null) === Boolean(operand);
+        case '$contains':
+          return this.contains(value, operand);
+        default:
+          this.logger.warn(`Ignoring unknown filter operator ${operator}`);
+          return false;
+      }
+    });
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date)
+    );
+  }
+}
+
+/**
+ * Builds the scope trigger conditions and filters are evaluated against.
+ */
+export function buildEventScope(event: Event): Record<string, any> {
+  return {
+    event,
+    type: event.type,
+    data: event.data ?? {},
+    metadata: event.metadata ?? {},
+    tags: event.metadata?.tags ?? {},
+    correlationId: event.correlationId,
+    causationId: event.causationId,
+  };
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.error(`Unexpected token "${token.value}"`, token);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { kind: 'binary', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&')) {
+      left = { kind: 'binary', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    const isComparison =
+      (token.type === 'operator' &&
+        ['==', '===', '!=', '!==', '<', '<=', '>', '>='].includes(token.value)) ||
+      (token.type === 'identifier' && (token.value === 'in' || token.value === 'contains'));
+
+    if (!isComparison) {
+      return left;
+    }
+
+    this.index++;
+    return { kind: 'binary', operator: token.value, left, right: this.parseAdditive() };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    for (let op = this.matchOperator('+', '-'); op; op = this.matchOperator('+', '-')) {
+      left = { kind: 'binary', operator: op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    for (let op = this.matchOperator('*', '/', '%'); op; op = this.matchOperator('*', '/', '%')) {
+      left = { kind: 'binary', operator: op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+      if (this.matchPunctuation('.')) {
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          throw this.error('Expected property name after "."', property);
+        }
+        node = {
+          kind: 'member',
+          object: node,
+          property: { kind: 'literal', value: property.value },
+          position: property.position,
+        };
+      } else if (this.matchPunctuation('[')) {
+        const property = this.parseOr();
+        this.expectPunctuation(']');
+        node = { kind: 'member', object: node, property, position: token.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier': {
+        if (Object.prototype.hasOwnProperty.call(KEYWORD_LITERALS, token.value)) {
+          return { kind: 'literal', value: KEYWORD_LITERALS[token.value] };
+        }
+        if (this.matchPunctuation('(')) {
+          if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+            throw this.error(`Unknown function "${token.value}"`, token);
+          }
+          return {
+            kind: 'call',
+            name: token.value,
+            args: this.parseList(')'),
+            position: token.position,
+          };
+        }
+        return { kind: 'identifier', name: token.value };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectPunctuation(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { kind: 'array', elements: this.parseList(']') };
+        }
+        break;
+
+      case 'eof':
+        throw this.error('Unexpected end of expression', token);
+    }
+
+    throw this.error(`Unexpected token "${token.value}"`, token);
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchPunctuation(closing)) {
+      return items;
+    }
+    do {
+      items.push(this.parseOr());
+    } while (this.matchPunctuation(','));
+    this.expectPunctuation(closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.peek();
+    if (!this.matchPunctuation(value)) {
+      throw this.error(
+        `Expected "${value}" but found "${token.value || 'end of expression'}"`,
+        token
+      );
+    }
+  }
+
+  private error(message: string, token: Token): ExpressionError {
+    return new ExpressionError(message, this.source, token.position);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string literal', source, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      const word = match[0];
+      if (Object.prototype.hasOwnProperty.call(WORD_OPERATORS, word)) {
+        tokens.push({ type: 'operator', value: WORD_OPERATORS[word], position: i });
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if ('()[].,'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, source, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
@@ -0,0 +1,216 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { HttpRequestAction, HttpRequestError, HttpStatusError } from './http-request-action';
+import { ExpressionEngine } from './expression-engine';
+import { WorkflowContext } from '../types';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('HttpRequestAction', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let respond: (request: IncomingMessage, response: ServerResponse) => void;
+  let action: HttpRequestAction;
+
+  const context = (data: Record<string, unknown> = {}): WorkflowContext => ({
+    executionId: 'exec-1',
+    workflowId: 'wf-1',
+    stepId: 'fetch',
+    data,
+    metadata: {},
+  });
+
+  const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ method: request.method, url: request.url, headers: request.headers, body });
+        respond(request, response);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respond = (_, response) => sendJson(response, 200, { ok: true });
+    const configService = { get: (_key: string, defaultValue: unknown) => defaultValue };
+    action = new HttpRequestAction(
+      new ExpressionEngine(),
+      configService as unknown as ConfigService
+    );
+  });
+
+  it('renders the request from the execution context', async () => {
+    await action.execute(
+      {
+        method: 'POST',
+        url: `${baseUrl}/orders/{{ order.id }}`,
+        query: { expand: '{{ order.expand }}', empty: '{{ order.missing }}', skipped: null },
+        headers: { authorization: 'Bearer {{ token }}' },
+        body: { id: '{{ order.id }}', items: '{{ order.items }}' },
+      },
+      context({ order: { id: 42, expand: 'lines', items: [1, 2] }, token: 'abc' })
+    );
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.method).toBe('POST');
+    // Parameters whose value is missing are left out
+    expect(request.url).toBe('/orders/42?expand=lines');
+    expect(request.headers.authorization).toBe('Bearer abc');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(request.body)).toEqual({ id: 42, items: [1, 2] });
+  });
+
+  it('sends string bodies as they are and never sends a body with GET', async () => {
+    await action.execute(
+      {
+        method: 'PUT',
+        url: `${baseUrl}/notes`,
+        headers: { 'content-type': 'text/plain' },
+        body: 'note for {{ name }}',
+      },
+      context({ name: 'ada' })
+    );
+    await action.execute({ url: `${baseUrl}/notes`, body: { ignored: true } }, context());
+
+    expect(received.map(({ method, body }) => ({ method, body }))).toEqual([
+      { method: 'PUT', body: 'note for ada' },
+      { method: 'GET', body: '' },
+    ]);
+    expect(received[0].headers['content-type']).toBe('text/plain');
+  });
+
+  it('returns the response with its mapped output keys as the step output', async () => {
+    respond = (_, response) => {
+      response.setHeader('x-request-id', 'req-7');
+      sendJson(response, 201, { order: { id: 42, total: 99.5 } });
+    };
+
+    const result = await action.execute(
+      {
+        url: `${baseUrl}/orders`,
+        output: { orderId: 'body.order.id', created: 'status == 201' },
+      },
+      context()
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        fetch: {
+          status: 201,
+          headers: expect.objectContaining({ 'x-request-id': 'req-7' }),
+          body: { order: { id: 42, total: 99.5 } },
+          orderId: 42,
+          created: true,
+        },
+      },
+    });
+  });
+
+  it('keeps non-JSON and malformed JSON responses as text', async () => {
+    respond = (_, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end('{"truncated":');
+    };
+
+    const result = await action.execute({ url: baseUrl }, context());
+
+    expect(result.data?.fetch.body).toBe('{"truncated":');
+  });
+
+  it('fails on statuses outside the success statuses', async () => {
+    respond = (_, response) => sendJson(response, 503, { error: 'maintenance' });
+
+    const failure = action.execute({ url: baseUrl }, context());
+
+    await expect(failure).rejects.toBeInstanceOf(HttpStatusError);
+    await expect(failure).rejects.toMatchObject({
+      status: 503,
+      code: 'HTTP_503',
+      retryable: true,
+      body: { error: 'maintenance' },
+    });
+  });
+
+  it('only retries client errors that are worth retrying', async () => {
+    respond = (request, response) => sendJson(response, Number(request.url?.slice(1)), {});
+
+    for (const [status, retryable] of [
+      [400, false],
+      [404, false],
+      [408, true],
+      [429, true],
+    ]) {
+      await expect(
+        action.execute({ url: `${baseUrl}/${status}` }, context())
+      ).rejects.toMatchObject({ status, retryable });
+    }
+  });
+
+  it('accepts configured success statuses', async () => {
+    respond = (_, response) => sendJson(response, 404, { found: false });
+
+    const result = await action.execute({ url: baseUrl, successStatus: ['2xx', 404] }, context());
+
+    expect(result.data?.fetch.status).toBe(404);
+  });
+
+  it('times out slow requests', async () => {
+    respond = (_, response) => setTimeout(() => sendJson(response, 200, {}), 1000);
+
+    await expect(action.execute({ url: baseUrl, timeout: 50 }, context())).rejects.toMatchObject({
+      name: 'HttpRequestError',
+      code: 'HTTP_TIMEOUT',
+    });
+  });
+
+  it('reports network failures', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+
+    const failure = action.execute({ url: `http://127.0.0.1:${port}` }, context());
+
+    await expect(failure).rejects.toBeInstanceOf(HttpRequestError);
+    await expect(failure).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+  });
+
+  it('validates templates, success statuses and output expressions', () => {
+    expect(
+      action.validate({
+        url: `${baseUrl}/{{ order. }}`,
+        successStatus: [200, '2xx', '6xx', 'ok'],
+        output: { id: 'body.id', broken: 'body.', status: 'status == 200' },
+      })
+    ).toEqual([
+      expect.stringMatching(/^url: /),
+      'successStatus "6xx" must be a status code or class like 2xx',
+      'successStatus "ok" must be a status code or class like 2xx',
+      expect.stringMatching(/^output\.broken: /),
+      'output.status: status is already part of the response',
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpRequestConfig, StepResult, WorkflowAction, WorkflowContext } from '../types';
+import { ActionHandler } from './action-registry';
+import { ExpressionEngine } from './expression-engine';
+import { withTimeout } from './timeouts';
+
+const DEFAULT_SUCCESS_STATUS = ['2xx'];
+const STATUS_PATTERN = /^[1-5](xx|\d\d)$/;
+const RESPONSE_KEYS = ['status', 'headers', 'body'];
+
+/**
+ * A response whose status is not one of the request's success statuses.
+ * Codes are `HTTP_<status>` so retry policies can target them; client errors
+ * other than 408 and 429 are never retried.
+ */
+export class HttpStatusError extends Error {
+  readonly code: string;
+  readonly retryable: boolean;
+
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`HTTP request failed with status ${status}`);
+    this.name = 'HttpStatusError';
+    this.code = `HTTP_${status}`;
+    this.retryable = status >= 500 || status === 408 || status === 429;
+  }
+}
+
+/**
+ * The request could not be completed: a network failure or the request's own
+ * timeout (code `HTTP_TIMEOUT`).
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * Built-in `http.request` action. The request is rendered from the step's
+ * config against the execution context, and the response, with any keys
+ * mapped by `output` added to it, becomes the step output. Statuses outside `successStatus`
+ * (default `2xx`) fail the step with {@link HttpStatusError}, so they go
+ * through the step's retry policy like any other failure.
+ */
+@Injectable()
+@ActionHandler({
+  name: 'http.request',
+  description: 'Sends an HTTP request and returns its response as the step output',
+  schema: {
+    type: 'object',
+    required: ['url'],
+    additionalProperties: false,
+    properties: {
+      method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'] },
+      url: { type: 'string', minLength: 1, description: 'Request URL, may contain templates' },
+      query: { type: 'object', description: 'Query string parameters' },
+      headers: { type: 'object' },
+      body: { description: 'Sent as JSON unless it is a string' },
+      timeout: { type: 'integer', minimum: 1, description: 'Request timeout in milliseconds' },
+      successStatus: {
+        type: 'array',
+        description: 'Statuses treated as success, e.g. 200 or "2xx"',
+      },
+      output: {
+        type: 'object',
+        description: 'Step output keys mapped to expressions over status, headers and body',
+      },
+    },
+  },
+})
+export class HttpRequestAction implements WorkflowAction {
+  private readonly logger = new Logger(HttpRequestAction.name);
+
+  constructor(
+    private readonly expressionEngine: ExpressionEngine,
+    private readonly configService: ConfigService
+  ) {}
+
+  validate(config: Record<string, any>): string[] {
+    const errors: string[] = [];
+
+    for (const field of ['url', 'query', 'headers', 'body']) {
+      errors.push(...this.expressionEngine.validateTemplate(config[field], field));
+    }
+
+    for (const status of config.successStatus || []) {
+      if (!STATUS_PATTERN.test(String(status))) {
+        errors.push(
+          `successStatus ${JSON.stringify(status)} must be a status code or class like 2xx`
+        );
+      }
+    }
+
+    for (const [key, expression] of Object.entries(config.output || {})) {
+      const error = RESPONSE_KEYS.includes(key)
+        ? `${key} is already part of the response`
+        : this.expressionEngine.validate(expression as string);
+      if (error) {
+        errors.push(`output.${key}: ${error}`);
+      }
+    }
+
+    return errors;
+  }
+
+  async execute(input: Record<string, any>, context: WorkflowContext): Promise<StepResult> {
+    const config = input as HttpRequestConfig;
+    const scope = context.data ?? {};
+    const method = config.method ?? 'GET';
+
+    const url = new URL(String(this.expressionEngine.render(config.url, scope)));
+    const query = this.expressionEngine.render(config.query ?? {}, scope) as Record<string, any>;
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value));
+      }
+    }
+
+    const headers = new Headers(
+      this.expressionEngine.render(config.headers ?? {}, scope) as Record<string, string>
+    );
+    let body: string | undefined;
+    if (config.body !== undefined && method !== 'GET' && method !== 'HEAD') {
+      const rendered = this.expressionEngine.render(config.body, scope);
+      if (typeof rendered === 'string') {
+        body = rendered;
+      } else {
+        body = JSON.stringify(rendered);
+        if (!headers.has('content-type')) {
+          headers.set('content-type', 'application/json');
+        }
+      }
+    }
+
+    const timeout =
+      config.timeout ?? Number(this.configService.get('HTTP_ACTION_TIMEOUT_MS', 30000));
+
+    this.logger.debug(`Step ${context.stepId} sending ${method} ${url.origin}${url.pathname}`);
+
+    // The timeout covers reading the response body too
+    const { response, responseBody } = await withTimeout(
+      async signal => {
+        try {
+          const response = await fetch(url, { method, headers, body, signal });
+          return { response, responseBody: await this.readBody(response) };
+        } catch (error) {
+          if (signal?.aborted) {
+            throw signal.reason ?? error;
+          }
+          // fetch reports network failures as a TypeError whose cause has the
+          // details. It may come from another realm, so don't rely on instanceof.
+          const failure = error as {
+            message?: string;
+            cause?: { message?: string; code?: string };
+          } | null;
+          const message = failure?.cause?.message ?? failure?.message ?? String(error);
+          throw new HttpRequestError(
+            `HTTP request to ${url.origin} failed: ${message}`,
+            failure?.cause?.code ?? 'HTTP_NETWORK_ERROR'
+          );
+        }
+      },
+      timeout,
+      context.signal,
+      () => new HttpRequestError(`HTTP request timed out after ${timeout}ms`, 'HTTP_TIMEOUT')
+    );
+
+    const successStatus = config.successStatus ?? DEFAULT_SUCCESS_STATUS;
+    if (!successStatus.some(status => this.matchesStatus(status, response.status))) {
+      throw new HttpStatusError(response.status, responseBody);
+    }
+
+    const result = {
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: responseBody,
+    };
+    const output: Record<string, unknown> = { ...result };
+    for (const [key, expression] of Object.entries(config.output || {})) {
+      output[key] = this.expressionEngine.evaluate(expression, result);
+    }
+
+    return { success: true, data: { [context.stepId]: output } };
+  }
+
+  private async readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    if (response.headers.get('content-type')?.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+
+  private matchesStatus(expected: number | string, status: number): boolean {
+    const pattern = String(expected).toLowerCase();
+    return pattern.endsWith('xx') ? pattern[0] === String(status)[0] : Number(pattern) === status;
+  }
+}
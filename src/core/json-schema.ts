@@ -0,0 +1,87 @@
+import { JsonSchema } from '../types';
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(type: JsonSchema['type'], value: any): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Checks `value` against a JSON Schema subset (type, properties, required,
+ * additionalProperties, items, enum and numeric/string bounds). Returns one
+ * message per violation, each prefixed with the path of the offending value.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: any,
+  path: string = 'config'
+): string[] {
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [`${path} must be of type ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(
+      `${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
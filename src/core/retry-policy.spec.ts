@@ -0,0 +1,92 @@
+import { NonRetryableError, calculateRetryDelay, isRetryableError, sleep } from './retry-policy';
+import { RetryPolicy } from '../types';
+
+describe('retry policy', () => {
+  const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({
+    maxAttempts: 5,
+    backoff: 'fixed',
+    delay: 100,
+    ...overrides,
+  });
+
+  describe('calculateRetryDelay', () => {
+    it('grows the delay according to the backoff', () => {
+      expect([1, 2, 3].map(n => calculateRetryDelay(policy(), n))).toEqual([100, 100, 100]);
+      expect([1, 2, 3].map(n => calculateRetryDelay(policy({ backoff: 'linear' }), n))).toEqual([
+        100, 200, 300,
+      ]);
+      expect(
+        [1, 2, 3, 4].map(n => calculateRetryDelay(policy({ backoff: 'exponential' }), n))
+      ).toEqual([100, 200, 400, 800]);
+    });
+
+    it('caps the delay at maxDelay', () => {
+      expect(calculateRetryDelay(policy({ backoff: 'exponential', maxDelay: 250 }), 5)).toBe(250);
+    });
+
+    it('spreads the delay by the jitter ratio', () => {
+      const jittered = policy({ jitter: 0.5 });
+      expect(calculateRetryDelay(jittered, 1, () => 0)).toBe(50);
+      expect(calculateRetryDelay(jittered, 1, () => 0.5)).toBe(100);
+      expect(calculateRetryDelay(jittered, 1, () => 1)).toBe(150);
+    });
+
+    it('applies maxDelay after the jitter', () => {
+      expect(calculateRetryDelay(policy({ jitter: 1, maxDelay: 120 }), 1, () => 1)).toBe(120);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    const error = (name: string, code?: string) => Object.assign(new Error(name), { name, code });
+
+    it('retries any error by default', () => {
+      expect(isRetryableError(policy(), new Error('boom'))).toBe(true);
+    });
+
+    it('never retries errors flagged as non-retryable', () => {
+      expect(isRetryableError(policy(), new NonRetryableError('bad input'))).toBe(false);
+    });
+
+    it('matches retryOn and abortOn by name or code', () => {
+      const selective = policy({ retryOn: ['ECONNRESET', 'TimeoutError'], abortOn: ['AuthError'] });
+      expect(isRetryableError(selective, error('Error', 'ECONNRESET'))).toBe(true);
+      expect(isRetryableError(selective, error('TimeoutError'))).toBe(true);
+      expect(isRetryableError(selective, error('ValidationError'))).toBe(false);
+      expect(isRetryableError(policy({ abortOn: ['AuthError'] }), error('AuthError'))).toBe(false);
+    });
+
+    it('lets abortOn win over retryOn', () => {
+      const conflicting = policy({ retryOn: ['AuthError'], abortOn: ['AuthError'] });
+      expect(isRetryableError(conflicting, error('AuthError'))).toBe(false);
+    });
+  });
+
+  describe('sleep', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('resolves after the delay', async () => {
+      jest.useFakeTimers();
+      const resolved = jest.fn();
+      const pending = sleep(1000).then(resolved);
+
+      jest.advanceTimersByTime(999);
+      await Promise.resolve();
+      expect(resolved).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      await pending;
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    it('rejects when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pending = sleep(60_000, controller.signal);
+      controller.abort();
+      await expect(pending).rejects.toThrow('Aborted');
+
+      await expect(sleep(10, controller.signal)).rejects.toThrow('Aborted');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { RetryPolicy } from '../types';
+
+/**
+ * Thrown by step handlers to signal a failure that must not be retried,
+ * regardless of the step's retry policy.
+ */
+export class NonRetryableError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableError';
+  }
+}
+
+/**
+ * Delay in milliseconds before the given retry attempt (1 = first retry).
+ * `jitter` is a ratio between 0 and 1 by which the computed delay may be
+ * randomly shortened or lengthened, to keep retries from synchronising.
+ */
+export function calculateRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  let delay: number;
+
+  switch (policy.backoff) {
+    case 'exponential':
+      delay = policy.delay * Math.pow(2, attempt - 1);
+      break;
+    case 'linear':
+      delay = policy.delay * attempt;
+      break;
+    case 'fixed':
+    default:
+      delay = policy.delay;
+      break;
+  }
+
+  if (policy.jitter && policy.jitter > 0) {
+    const ratio = Math.min(policy.jitter, 1);
+    delay = delay * (1 - ratio + random() * ratio * 2);
+  }
+
+  if (policy.maxDelay !== undefined) {
+    delay = Math.min(delay, policy.maxDelay);
+  }
+
+  return Math.max(0, Math.round(delay));
+}
+
+/**
+ * Decides whether an error is worth retrying. Errors flagged with
+ * `retryable: false` and errors listed in `abortOn` never are; when `retryOn`
+ * is set only the listed errors are. Errors are matched by `name` or `code`.
+ */
+export function isRetryableError(policy: RetryPolicy, error: any): boolean {
+  if (error?.retryable === false) {
+    return false;
+  }
+
+  const identifiers = [error?.name, error?.code].filter(Boolean).map(String);
+
+  if (policy.abortOn?.some(name => identifiers.includes(name))) {
+    return false;
+  }
+
+  if (policy.retryOn && policy.retryOn.length > 0) {
+    return policy.retryOn.some(name => identifiers.includes(name));
+  }
+
+  return true;
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects early if `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(handle);
+      reject(new Error('Aborted'));
+    };
+    const handle = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,188 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { ScheduleService } from './schedule-service';
+import { TriggerService } from './trigger-service';
+import { WorkflowEngine } from './workflow-engine';
+import { WorkflowScheduleEntity } from '../workflows/entities/workflow-schedule.entity';
+import { MisfirePolicy, WorkflowDefinition } from '../types';
+
+// Stand-ins for the injected classes, whose modules load the whole engine
+jest.mock('./trigger-service', () => ({ TriggerService: class {} }));
+jest.mock('./workflow-engine', () => ({ WorkflowEngine: class {} }));
+jest.mock('../workflows/entities/workflow-schedule.entity', () => ({
+  WorkflowScheduleEntity: class {},
+}));
+
+describe('ScheduleService', () => {
+  const now = new Date('2024-01-01T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+  let config: Record<string, unknown>;
+  let states: WorkflowScheduleEntity[];
+  let repository: {
+    find: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let insert: { values: jest.Mock };
+  let engine: { executeWorkflow: jest.Mock };
+  let workflow: WorkflowDefinition;
+  let service: ScheduleService;
+
+  const createWorkflow = (misfirePolicy?: MisfirePolicy): WorkflowDefinition => ({
+    id: 'wf-1',
+    name: 'reports',
+    version: '1.0.0',
+    triggers: [
+      { type: 'schedule', eventType: 'report.due', schedule: { interval: 60000, misfirePolicy } },
+    ],
+    steps: [],
+    metadata: {},
+  });
+
+  const createState = (nextFireAt: Date, spec = 'interval:60000'): WorkflowScheduleEntity =>
+    Object.assign(new WorkflowScheduleEntity(), {
+      id: 'state-1',
+      scheduleKey: 'reports:schedule:report.due',
+      workflowName: 'reports',
+      workflowId: 'wf-1',
+      spec,
+      nextFireAt,
+    });
+
+  const firedAt = () =>
+    engine.executeWorkflow.mock.calls.map(([, event]) => event.data.scheduledAt.toISOString());
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    config = {};
+    states = [];
+    insert = { values: jest.fn() };
+    insert.values.mockReturnValue({ orIgnore: () => ({ execute: jest.fn() }) });
+    repository = {
+      find: jest.fn(() => Promise.resolve(states)),
+      update: jest.fn(() => Promise.resolve({ affected: 1 })),
+      createQueryBuilder: jest.fn(() => ({ insert: () => insert })),
+    };
+    engine = { executeWorkflow: jest.fn(() => Promise.resolve({ id: 'exec-1' })) };
+    workflow = createWorkflow();
+
+    const triggerService = { getLiveWorkflows: () => [workflow] };
+    const configService = {
+      get: (key: string, defaultValue: unknown) => config[key] ?? defaultValue,
+    };
+    service = new ScheduleService(
+      repository as unknown as Repository<WorkflowScheduleEntity>,
+      triggerService as unknown as TriggerService,
+      engine as unknown as WorkflowEngine,
+      configService as unknown as ConfigService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('registers a new schedule from the current time without firing', async () => {
+    await service.pollSchedules();
+
+    expect(insert.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleKey: 'reports:schedule:report.due',
+        spec: 'interval:60000',
+        nextFireAt: new Date('2024-01-01T12:01:00Z'),
+      })
+    );
+    expect(engine.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('starts over when a new version changes the schedule', async () => {
+    states = [createState(minutesAgo(30), 'cron:0 9 * * *@UTC')];
+
+    await service.pollSchedules();
+
+    expect(repository.update).toHaveBeenCalledWith(
+      { id: 'state-1', spec: 'cron:0 9 * * *@UTC' },
+      { spec: 'interval:60000', nextFireAt: new Date('2024-01-01T12:01:00Z'), workflowId: 'wf-1' }
+    );
+    expect(engine.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('fires a due schedule once and moves it to the next time', async () => {
+    states = [createState(minutesAgo(0.5))];
+
+    await service.pollSchedules();
+
+    expect(repository.update).toHaveBeenCalledWith(
+      { id: 'state-1', nextFireAt: minutesAgo(0.5) },
+      expect.objectContaining({ nextFireAt: new Date('2024-01-01T12:00:30Z'), lastFiredAt: now })
+    );
+    expect(firedAt()).toEqual(['2024-01-01T11:59:30.000Z']);
+    expect(engine.executeWorkflow).toHaveBeenCalledWith(
+      'wf-1',
+      expect.objectContaining({ type: 'report.due', metadata: { source: 'scheduler' } })
+    );
+  });
+
+  it('does not fire when another instance claimed the tick', async () => {
+    states = [createState(minutesAgo(0.5))];
+    repository.update.mockResolvedValue({ affected: 0 });
+
+    await service.pollSchedules();
+
+    expect(engine.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  describe('misfire policies', () => {
+    beforeEach(() => {
+      states = [createState(minutesAgo(5))];
+    });
+
+    it('fires the latest missed time once by default', async () => {
+      await service.pollSchedules();
+
+      expect(firedAt()).toEqual(['2024-01-01T12:00:00.000Z']);
+    });
+
+    it('fires every missed time with catch_up', async () => {
+      workflow = createWorkflow('catch_up');
+
+      await service.pollSchedules();
+
+      expect(firedAt()).toEqual([
+        '2024-01-01T11:55:00.000Z',
+        '2024-01-01T11:56:00.000Z',
+        '2024-01-01T11:57:00.000Z',
+        '2024-01-01T11:58:00.000Z',
+        '2024-01-01T11:59:00.000Z',
+        '2024-01-01T12:00:00.000Z',
+      ]);
+    });
+
+    it('only fires times within the misfire threshold with skip', async () => {
+      workflow = createWorkflow('skip');
+
+      await service.pollSchedules();
+
+      expect(firedAt()).toEqual(['2024-01-01T11:59:00.000Z', '2024-01-01T12:00:00.000Z']);
+    });
+
+    it('still moves the schedule on when skip drops every missed time', async () => {
+      workflow = createWorkflow('skip');
+      config.SCHEDULE_MISFIRE_THRESHOLD_MS = 10000;
+      jest.setSystemTime(new Date('2024-01-01T12:00:30Z'));
+
+      await service.pollSchedules();
+
+      expect(engine.executeWorkflow).not.toHaveBeenCalled();
+      expect(repository.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          nextFireAt: new Date('2024-01-01T12:01:00Z'),
+          lastFiredAt: undefined,
+        })
+      );
+    });
+  });
+});
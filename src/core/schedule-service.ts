@@ -0,0 +1,274 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import {
+  Event,
+  ScheduleTriggerConfig,
+  WorkflowDefinition,
+  WorkflowSchedule,
+  WorkflowTrigger,
+} from '../types';
+import { WorkflowScheduleEntity } from '../workflows/entities/workflow-schedule.entity';
+import { TriggerService } from './trigger-service';
+import { WorkflowEngine } from './workflow-engine';
+import {
+  DEFAULT_MISFIRE_POLICY,
+  DEFAULT_TIMEZONE,
+  describeSchedule,
+  getFireTimes,
+  getNextFireTime,
+  getScheduleKey,
+} from './schedule';
+
+interface ScheduledTrigger {
+  key: string;
+  workflow: WorkflowDefinition;
+  trigger: WorkflowTrigger;
+  schedule: ScheduleTriggerConfig;
+}
+
+function hasSchedule(
+  trigger: WorkflowTrigger
+): trigger is WorkflowTrigger & { schedule: ScheduleTriggerConfig } {
+  return Boolean(trigger.schedule);
+}
+
+/**
+ * Fires schedule triggers of the workflow versions that `TriggerService`
+ * keeps live. Each schedule has a row holding its next fire time; a poller
+ * fires the due ones and moves the row on with a conditional update, so when
+ * several replicas poll only the one whose update wins fires the tick.
+ *
+ * A schedule whose due time is more than `SCHEDULE_MISFIRE_THRESHOLD_MS` old
+ * has misfired, usually because no instance was running. Its misfire policy
+ * then decides what runs: `skip` drops the missed times, `fire_once` fires
+ * the latest of them once, and `catch_up` fires each of them, up to
+ * `SCHEDULE_MAX_CATCH_UP`.
+ *
+ * Each fire starts an execution with an event of the trigger's `eventType`
+ * whose data holds `scheduledAt` and `firedAt`.
+ */
+@Injectable()
+export class ScheduleService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduleService.name);
+  private pollHandle?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectRepository(WorkflowScheduleEntity)
+    private readonly scheduleRepository: Repository<WorkflowScheduleEntity>,
+    private readonly triggerService: TriggerService,
+    private readonly workflowEngine: WorkflowEngine,
+    private readonly configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap() {
+    const interval = Number(this.configService.get('SCHEDULE_POLL_INTERVAL_MS', 1000));
+    this.pollHandle = setInterval(() => void this.pollSchedules(), interval);
+    this.logger.log(`Schedule service polling every ${interval}ms`);
+  }
+
+  onModuleDestroy() {
+    if (this.pollHandle) {
+      clearInterval(this.pollHandle);
+      this.pollHandle = undefined;
+    }
+  }
+
+  async pollSchedules(): Promise<void> {
+    // Skip this tick if the previous poll is still firing schedules
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const scheduled = this.getScheduledTriggers();
+      if (scheduled.length === 0) {
+        return;
+      }
+
+      const states = await this.loadStates(scheduled);
+      const now = new Date();
+      for (const item of scheduled) {
+        await this.processSchedule(item, states.get(item.key), now);
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll schedules:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * The schedules of live workflow versions with their next `count` fire
+   * times, optionally for one workflow only.
+   */
+  async listSchedules(count = 5, workflowName?: string): Promise<WorkflowSchedule[]> {
+    const scheduled = this.getScheduledTriggers().filter(
+      ({ workflow }) => !workflowName || workflow.name === workflowName
+    );
+    const states = await this.loadStates(scheduled);
+    const now = new Date();
+
+    return scheduled.map(({ key, workflow, trigger, schedule }) => {
+      const state = states.get(key);
+      const current = state?.spec === describeSchedule(schedule);
+
+      const nextFireTimes: Date[] = [];
+      let next = current && state ? state.nextFireAt : getNextFireTime(schedule, now);
+      while (nextFireTimes.length < count) {
+        nextFireTimes.push(next);
+        next = getNextFireTime(schedule, next, nextFireTimes[0]);
+      }
+
+      return {
+        workflow: workflow.name,
+        workflowId: workflow.id,
+        version: workflow.version,
+        stepId: trigger.type,
+        eventType: trigger.eventType,
+        cron: schedule.cron,
+        interval: schedule.interval,
+        timezone: schedule.timezone ?? DEFAULT_TIMEZONE,
+        misfirePolicy: schedule.misfirePolicy ?? DEFAULT_MISFIRE_POLICY,
+        lastFiredAt: current && state ? state.lastFiredAt : undefined,
+        nextFireTimes,
+      };
+    });
+  }
+
+  private getScheduledTriggers(): ScheduledTrigger[] {
+    return this.triggerService.getLiveWorkflows().flatMap(workflow =>
+      workflow.triggers.filter(hasSchedule).map(trigger => ({
+        key: getScheduleKey(workflow.name, trigger),
+        workflow,
+        trigger,
+        schedule: trigger.schedule,
+      }))
+    );
+  }
+
+  private async loadStates(
+    scheduled: ScheduledTrigger[]
+  ): Promise<Map<string, WorkflowScheduleEntity>> {
+    if (scheduled.length === 0) {
+      return new Map();
+    }
+
+    const states = await this.scheduleRepository.find({
+      where: { scheduleKey: In(scheduled.map(({ key }) => key)) },
+    });
+    return new Map(states.map(state => [state.scheduleKey, state]));
+  }
+
+  private async processSchedule(
+    { key, workflow, trigger, schedule }: ScheduledTrigger,
+    state: WorkflowScheduleEntity | undefined,
+    now: Date
+  ): Promise<void> {
+    const spec = describeSchedule(schedule);
+
+    // A new schedule, or one a new version changed, counts from now
+    if (!state || state.spec !== spec) {
+      const nextFireAt = getNextFireTime(schedule, now);
+      if (!state) {
+        await this.scheduleRepository
+          .createQueryBuilder()
+          .insert()
+          .values({
+            scheduleKey: key,
+            workflowName: workflow.name,
+            workflowId: workflow.id,
+            spec,
+            nextFireAt,
+          })
+          .orIgnore()
+          .execute();
+      } else {
+        await this.scheduleRepository.update(
+          { id: state.id, spec: state.spec },
+          { spec, nextFireAt, workflowId: workflow.id }
+        );
+      }
+      this.logger.debug(`Schedule ${key} (${spec}) next fires at ${nextFireAt.toISOString()}`);
+      return;
+    }
+
+    if (state.nextFireAt > now) {
+      return;
+    }
+
+    const threshold = Number(this.configService.get('SCHEDULE_MISFIRE_THRESHOLD_MS', 60000));
+    const maxCatchUp = Math.max(1, Number(this.configService.get('SCHEDULE_MAX_CATCH_UP', 100)));
+    const due = getFireTimes(schedule, state.nextFireAt, now, maxCatchUp);
+    const misfired = now.getTime() - state.nextFireAt.getTime() > threshold;
+
+    let fires = due;
+    if (misfired) {
+      switch (schedule.misfirePolicy ?? DEFAULT_MISFIRE_POLICY) {
+        case 'skip':
+          fires = due.filter(time => now.getTime() - time.getTime() <= threshold);
+          break;
+        case 'fire_once':
+          fires = due.slice(-1);
+          break;
+        default:
+          fires = due;
+      }
+    }
+
+    const claim = await this.scheduleRepository.update(
+      { id: state.id, nextFireAt: state.nextFireAt },
+      {
+        nextFireAt: getNextFireTime(schedule, now, state.nextFireAt),
+        lastFiredAt: fires.length > 0 ? now : state.lastFiredAt,
+        workflowId: workflow.id,
+      }
+    );
+
+    // Another instance fired this tick
+    if (claim.affected !== 1) {
+      return;
+    }
+
+    if (misfired) {
+      this.logger.warn(
+        `Schedule ${key} misfired since ${state.nextFireAt.toISOString()}; firing ${fires.length} of ${due.length} missed times`
+      );
+    }
+
+    for (const scheduledAt of fires) {
+      await this.fire(workflow, trigger, scheduledAt, now);
+    }
+  }
+
+  private async fire(
+    workflow: WorkflowDefinition,
+    trigger: WorkflowTrigger,
+    scheduledAt: Date,
+    firedAt: Date
+  ): Promise<void> {
+    const event: Event = {
+      id: randomUUID(),
+      type: trigger.eventType,
+      data: { scheduledAt, firedAt, schedule: trigger.schedule },
+      metadata: { source: 'scheduler' },
+      timestamp: firedAt,
+    };
+
+    try {
+      const execution = await this.workflowEngine.executeWorkflow(workflow.id, event);
+      this.logger.log(
+        `Schedule of workflow ${workflow.name}@${workflow.version} started execution ${execution.id} for ${scheduledAt.toISOString()}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to start scheduled workflow ${workflow.name}@${workflow.version}:`,
+        error
+      );
+    }
+  }
+}
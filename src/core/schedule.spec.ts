@@ -0,0 +1,130 @@
+import {
+  describeSchedule,
+  getFireTimes,
+  getNextFireTime,
+  getScheduleKey,
+  validateSchedule,
+} from './schedule';
+import { MisfirePolicy, WorkflowTrigger } from '../types';
+
+describe('schedule', () => {
+  const at = (iso: string) => new Date(iso);
+
+  describe('validateSchedule', () => {
+    it('accepts a cron expression or an interval', () => {
+      expect(validateSchedule({ cron: '*/5 * * * *', timezone: 'Europe/Berlin' })).toEqual([]);
+      expect(validateSchedule({ interval: 60000, misfirePolicy: 'catch_up' })).toEqual([]);
+    });
+
+    it('needs exactly one of cron and interval', () => {
+      expect(validateSchedule({})).toEqual([
+        'schedule needs either a cron expression or an interval',
+      ]);
+      expect(validateSchedule({ cron: '* * * * *', interval: 1000 })).toEqual([
+        'schedule needs either a cron expression or an interval',
+      ]);
+    });
+
+    it('reports invalid fields', () => {
+      expect(validateSchedule({ cron: 'every day' })).toEqual([
+        expect.stringMatching(/^schedule cron expression "every day" is invalid/),
+      ]);
+      expect(validateSchedule({ interval: 500 })).toEqual([
+        'schedule interval must be a whole number of at least 1000ms',
+      ]);
+      expect(validateSchedule({ interval: 1000, timezone: 'Mars/Olympus' })).toEqual([
+        'schedule timezone Mars/Olympus is not a known IANA timezone',
+      ]);
+      expect(validateSchedule({ interval: 1000, misfirePolicy: 'retry' as MisfirePolicy })).toEqual(
+        ['schedule misfirePolicy must be one of skip, fire_once, catch_up']
+      );
+    });
+  });
+
+  describe('getNextFireTime', () => {
+    it('counts intervals from the anchor so late ticks do not drift', () => {
+      const schedule = { interval: 60000 };
+      const anchor = at('2024-01-01T00:00:00Z');
+      expect(getNextFireTime(schedule, anchor)).toEqual(at('2024-01-01T00:01:00Z'));
+      expect(getNextFireTime(schedule, at('2024-01-01T00:02:30Z'), anchor)).toEqual(
+        at('2024-01-01T00:03:00Z')
+      );
+      expect(getNextFireTime(schedule, at('2024-01-01T00:03:00Z'), anchor)).toEqual(
+        at('2024-01-01T00:04:00Z')
+      );
+    });
+
+    it('returns the next cron time strictly after the given time', () => {
+      const schedule = { cron: '0 9 * * *' };
+      expect(getNextFireTime(schedule, at('2024-01-01T08:59:59Z'))).toEqual(
+        at('2024-01-01T09:00:00Z')
+      );
+      expect(getNextFireTime(schedule, at('2024-01-01T09:00:00Z'))).toEqual(
+        at('2024-01-02T09:00:00Z')
+      );
+    });
+
+    it('evaluates cron expressions in the schedule timezone', () => {
+      const schedule = { cron: '0 9 * * *', timezone: 'America/New_York' };
+      expect(getNextFireTime(schedule, at('2024-01-01T00:00:00Z'))).toEqual(
+        at('2024-01-01T14:00:00Z')
+      );
+      // Daylight saving time has started by then
+      expect(getNextFireTime(schedule, at('2024-07-01T00:00:00Z'))).toEqual(
+        at('2024-07-01T13:00:00Z')
+      );
+    });
+  });
+
+  describe('getFireTimes', () => {
+    it('lists fire times up to and including the end', () => {
+      expect(
+        getFireTimes(
+          { interval: 60000 },
+          at('2024-01-01T00:00:00Z'),
+          at('2024-01-01T00:03:00Z'),
+          10
+        )
+      ).toEqual([
+        at('2024-01-01T00:00:00Z'),
+        at('2024-01-01T00:01:00Z'),
+        at('2024-01-01T00:02:00Z'),
+        at('2024-01-01T00:03:00Z'),
+      ]);
+    });
+
+    it('stops at the limit', () => {
+      expect(
+        getFireTimes(
+          { cron: '0 * * * *' },
+          at('2024-01-01T00:00:00Z'),
+          at('2024-01-02T00:00:00Z'),
+          3
+        )
+      ).toEqual([
+        at('2024-01-01T00:00:00Z'),
+        at('2024-01-01T01:00:00Z'),
+        at('2024-01-01T02:00:00Z'),
+      ]);
+    });
+  });
+
+  describe('schedule identity', () => {
+    const trigger: WorkflowTrigger = {
+      type: 'schedule',
+      eventType: 'report.due',
+      schedule: { cron: '0 9 * * *' },
+    };
+
+    it('keys schedules by workflow name and trigger', () => {
+      expect(getScheduleKey('reports', trigger)).toBe('reports:schedule:report.due');
+    });
+
+    it('describes the parts that decide fire times', () => {
+      expect(describeSchedule({ cron: '0 9 * * *', misfirePolicy: 'skip' })).toBe(
+        'cron:0 9 * * *@UTC'
+      );
+      expect(describeSchedule({ interval: 5000, timezone: 'Europe/Paris' })).toBe('interval:5000');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { parseExpression } from 'cron-parser';
+import { MisfirePolicy, ScheduleTriggerConfig, WorkflowTrigger } from '../types';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_MISFIRE_POLICY: MisfirePolicy = 'fire_once';
+export const MIN_SCHEDULE_INTERVAL_MS = 1000;
+
+const MISFIRE_POLICIES: MisfirePolicy[] = ['skip', 'fire_once', 'catch_up'];
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Problems with a trigger's schedule: it needs exactly one of a valid cron
+ * expression or an interval of at least a second.
+ */
+export function validateSchedule(schedule: ScheduleTriggerConfig): string[] {
+  const errors: string[] = [];
+
+  if ((schedule.cron === undefined) === (schedule.interval === undefined)) {
+    errors.push('schedule needs either a cron expression or an interval');
+  }
+  if (schedule.cron !== undefined) {
+    try {
+      parseExpression(schedule.cron, { tz: schedule.timezone ?? DEFAULT_TIMEZONE });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`schedule cron expression "${schedule.cron}" is invalid: ${message}`);
+    }
+  }
+  if (
+    schedule.interval !== undefined &&
+    (!Number.isInteger(schedule.interval) || schedule.interval < MIN_SCHEDULE_INTERVAL_MS)
+  ) {
+    errors.push(
+      `schedule interval must be a whole number of at least ${MIN_SCHEDULE_INTERVAL_MS}ms`
+    );
+  }
+  if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+    errors.push(`schedule timezone ${schedule.timezone} is not a known IANA timezone`);
+  }
+  if (schedule.misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(schedule.misfirePolicy)) {
+    errors.push(`schedule misfirePolicy must be one of ${MISFIRE_POLICIES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Identifies a schedule across versions of its workflow, so a new version
+ * with the same trigger carries on where the previous one left off.
+ */
+export function getScheduleKey(workflowName: string, trigger: WorkflowTrigger): string {
+  return `${workflowName}:${trigger.type}:${trigger.eventType}`;
+}
+
+/**
+ * The parts of a schedule that decide its fire times. When they change, the
+ * schedule starts over from the current time.
+ */
+export function describeSchedule(schedule: ScheduleTriggerConfig): string {
+  return schedule.cron !== undefined
+    ? `cron:${schedule.cron}@${schedule.timezone ?? DEFAULT_TIMEZONE}`
+    : `interval:${schedule.interval}`;
+}
+
+/**
+ * The first fire time after `after`. Intervals count from `anchor`, a
+ * previous fire time, so they don't drift when a tick is handled late.
+ */
+export function getNextFireTime(
+  schedule: ScheduleTriggerConfig,
+  after: Date,
+  anchor: Date = after
+): Date {
+  if (schedule.cron === undefined) {
+    const interval = schedule.interval!;
+    const steps = Math.max(0, Math.floor((after.getTime() - anchor.getTime()) / interval)) + 1;
+    return new Date(anchor.getTime() + steps * interval);
+  }
+
+  const expression = parseExpression(schedule.cron, {
+    currentDate: after,
+    tz: schedule.timezone ?? DEFAULT_TIMEZONE,
+  });
+  let next = expression.next().toDate();
+  while (next.getTime() <= after.getTime()) {
+    next = expression.next().toDate();
+  }
+  return next;
+}
+
+/**
+ * Fire times from `first`, itself a fire time, up to and including `until`,
+ * at most `limit` of them.
+ */
+export function getFireTimes(
+  schedule: ScheduleTriggerConfig,
+  first: Date,
+  until: Date,
+  limit: number
+): Date[] {
+  const times: Date[] = [];
+  for (let time = first; time <= until && times.length < limit;) {
+    times.push(time);
+    time = getNextFireTime(schedule, time, first);
+  }
+  return times;
+}
@@ -0,0 +1,131 @@
+import {
+  compareVersions,
+  formatVersion,
+  incrementVersion,
+  isValidRange,
+  maxSatisfying,
+  parseVersion,
+  satisfies,
+} from './semver';
+
+describe('semver', () => {
+  const v = (version: string) => {
+    const parsed = parseVersion(version);
+    if (!parsed) {
+      throw new Error(`Invalid version in test: ${version}`);
+    }
+    return parsed;
+  };
+
+  describe('parseVersion', () => {
+    it('fills in missing parts and accepts a leading v', () => {
+      expect(parseVersion('v1.2')).toEqual({ major: 1, minor: 2, patch: 0, prerelease: [] });
+      expect(parseVersion('3')).toEqual({ major: 3, minor: 0, patch: 0, prerelease: [] });
+    });
+
+    it('splits prerelease identifiers and ignores build metadata', () => {
+      expect(parseVersion('1.0.0-beta.2+build.7')).toEqual({
+        major: 1,
+        minor: 0,
+        patch: 0,
+        prerelease: ['beta', '2'],
+      });
+    });
+
+    it('rejects malformed versions', () => {
+      expect(parseVersion('1.0.0.0')).toBeNull();
+      expect(parseVersion('latest')).toBeNull();
+      expect(parseVersion('')).toBeNull();
+    });
+
+    it('round-trips through formatVersion', () => {
+      expect(formatVersion(v('v2.1'))).toBe('2.1.0');
+      expect(formatVersion(v('1.0.0-rc.1'))).toBe('1.0.0-rc.1');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('orders versions by precedence', () => {
+      const ordered = [
+        '1.0.0-alpha',
+        '1.0.0-alpha.1',
+        '1.0.0-alpha.beta',
+        '1.0.0-beta',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+        '1.0.1',
+        '1.1.0',
+        '2.0.0',
+      ];
+      const shuffled = [...ordered].reverse();
+      expect(shuffled.sort((a, b) => compareVersions(v(a), v(b)))).toEqual(ordered);
+    });
+
+    it('treats equal versions as equal', () => {
+      expect(compareVersions(v('1.2.3'), v('v1.2.3'))).toBe(0);
+    });
+  });
+
+  describe('incrementVersion', () => {
+    it('resets lower parts', () => {
+      expect(formatVersion(incrementVersion(v('1.2.3'), 'major'))).toBe('2.0.0');
+      expect(formatVersion(incrementVersion(v('1.2.3'), 'minor'))).toBe('1.3.0');
+      expect(formatVersion(incrementVersion(v('1.2.3'), 'patch'))).toBe('1.2.4');
+    });
+
+    it('releases a prerelease on a patch increment', () => {
+      expect(formatVersion(incrementVersion(v('1.2.3-rc.1'), 'patch'))).toBe('1.2.3');
+    });
+  });
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.4.2', '^1.2.0', true],
+      ['2.0.0', '^1.2.0', false],
+      ['0.2.5', '^0.2.1', true],
+      ['0.3.0', '^0.2.1', false],
+      ['0.0.4', '^0.0.3', false],
+      ['1.4.9', '~1.4', true],
+      ['1.5.0', '~1.4', false],
+      ['1.9.9', '1.x', true],
+      ['2.0.0', '1.x', false],
+      ['1.3.0', '>=1.0.0 <2.0.0', true],
+      ['2.0.0', '>=1.0.0 <2.0.0', false],
+      ['1.2.9', '<=1.2', true],
+      ['1.3.0', '<=1.2', false],
+      ['1.3.0', '>1.2', true],
+      ['1.2.9', '>1.2', false],
+      ['2.5.0', '^1.0.0 || ^2.0.0', true],
+      ['3.0.0', '^1.0.0 || ^2.0.0', false],
+      ['1.2.3', '1.2.3', true],
+      ['1.2.4', '1.2.3', false],
+      ['7.0.0', '*', true],
+    ])('%s in %s is %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('only matches prereleases named by the range', () => {
+      expect(satisfies('1.2.3-beta.2', '^1.2.3-beta.1')).toBe(true);
+      expect(satisfies('1.3.0-beta.1', '^1.2.3-beta.1')).toBe(false);
+      expect(satisfies('1.3.0-beta.1', '^1.0.0')).toBe(false);
+    });
+
+    it('is false for malformed versions and ranges', () => {
+      expect(satisfies('latest', '^1.0.0')).toBe(false);
+      expect(satisfies('1.0.0', '^one')).toBe(false);
+      expect(isValidRange('^one')).toBe(false);
+      expect(isValidRange('>= 1.0.0 < 2')).toBe(true);
+    });
+  });
+
+  describe('maxSatisfying', () => {
+    it('picks the highest matching version and skips invalid ones', () => {
+      const versions = ['1.0.0', '1.4.0', 'draft', '1.10.0', '2.0.0', '1.11.0-rc.1'];
+      expect(maxSatisfying(versions, '^1.0.0')).toBe('1.10.0');
+      expect(maxSatisfying(versions, '~1.4')).toBe('1.4.0');
+      expect(maxSatisfying(versions, '^3.0.0')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * A parsed semantic version. Missing minor and patch parts parse as 0, and a
+ * leading `v` is allowed, so `v1.2` reads as 1.2.0.
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_PATTERN =
+  /^(\^|~|>=|<=|>|<|=)?\s*v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?(?:-([0-9A-Za-z.-]+))?$/;
+
+type Comparator = { operator: '>=' | '<=' | '>' | '<' | '='; version: SemVer };
+
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(String(version).trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+export function formatVersion(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * Orders versions by precedence; a prerelease sorts before its release.
+ * Returns a negative number, zero or a positive number.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+
+    const numeric = /^\d+$/.test(left) && /^\d+$/.test(right);
+    if (numeric) {
+      return Number(left) - Number(right);
+    }
+    // Numeric identifiers sort before alphanumeric ones
+    if (/^\d+$/.test(left) !== /^\d+$/.test(right)) {
+      return /^\d+$/.test(left) ? -1 : 1;
+    }
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * The next version after `version` with the given part incremented.
+ */
+export function incrementVersion(version: SemVer, part: 'major' | 'minor' | 'patch'): SemVer {
+  switch (part) {
+    case 'major':
+      return { major: version.major + 1, minor: 0, patch: 0, prerelease: [] };
+    case 'minor':
+      return { major: version.major, minor: version.minor + 1, patch: 0, prerelease: [] };
+    default:
+      return {
+        major: version.major,
+        minor: version.minor,
+        // A prerelease is followed by its own release
+        patch: version.prerelease.length > 0 ? version.patch : version.patch + 1,
+        prerelease: [],
+      };
+  }
+}
+
+/**
+ * Parses a range such as `^1.2.0`, `~1.4`, `1.x`, `>=1.0.0 <2.0.0` or
+ * `^1.0.0 || ^2.0.0` into alternative sets of comparators. Returns null when
+ * the range is malformed.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const comparators: Comparator[] = [];
+    const parts = alternative
+      .trim()
+      .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/);
+
+    for (const part of parts.filter(Boolean)) {
+      const parsed = parseComparator(part);
+      if (!parsed) {
+        return null;
+      }
+      comparators.push(...parsed);
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+function parseComparator(comparator: string): Comparator[] | null {
+  const match = COMPARATOR_PATTERN.exec(comparator);
+  if (!match) {
+    return null;
+  }
+
+  const operator = match[1] ?? '';
+  const isWildcard = (part?: string) => part === undefined || /^[*xX]$/.test(part);
+  const [major, minor, patch] = [match[2], match[3], match[4]];
+  const prerelease = match[5] ? match[5].split('.') : [];
+  const version = (m: number, n: number, p: number, pre: string[] = []): SemVer => ({
+    major: m,
+    minor: n,
+    patch: p,
+    prerelease: pre,
+  });
+
+  // Any version
+  if (isWildcard(major)) {
+    return [];
+  }
+
+  const M = Number(major);
+  const m = isWildcard(minor) ? undefined : Number(minor);
+  const p = isWildcard(patch) ? undefined : Number(patch);
+  const base = version(M, m ?? 0, p ?? 0, prerelease);
+
+  switch (operator) {
+    case '^': {
+      const upper =
+        M > 0 || m === undefined
+          ? version(M + 1, 0, 0)
+          : m > 0 || p === undefined
+            ? version(0, m + 1, 0)
+            : version(0, 0, p + 1);
+      return [
+        { operator: '>=', version: base },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~':
+      return [
+        { operator: '>=', version: base },
+        { operator: '<', version: m === undefined ? version(M + 1, 0, 0) : version(M, m + 1, 0) },
+      ];
+    case '>':
+    case '<=':
+      // Partial versions cover every version they match, e.g. <=1.2 means <1.3.0
+      if (m === undefined || p === undefined) {
+        const next = m === undefined ? version(M + 1, 0, 0) : version(M, m + 1, 0);
+        return [{ operator: operator === '>' ? '>=' : '<', version: next }];
+      }
+      return [{ operator, version: base }];
+    case '>=':
+    case '<':
+      return [{ operator, version: base }];
+    default:
+      if (m === undefined || p === undefined) {
+        return [
+          { operator: '>=', version: base },
+          { operator: '<', version: m === undefined ? version(M + 1, 0, 0) : version(M, m + 1, 0) },
+        ];
+      }
+      return [{ operator: '=', version: base }];
+  }
+}
+
+function testComparator(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const order = compareVersions(version, bound);
+  switch (operator) {
+    case '>=':
+      return order >= 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '<':
+      return order < 0;
+    default:
+      return order === 0;
+  }
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Whether a version is in a range. As with npm, a prerelease only matches a
+ * range that names a prerelease of the same major.minor.patch.
+ */
+export function satisfies(version: string | SemVer, range: string): boolean {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  const sets = parseRange(range);
+  if (!parsed || !sets) {
+    return false;
+  }
+
+  return sets.some(comparators => {
+    if (!comparators.every(comparator => testComparator(parsed, comparator))) {
+      return false;
+    }
+    if (parsed.prerelease.length === 0) {
+      return true;
+    }
+    return comparators.some(
+      ({ version: bound }) =>
+        bound.prerelease.length > 0 &&
+        bound.major === parsed.major &&
+        bound.minor === parsed.minor &&
+        bound.patch === parsed.patch
+    );
+  });
+}
+
+/**
+ * The highest of `versions` in `range`, or null if none is. Versions that
+ * aren't semantic versions are ignored.
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  let best: { version: string; parsed: SemVer } | null = null;
+
+  for (const version of versions) {
+    const parsed = parseVersion(version);
+    if (parsed && satisfies(parsed, range) && (!best || compareVersions(parsed, best.parsed) > 0)) {
+      best = { version, parsed };
+    }
+  }
+
+  return best?.version ?? null;
+}
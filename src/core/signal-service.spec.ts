@@ -0,0 +1,41 @@
+import { Repository } from 'typeorm';
+import { SignalService } from './signal-service';
+import { WorkflowSignalWaitEntity } from '../workflows/entities/workflow-signal-wait.entity';
+
+jest.mock('../workflows/entities/workflow-signal-wait.entity', () => ({
+  WorkflowSignalWaitEntity: class {},
+}));
+
+describe('SignalService', () => {
+  let repository: { find: jest.Mock; update: jest.Mock };
+  let service: SignalService;
+
+  beforeEach(() => {
+    repository = {
+      find: jest.fn(() => Promise.resolve([])),
+      update: jest.fn(() => Promise.resolve({ affected: 1 })),
+    };
+    service = new SignalService(repository as unknown as Repository<WorkflowSignalWaitEntity>);
+  });
+
+  it('only matches published signals to pending waits with the same correlation key', async () => {
+    await service.findPending('payment.received', 'order-42');
+
+    expect(repository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { signal: 'payment.received', status: 'pending', correlationKey: 'order-42' },
+      })
+    );
+  });
+
+  it('resolves a wait once', async () => {
+    repository.update.mockResolvedValueOnce({ affected: 1 }).mockResolvedValueOnce({ affected: 0 });
+
+    expect(await service.resolve('wait-1', 'received', { amount: 99 })).toBe(true);
+    expect(await service.resolve('wait-1', 'timed_out')).toBe(false);
+    expect(repository.update).toHaveBeenCalledWith(
+      { id: 'wait-1', status: 'pending' },
+      expect.objectContaining({ status: 'received', payload: { amount: 99 } })
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { SignalWait } from '../types';
+import { WorkflowSignalWaitEntity } from '../workflows/entities/workflow-signal-wait.entity';
+
+/**
+ * Durable record of executions suspended on a wait step. A wait is resolved
+ * once, either by a matching signal or by its timeout, through a conditional
+ * update from `pending`; resuming the execution is claimed separately so it
+ * happens exactly once even when the signal arrives while the execution is
+ * still suspending.
+ */
+@Injectable()
+export class SignalService {
+  private readonly logger = new Logger(SignalService.name);
+
+  constructor(
+    @InjectRepository(WorkflowSignalWaitEntity)
+    private readonly waitRepository: Repository<WorkflowSignalWaitEntity>
+  ) {}
+
+  async register(wait: Omit<SignalWait, 'id' | 'status'>): Promise<SignalWait> {
+    const entity = this.waitRepository.create({ ...wait, status: 'pending' });
+    const saved = await this.waitRepository.save(entity);
+
+    this.logger.debug(
+      `Execution ${wait.executionId} waiting for signal ${wait.signal} at step ${wait.stepId}`
+    );
+    return this.toWait(saved);
+  }
+
+  async getWait(waitId: string): Promise<SignalWait | null> {
+    const entity = await this.waitRepository.findOne({ where: { id: waitId } });
+    return entity ? this.toWait(entity) : null;
+  }
+
+  /**
+   * Pending waits for a signal that carry the given correlation key. Waits
+   * without a key never match here; only a signal sent to their execution
+   * (`findPendingForExecution`) resolves them.
+   */
+  async findPending(signal: string, correlationKey: string): Promise<SignalWait[]> {
+    const entities = await this.waitRepository.find({
+      where: { signal, status: 'pending', correlationKey },
+      order: { createdAt: 'ASC' },
+    });
+    return entities.map(entity => this.toWait(entity));
+  }
+
+  async findPendingForExecution(executionId: string, signal: string): Promise<SignalWait[]> {
+    const entities = await this.waitRepository.find({
+      where: { executionId, signal, status: 'pending' },
+    });
+    return entities.map(entity => this.toWait(entity));
+  }
+
+  /**
+   * Resolved waits of an execution that nobody has resumed it from yet.
+   */
+  async findUnresumed(executionId: string): Promise<SignalWait[]> {
+    const entities = await this.waitRepository.find({
+      where: { executionId, status: In(['received', 'timed_out']), resumedAt: IsNull() },
+    });
+    return entities.map(entity => this.toWait(entity));
+  }
+
+  /**
+   * Resolves a pending wait. Returns false if it was already resolved.
+   */
+  async resolve(
+    waitId: string,
+    status: 'received' | 'timed_out',
+    payload?: Record<string, any>
+  ): Promise<boolean> {
+    const result = await this.waitRepository.update(
+      { id: waitId, status: 'pending' },
+      { status, payload, resolvedAt: new Date() }
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Claims the right to resume the execution from a resolved wait.
+   */
+  async claimResumption(waitId: string): Promise<boolean> {
+    const result = await this.waitRepository.update(
+      { id: waitId, status: In(['received', 'timed_out']), resumedAt: IsNull() },
+      { resumedAt: new Date() }
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Withdraws a wait nobody has resumed from yet, whether or not it was resolved.
+   */
+  async cancel(waitId: string): Promise<boolean> {
+    const result = await this.waitRepository.update(
+      { id: waitId, resumedAt: IsNull() },
+      { status: 'cancelled', resolvedAt: new Date() }
+    );
+    return result.affected === 1;
+  }
+
+  async cancelForExecution(executionId: string): Promise<number> {
+    const result = await this.waitRepository.update(
+      { executionId, status: 'pending' },
+      { status: 'cancelled', resolvedAt: new Date() }
+    );
+    return result.affected ?? 0;
+  }
+
+  private toWait(entity: WorkflowSignalWaitEntity): SignalWait {
+    return {
+      id: entity.id,
+      executionId: entity.executionId,
+      workflowId: entity.workflowId,
+      stepId: entity.stepId,
+      signal: entity.signal,
+      correlationKey: entity.correlationKey,
+      status: entity.status,
+      payload: entity.payload,
+      expiresAt: entity.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Repository } from 'typeorm';
+import { StateManager } from './state-manager';
+import { WorkflowExecutionEntity } from '../workflows/entities/workflow-execution.entity';
+
+jest.mock('../workflows/entities/workflow-execution.entity', () => ({
+  WorkflowExecutionEntity: class {},
+}));
+
+describe('StateManager', () => {
+  const staleBefore = new Date('2024-01-01T12:00:00Z');
+  const heartbeatAt = new Date('2024-01-01T11:00:00Z');
+
+  let repository: { find: jest.Mock; update: jest.Mock };
+  let stateManager: StateManager;
+
+  beforeEach(() => {
+    repository = {
+      find: jest.fn(() => Promise.resolve([])),
+      update: jest.fn(() => Promise.resolve({ affected: 1 })),
+    };
+    stateManager = new StateManager(repository as unknown as Repository<WorkflowExecutionEntity>);
+  });
+
+  it('claims stale executions on their old heartbeat, so only one instance wins each', async () => {
+    repository.find.mockResolvedValueOnce([
+      { id: 'exec-1', status: 'running', heartbeatAt, ownerId: 'dead' },
+      { id: 'exec-2', status: 'pending', heartbeatAt, ownerId: 'dead' },
+    ]);
+    repository.update.mockResolvedValueOnce({ affected: 0 });
+
+    const claimed = await stateManager.claimStaleExecutions(staleBefore);
+
+    expect(claimed.map(execution => execution.id)).toEqual(['exec-2']);
+    expect(repository.update).toHaveBeenCalledWith(
+      { id: 'exec-1', status: 'running', heartbeatAt },
+      { ownerId: stateManager.instanceId, heartbeatAt: expect.any(Date) }
+    );
+  });
+
+  it('leaves orphaned queued executions alone while their job is still queued', async () => {
+    repository.find.mockResolvedValueOnce([
+      { id: 'exec-1', status: 'queued', heartbeatAt },
+      { id: 'exec-2', status: 'queued', heartbeatAt },
+    ]);
+
+    const claimed = await stateManager.claimOrphanedQueuedExecutions(staleBefore, executionId =>
+      Promise.resolve(executionId === 'exec-1')
+    );
+
+    expect(claimed.map(execution => execution.id)).toEqual(['exec-2']);
+    expect(repository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a queued execution only once', async () => {
+    const startedAt = new Date();
+    repository.update.mockResolvedValueOnce({ affected: 1 }).mockResolvedValueOnce({ affected: 0 });
+
+    expect(await stateManager.startQueuedExecution('exec-1', startedAt)).toBe(true);
+    expect(await stateManager.startQueuedExecution('exec-1', startedAt)).toBe(false);
+    expect(repository.update).toHaveBeenCalledWith(
+      { id: 'exec-1', status: 'queued' },
+      expect.objectContaining({ status: 'pending', startedAt, ownerId: stateManager.instanceId })
+    );
+  });
+
+  it('only refreshes the heartbeat of executions this instance owns', async () => {
+    await stateManager.heartbeat([]);
+    await stateManager.heartbeat(['exec-1']);
+
+    expect(repository.update).toHaveBeenCalledTimes(1);
+    expect(repository.update.mock.calls[0][0]).toMatchObject({
+      ownerId: stateManager.instanceId,
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { hostname } from 'os';
+import { CancellationRequest, WorkflowExecution } from '../types';
+import { WorkflowExecutionEntity } from '../workflows/entities/workflow-execution.entity';
+
+/**
+ * Persists workflow executions and their step progress. Every checkpoint also
+ * stamps the execution with this instance's id and a heartbeat, so executions
+ * whose owner has died can be told apart from ones another replica is still
+ * running and be claimed for recovery.
+ */
+@Injectable()
+export class StateManager {
+  private readonly logger = new Logger(StateManager.name);
+  readonly instanceId = `${hostname()}:${process.pid}:${Math.random().toString(36).substr(2, 6)}`;
+
+  constructor(
+    @InjectRepository(WorkflowExecutionEntity)
+    private readonly executionRepository: Repository<WorkflowExecutionEntity>
+  ) {}
+
+  async saveExecutionState(execution: WorkflowExecution): Promise<void> {
+    try {
+      await this.executionRepository.save(this.toEntity(execution));
+    } catch (error) {
+      this.logger.error(`Failed to save state of execution ${execution.id}:`, error);
+      throw error;
+    }
+  }
+
+  async loadExecutionState(executionId: string): Promise<WorkflowExecution | null> {
+    const entity = await this.executionRepository.findOne({ where: { id: executionId } });
+    return entity ? this.toExecution(entity) : null;
+  }
+
+  async findExecutions(
+    workflowId: string,
+    statuses?: WorkflowExecution['status'][]
+  ): Promise<WorkflowExecution[]> {
+    const entities = await this.executionRepository.find({
+      where: statuses ? { workflowId, status: In(statuses) } : { workflowId },
+      order: { startedAt: 'DESC' },
+    });
+    return entities.map(entity => this.toExecution(entity));
+  }
+
+  async findChildExecutions(
+    parentExecutionId: string,
+    statuses?: WorkflowExecution['status'][]
+  ): Promise<WorkflowExecution[]> {
+    const entities = await this.executionRepository.find({
+      where: statuses ? { parentExecutionId, status: In(statuses) } : { parentExecutionId },
+      order: { startedAt: 'ASC' },
+    });
+    return entities.map(entity => this.toExecution(entity));
+  }
+
+  /**
+   * Refreshes the heartbeat of executions this instance is running.
+   */
+  async heartbeat(executionIds: string[]): Promise<void> {
+    if (executionIds.length === 0) {
+      return;
+    }
+
+    await this.executionRepository.update(
+      { id: In(executionIds), ownerId: this.instanceId },
+      { heartbeatAt: new Date() }
+    );
+  }
+
+  /**
+   * Takes over `pending` and `running` executions whose owner stopped sending heartbeats
+   * before `staleBefore`. Each claim is a conditional update on the old
+   * heartbeat, so only one instance wins a given execution.
+   */
+  async claimStaleExecutions(staleBefore: Date, limit: number = 50): Promise<WorkflowExecution[]> {
+    const candidates = await this.executionRepository.find({
+      where: { status: In(['pending', 'running']), heartbeatAt: LessThan(staleBefore) },
+      order: { heartbeatAt: 'ASC' },
+      take: limit,
+    });
+
+    const claimed: WorkflowExecution[] = [];
+    for (const candidate of candidates) {
+      const result = await this.executionRepository.update(
+        { id: candidate.id, status: candidate.status, heartbeatAt: candidate.heartbeatAt },
+        { ownerId: this.instanceId, heartbeatAt: new Date() }
+      );
+
+      if (result.affected === 1) {
+        this.logger.log(
+          `Claimed execution ${candidate.id} from ${candidate.ownerId ?? 'unknown owner'}`
+        );
+        claimed.push(this.toExecution(candidate));
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Moves a queued execution to `pending`, owned by this instance. Fails when
+   * it is no longer queued, so a job that was queued twice only starts once.
+   */
+  async startQueuedExecution(executionId: string, startedAt: Date): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id: executionId, status: 'queued' },
+      { status: 'pending', startedAt, ownerId: this.instanceId, heartbeatAt: new Date() }
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Takes over `queued` executions last touched before `staleBefore` that
+   * `isQueued` says are missing from the execution queue, e.g. because the
+   * instance that claimed their job died before starting them. Claims are
+   * conditional on the old heartbeat like those of `claimStaleExecutions`.
+   */
+  async claimOrphanedQueuedExecutions(
+    staleBefore: Date,
+    isQueued: (executionId: string) => Promise<boolean>,
+    limit: number = 50
+  ): Promise<WorkflowExecution[]> {
+    const candidates = await this.executionRepository.find({
+      where: { status: 'queued', heartbeatAt: LessThan(staleBefore) },
+      order: { heartbeatAt: 'ASC' },
+      take: limit,
+    });
+
+    const claimed: WorkflowExecution[] = [];
+    for (const candidate of candidates) {
+      if (await isQueued(candidate.id)) {
+        continue;
+      }
+
+      const result = await this.executionRepository.update(
+        { id: candidate.id, status: 'queued', heartbeatAt: candidate.heartbeatAt },
+        { ownerId: this.instanceId, heartbeatAt: new Date() }
+      );
+      if (result.affected === 1) {
+        this.logger.log(`Claimed orphaned queued execution ${candidate.id}`);
+        claimed.push(this.toExecution(candidate));
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Records a cancellation request for an execution another instance owns.
+   * Finished executions are left untouched.
+   */
+  async requestCancellation(
+    executionId: string,
+    cancellation: CancellationRequest
+  ): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id: executionId, status: In(['queued', 'pending', 'running', 'waiting']) },
+      { cancellation }
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Cancellation requests recorded against any of the given executions.
+   */
+  async findCancellationRequests(
+    executionIds: string[]
+  ): Promise<Map<string, CancellationRequest>> {
+    const requests = new Map<string, CancellationRequest>();
+    if (executionIds.length === 0) {
+      return requests;
+    }
+
+    const entities = await this.executionRepository.find({
+      select: ['id', 'cancellation'],
+      where: { id: In(executionIds) },
+    });
+    for (const entity of entities) {
+      if (entity.cancellation) {
+        requests.set(entity.id, entity.cancellation);
+      }
+    }
+    return requests;
+  }
+
+  private toEntity(execution: WorkflowExecution): Partial<WorkflowExecutionEntity> {
+    return {
+      id: execution.id,
+      workflowId: execution.workflowId,
+      workflowVersion: execution.workflowVersion,
+      status: execution.status,
+      currentStep: execution.currentStep,
+      context: execution.context,
+      result: execution.result,
+      error: execution.error,
+      errorCode: execution.errorCode,
+      triggerEvent: execution.triggerEvent,
+      stepAttempts: execution.stepAttempts,
+      completedSteps: execution.completedSteps,
+      skippedSteps: execution.skippedSteps,
+      transitions: execution.transitions,
+      cancellation: execution.cancellation,
+      deadlineAt: execution.deadlineAt,
+      parentExecutionId: execution.parentExecutionId,
+      parentStepId: execution.parentStepId,
+      priority: execution.priority,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt,
+      duration: execution.duration,
+      ownerId: this.instanceId,
+      heartbeatAt: new Date(),
+    };
+  }
+
+  private toExecution(entity: WorkflowExecutionEntity): WorkflowExecution {
+    return {
+      id: entity.id,
+      workflowId: entity.workflowId,
+      workflowVersion: entity.workflowVersion,
+      status: entity.status,
+      currentStep: entity.currentStep,
+      context: entity.context || {},
+      result: entity.result,
+      error: entity.error,
+      errorCode: entity.errorCode,
+      triggerEvent: entity.triggerEvent as WorkflowExecution['triggerEvent'],
+      stepAttempts: entity.stepAttempts,
+      completedSteps: entity.completedSteps,
+      skippedSteps: entity.skippedSteps,
+      transitions: entity.transitions,
+      cancellation: entity.cancellation,
+      deadlineAt: entity.deadlineAt,
+      parentExecutionId: entity.parentExecutionId,
+      parentStepId: entity.parentStepId,
+      priority: entity.priority,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      duration: entity.duration,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { WorkflowDefinition, WorkflowStep } from '../types';
+import { buildStepGraph, findCycle, findUnreachableSteps, getStepSuccessors } from './step-graph';
+
+// Orders are routed by size, then packed in parallel; approval waits for a signal
+const fulfilment: WorkflowDefinition = {
+  id: 'wf-1',
+  name: 'fulfilment',
+  version: '1.0.0',
+  metadata: {},
+  triggers: [
+    { type: 'route', eventType: 'order.created' },
+    { type: 'route', eventType: 'order.updated' },
+    { type: 'missing', eventType: 'order.deleted' },
+  ],
+  steps: [
+    {
+      id: 'route',
+      name: 'route',
+      type: 'condition',
+      config: { branches: [{ when: 'order.total > 100', next: ['approve'] }], default: ['pack'] },
+    },
+    {
+      id: 'approve',
+      name: 'approve',
+      type: 'wait',
+      config: { signal: 'approved', timeout: 60000, onTimeout: ['reject'] },
+      next: ['pack'],
+    },
+    {
+      id: 'pack',
+      name: 'pack',
+      type: 'parallel',
+      config: { branches: ['box', 'label'] },
+      next: ['ship'],
+      errorHandler: 'reject',
+    },
+    { id: 'box', name: 'box', type: 'action', config: {}, next: ['ship'] },
+    { id: 'label', name: 'label', type: 'action', config: {} },
+    { id: 'ship', name: 'ship', type: 'action', config: {} },
+    { id: 'reject', name: 'reject', type: 'action', config: {} },
+  ],
+};
+
+describe('getStepSuccessors', () => {
+  it('includes every edge a run might take', () => {
+    const [route, approve, pack] = fulfilment.steps;
+
+    expect(getStepSuccessors(route)).toEqual(['approve', 'pack']);
+    expect(getStepSuccessors(approve)).toEqual(['pack', 'reject']);
+    expect(getStepSuccessors(pack)).toEqual(['ship', 'reject']);
+  });
+});
+
+describe('buildStepGraph', () => {
+  const graph = buildStepGraph(fulfilment);
+
+  it('starts from the trigger steps that exist, once each', () => {
+    expect(graph.roots).toEqual(['route']);
+  });
+
+  it('leaves out steps that only run inside a parallel branch', () => {
+    expect([...graph.successors.keys()].sort()).toEqual([
+      'approve',
+      'pack',
+      'reject',
+      'route',
+      'ship',
+    ]);
+  });
+
+  it('records every step leading to a step', () => {
+    expect(graph.predecessors.get('pack')).toEqual(new Set(['route', 'approve']));
+    expect(graph.predecessors.get('reject')).toEqual(new Set(['approve', 'pack']));
+    expect(graph.predecessors.has('route')).toBe(false);
+  });
+});
+
+describe('findCycle', () => {
+  const withSteps = (steps: WorkflowStep[]): WorkflowDefinition => ({
+    ...fulfilment,
+    steps,
+  });
+
+  it('finds none in a workflow that only moves forward', () => {
+    expect(findCycle(fulfilment)).toBeNull();
+  });
+
+  it('returns the path that leads back to where the cycle starts', () => {
+    const [route, approve, pack, ...rest] = fulfilment.steps;
+
+    expect(findCycle(withSteps([route, approve, { ...pack, next: ['approve'] }, ...rest]))).toEqual(
+      ['approve', 'pack', 'approve']
+    );
+  });
+
+  it('follows dependencies, loop bodies and branches as well as next', () => {
+    const [route, approve, pack, box, ...rest] = fulfilment.steps;
+
+    expect(
+      findCycle(withSteps([route, { ...approve, dependencies: ['ship'] }, pack, box, ...rest]))
+    ).toEqual(['approve', 'pack', 'ship', 'approve']);
+    expect(
+      findCycle(
+        withSteps([
+          { id: 'retry', name: 'retry', type: 'loop', config: { body: 'charge' } },
+          { id: 'charge', name: 'charge', type: 'action', config: {}, next: ['retry'] },
+        ])
+      )
+    ).toEqual(['retry', 'charge', 'retry']);
+  });
+});
+
+describe('findUnreachableSteps', () => {
+  it('reaches branch steps and error handlers through the steps that own them', () => {
+    expect(findUnreachableSteps(fulfilment)).toEqual([]);
+  });
+
+  it('reports steps nothing leads to, even if they depend on a reachable step', () => {
+    const audit: WorkflowStep = {
+      id: 'audit',
+      name: 'audit',
+      type: 'action',
+      config: {},
+      dependencies: ['ship'],
+    };
+
+    expect(findUnreachableSteps({ ...fulfilment, steps: [...fulfilment.steps, audit] })).toEqual([
+      'audit',
+    ]);
+  });
+
+  it('counts the cancellation step as reachable', () => {
+    const cleanup: WorkflowStep = { id: 'cleanup', name: 'cleanup', type: 'action', config: {} };
+    const definition = { ...fulfilment, steps: [...fulfilment.steps, cleanup] };
+
+    expect(findUnreachableSteps(definition)).toEqual(['cleanup']);
+    expect(findUnreachableSteps({ ...definition, onCancel: 'cleanup' })).toEqual([]);
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  WorkflowDefinition,
+  WorkflowStep,
+  ConditionStepConfig,
+  WaitStepConfig,
+  ParallelStepConfig,
+  LoopStepConfig,
+} from '../types';
+
+/**
+ * The part of a workflow the scheduler walks: every step reachable from a
+ * trigger through `next`, condition branch, wait timeout and `errorHandler` edges. Steps
+ * that only run inside a parallel branch or a loop body are owned by that
+ * step and are not part of the graph.
+ */
+export interface StepGraph {
+  roots: string[];
+  steps: Map<string, WorkflowStep>;
+  successors: Map<string, string[]>;
+  predecessors: Map<string, Set<string>>;
+}
+
+/**
+ * All steps a step can hand over to, whether or not a given run takes that edge.
+ */
+export function getStepSuccessors(step: WorkflowStep): string[] {
+  const successors = new Set<string>(step.next || []);
+
+  if (step.type === 'condition') {
+    const config = step.config as ConditionStepConfig;
+    for (const branch of config.branches || []) {
+      for (const target of branch.next || []) {
+        successors.add(target);
+      }
+    }
+    for (const target of config.default || []) {
+      successors.add(target);
+    }
+  }
+
+  if (step.type === 'wait') {
+    for (const target of (step.config as WaitStepConfig).onTimeout || []) {
+      successors.add(target);
+    }
+  }
+
+  if (step.errorHandler) {
+    successors.add(step.errorHandler);
+  }
+
+  return Array.from(successors);
+}
+
+export function buildStepGraph(definition: WorkflowDefinition): StepGraph {
+  const steps = new Map(definition.steps.map(step => [step.id, step]));
+  const roots = Array.from(new Set(definition.triggers.map(trigger => trigger.type))).filter(root =>
+    steps.has(root)
+  );
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, Set<string>>();
+
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const stepId = queue.shift()!;
+    if (successors.has(stepId)) {
+      continue;
+    }
+
+    const targets = getStepSuccessors(steps.get(stepId)!).filter(target => steps.has(target));
+    successors.set(stepId, targets);
+
+    for (const target of targets) {
+      if (!predecessors.has(target)) {
+        predecessors.set(target, new Set());
+      }
+      predecessors.get(target)!.add(stepId);
+      queue.push(target);
+    }
+  }
+
+  return { roots, steps, successors, predecessors };
+}
+
+/**
+ * For every step, the steps whose outputs it can read: those that can run
+ * before it in the same flow (the top-level graph, a parallel branch, a loop
+ * body or the cancellation cleanup), plus those preceding the parallel or loop
+ * step that owns the flow. Cleanup can read every top-level step.
+ */
+export function getPrecedingSteps(definition: WorkflowDefinition): Map<string, Set<string>> {
+  const steps = new Map(definition.steps.map(step => [step.id, step]));
+  const regions: Array<{ entries: string[]; stops: Set<string>; owner?: string }> = [
+    { entries: buildStepGraph(definition).roots, stops: new Set() },
+  ];
+  if (definition.onCancel) {
+    regions.push({ entries: [definition.onCancel], stops: new Set() });
+  }
+  for (const step of definition.steps) {
+    if (step.type === 'parallel') {
+      for (const branch of (step.config as ParallelStepConfig).branches || []) {
+        regions.push({ entries: [branch], stops: new Set(step.next || []), owner: step.id });
+      }
+    }
+    if (step.type === 'loop' && step.config?.body) {
+      regions.push({
+        entries: [(step.config as LoopStepConfig).body],
+        stops: new Set(step.next || []),
+        owner: step.id,
+      });
+    }
+  }
+
+  // Ancestors of each step within each flow it belongs to
+  const local = new Map<string, Set<string>>();
+  const owners = new Map<string, Set<string>>();
+  const topLevel = new Set<string>();
+  const cleanup = new Set<string>();
+  regions.forEach((region, index) => {
+    const predecessors = new Map<string, Set<string>>();
+    const queue = region.entries.filter(entry => steps.has(entry) && !region.stops.has(entry));
+    const members = new Set<string>();
+    while (queue.length > 0) {
+      const stepId = queue.shift()!;
+      if (members.has(stepId)) {
+        continue;
+      }
+      members.add(stepId);
+      for (const target of getStepSuccessors(steps.get(stepId)!)) {
+        if (!steps.has(target) || region.stops.has(target)) {
+          continue;
+        }
+        if (!predecessors.has(target)) {
+          predecessors.set(target, new Set());
+        }
+        predecessors.get(target)!.add(stepId);
+        queue.push(target);
+      }
+    }
+
+    for (const stepId of members) {
+      const ancestors = local.get(stepId) ?? new Set<string>();
+      const pending = [...(predecessors.get(stepId) || [])];
+      while (pending.length > 0) {
+        const ancestor = pending.pop()!;
+        if (!ancestors.has(ancestor)) {
+          ancestors.add(ancestor);
+          pending.push(...(predecessors.get(ancestor) || []));
+        }
+      }
+      local.set(stepId, ancestors);
+
+      if (index === 0) {
+        topLevel.add(stepId);
+      } else if (!region.owner) {
+        cleanup.add(stepId);
+      } else {
+        owners.set(stepId, (owners.get(stepId) ?? new Set()).add(region.owner));
+      }
+    }
+  });
+
+  const preceding = new Map<string, Set<string>>();
+  const resolve = (stepId: string, visiting: Set<string>): Set<string> => {
+    const cached = preceding.get(stepId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = new Set(local.get(stepId));
+    if (cleanup.has(stepId)) {
+      topLevel.forEach(ancestor => result.add(ancestor));
+    }
+    visiting.add(stepId);
+    for (const owner of owners.get(stepId) || []) {
+      if (!visiting.has(owner)) {
+        resolve(owner, visiting).forEach(ancestor => result.add(ancestor));
+      }
+    }
+    visiting.delete(stepId);
+    result.delete(stepId);
+
+    preceding.set(stepId, result);
+    return result;
+  };
+
+  for (const step of definition.steps) {
+    resolve(step.id, new Set());
+  }
+
+  return preceding;
+}
+
+/**
+ * Steps that must run after each step: those it hands over to, the branches
+ * or loop body it owns and, unless left out, the steps that list it in their
+ * `dependencies`.
+ */
+function buildOrderingEdges(
+  definition: WorkflowDefinition,
+  includeDependencies: boolean = true
+): Map<string, string[]> {
+  const steps = new Set(definition.steps.map(step => step.id));
+  const edges = new Map<string, Set<string>>(definition.steps.map(step => [step.id, new Set()]));
+
+  for (const step of definition.steps) {
+    const targets = edges.get(step.id)!;
+    getStepSuccessors(step).forEach(target => targets.add(target));
+    if (step.type === 'parallel') {
+      ((step.config as ParallelStepConfig).branches || []).forEach(branch => targets.add(branch));
+    }
+    if (step.type === 'loop' && step.config?.body) {
+      targets.add((step.config as LoopStepConfig).body);
+    }
+    for (const dependency of includeDependencies ? step.dependencies || [] : []) {
+      edges.get(dependency)?.add(step.id);
+    }
+  }
+
+  return new Map(
+    Array.from(edges, ([stepId, targets]) => [
+      stepId,
+      Array.from(targets).filter(target => steps.has(target)),
+    ])
+  );
+}
+
+/**
+ * The first cycle found among the workflow's ordering edges, as the path of
+ * step ids that leads back to its start (`['a', 'b', 'a']`), or null.
+ */
+export function findCycle(definition: WorkflowDefinition): string[] | null {
+  const edges = buildOrderingEdges(definition);
+  const done = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+
+  const visit = (stepId: string): string[] | null => {
+    if (onPath.has(stepId)) {
+      return [...path.slice(path.indexOf(stepId)), stepId];
+    }
+    if (done.has(stepId)) {
+      return null;
+    }
+
+    path.push(stepId);
+    onPath.add(stepId);
+    for (const target of edges.get(stepId) || []) {
+      const cycle = visit(target);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    onPath.delete(stepId);
+    done.add(stepId);
+    return null;
+  };
+
+  for (const stepId of edges.keys()) {
+    const cycle = visit(stepId);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Steps no trigger or cancellation cleanup can ever lead to. Dependencies
+ * only hold a step back, so they don't make it reachable.
+ */
+export function findUnreachableSteps(definition: WorkflowDefinition): string[] {
+  const edges = buildOrderingEdges(definition, false);
+  const reached = new Set<string>();
+  const queue = definition.triggers.map(trigger => trigger.type);
+  if (definition.onCancel) {
+    queue.push(definition.onCancel);
+  }
+
+  while (queue.length > 0) {
+    const stepId = queue.shift()!;
+    if (reached.has(stepId) || !edges.has(stepId)) {
+      continue;
+    }
+    reached.add(stepId);
+    queue.push(...edges.get(stepId)!);
+  }
+
+  return definition.steps.map(step => step.id).filter(stepId => !reached.has(stepId));
+}
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StepRun, WorkflowExecution, WorkflowStep } from '../types';
+import { WorkflowStepRunEntity } from '../workflows/entities/workflow-step-run.entity';
+
+/**
+ * An open journal entry, handed back to close it.
+ */
+export interface StepRunHandle {
+  id: string;
+  startedAt: Date;
+}
+
+/**
+ * Records every step run (one per attempt) with its input, output, timing and
+ * outcome, for execution timelines. The journal is diagnostic only: a failed
+ * write is logged and never fails the execution.
+ */
+@Injectable()
+export class StepJournal {
+  private readonly logger = new Logger(StepJournal.name);
+
+  constructor(
+    @InjectRepository(WorkflowStepRunEntity)
+    private readonly stepRunRepository: Repository<WorkflowStepRunEntity>
+  ) {}
+
+  /**
+   * Opens a journal entry for a step run. Returns undefined when the entry
+   * could not be written.
+   */
+  async start(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    attempt: number,
+    input: any
+  ): Promise<StepRunHandle | undefined> {
+    try {
+      const entity = this.stepRunRepository.create({
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        stepId: step.id,
+        stepType: step.type,
+        attempt,
+        status: 'running',
+        input: this.snapshot(input),
+        startedAt: new Date(),
+      });
+      const saved = await this.stepRunRepository.save(entity);
+      return { id: saved.id, startedAt: saved.startedAt };
+    } catch (error) {
+      this.logger.error(`Failed to journal start of step ${step.id} in ${execution.id}:`, error);
+      return undefined;
+    }
+  }
+
+  async complete(run: StepRunHandle | undefined, output?: any): Promise<void> {
+    await this.finish(run, { status: 'completed', output: this.snapshot(output) });
+  }
+
+  async fail(run: StepRunHandle | undefined, error: any): Promise<void> {
+    await this.finish(run, { status: 'failed', error: error?.message, errorName: error?.name });
+  }
+
+  /**
+   * Marks a run as suspended, e.g. a delay step waiting on its timer.
+   */
+  async suspend(run: StepRunHandle | undefined): Promise<void> {
+    if (!run) {
+      return;
+    }
+
+    try {
+      await this.stepRunRepository.update({ id: run.id }, { status: 'waiting' });
+    } catch (error) {
+      this.logger.error(`Failed to journal suspension of step run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * Closes the suspended run of a step once the execution resumes past it,
+   * as failed if the step resumed with an error.
+   */
+  async resume(executionId: string, stepId: string, error?: any): Promise<void> {
+    try {
+      const run = await this.stepRunRepository.findOne({
+        where: { executionId, stepId, status: 'waiting' },
+        order: { startedAt: 'DESC' },
+      });
+      if (run) {
+        await this.finish(
+          { id: run.id, startedAt: run.startedAt },
+          error
+            ? { status: 'failed', error: error.message, errorName: error.name }
+            : { status: 'completed' }
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Failed to journal resumption of step ${stepId} in ${executionId}:`, error);
+    }
+  }
+
+  async getStepRuns(executionId: string): Promise<StepRun[]> {
+    const runs = await this.stepRunRepository.find({
+      where: { executionId },
+      order: { startedAt: 'ASC', attempt: 'ASC' },
+    });
+    return runs.map(run => this.toStepRun(run));
+  }
+
+  private async finish(
+    run: StepRunHandle | undefined,
+    outcome: Partial<WorkflowStepRunEntity>
+  ): Promise<void> {
+    if (!run) {
+      return;
+    }
+
+    try {
+      const completedAt = new Date();
+      await this.stepRunRepository.update(
+        { id: run.id },
+        { ...outcome, completedAt, duration: completedAt.getTime() - run.startedAt.getTime() }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to journal outcome of step run ${run.id}:`, error);
+    }
+  }
+
+  // Copies a value as it is now, dropping anything that can't be stored as JSON
+  private snapshot(value: any): any {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(JSON.stringify(value));
+    } catch {
+      return { unserializable: true };
+    }
+  }
+
+  private toStepRun(entity: WorkflowStepRunEntity): StepRun {
+    return {
+      id: entity.id,
+      executionId: entity.executionId,
+      workflowId: entity.workflowId,
+      stepId: entity.stepId,
+      stepType: entity.stepType as StepRun['stepType'],
+      attempt: entity.attempt,
+      status: entity.status,
+      input: entity.input,
+      output: entity.output,
+      error: entity.error,
+      errorName: entity.errorName,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      duration: entity.duration,
+    };
+  }
+}
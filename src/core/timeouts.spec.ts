@@ -0,0 +1,55 @@
+import { StepTimeoutError, withTimeout } from './timeouts';
+
+describe('withTimeout', () => {
+  const timeout = () => new StepTimeoutError('charge', 50);
+
+  let signal: AbortSignal | undefined;
+  // Never settles, and keeps the signal it ran with
+  const hang = (taskSignal?: AbortSignal) => {
+    signal = taskSignal;
+    return new Promise<never>(() => undefined);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects once the timeout passes, even if the task ignores its signal', async () => {
+    const result = withTimeout(hang, 50, undefined, timeout);
+
+    jest.advanceTimersByTime(50);
+
+    await expect(result).rejects.toMatchObject({ code: 'STEP_TIMEOUT', stepId: 'charge' });
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(StepTimeoutError);
+  });
+
+  it('settles with the task when it finishes in time', async () => {
+    const result = withTimeout(() => Promise.resolve('charged'), 50, undefined, timeout);
+
+    await expect(result).resolves.toBe('charged');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('passes on an abort of the parent signal with its reason', () => {
+    const parent = new AbortController();
+    void withTimeout(hang, 50, parent.signal, timeout);
+
+    parent.abort('cancelled');
+
+    expect(signal?.reason).toBe('cancelled');
+  });
+
+  it('hands the parent signal straight to the task without a timeout', () => {
+    const parent = new AbortController();
+
+    void withTimeout(hang, undefined, parent.signal, timeout);
+
+    expect(signal).toBe(parent.signal);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
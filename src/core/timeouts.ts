@@ -0,0 +1,84 @@
+/**
+ * Thrown when a step attempt runs longer than the step's `timeout`. Retry
+ * policies can match it by name (`StepTimeoutError`) or code (`STEP_TIMEOUT`).
+ */
+export class StepTimeoutError extends Error {
+  readonly code = 'STEP_TIMEOUT';
+
+  constructor(
+    readonly stepId: string,
+    readonly timeout: number
+  ) {
+    super(`Step ${stepId} timed out after ${timeout}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+/**
+ * Ends an execution that ran past its workflow's `deadline`. Never retried.
+ */
+export class DeadlineExceededError extends Error {
+  readonly code = 'DEADLINE_EXCEEDED';
+  readonly retryable = false;
+
+  constructor(
+    readonly executionId: string,
+    readonly deadlineAt: Date
+  ) {
+    super(`Execution ${executionId} exceeded its deadline of ${deadlineAt.toISOString()}`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+/**
+ * Ends a wait step whose signal did not arrive in time and that has no
+ * `onTimeout` branch to take instead.
+ */
+export class SignalTimeoutError extends Error {
+  readonly code = 'SIGNAL_TIMEOUT';
+
+  constructor(
+    readonly stepId: string,
+    readonly signal: string
+  ) {
+    super(`Wait step ${stepId} timed out waiting for signal ${signal}`);
+    this.name = 'SignalTimeoutError';
+  }
+}
+
+/**
+ * Runs `task` with a signal that aborts when `parent` does or once `timeout`
+ * milliseconds have passed. On timeout the returned promise rejects with
+ * `onTimeout()` right away, even if the task ignores its signal.
+ */
+export function withTimeout<T>(
+  task: (signal?: AbortSignal) => Promise<T>,
+  timeout: number | undefined,
+  parent: AbortSignal | undefined,
+  onTimeout: () => Error
+): Promise<T> {
+  if (!timeout) {
+    return task(parent);
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    abort();
+  }
+  parent?.addEventListener('abort', abort, { once: true });
+
+  let handle: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    handle = setTimeout(() => {
+      const error = onTimeout();
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  return Promise.race([task(controller.signal), timedOut]).finally(() => {
+    clearTimeout(handle);
+    parent?.removeEventListener('abort', abort);
+  });
+}
@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { TimerService } from './timer-service';
+import { WorkflowTimerEntity } from '../workflows/entities/workflow-timer.entity';
+
+jest.mock('../workflows/entities/workflow-timer.entity', () => ({
+  WorkflowTimerEntity: class {},
+}));
+
+describe('TimerService', () => {
+  let rows: Partial<WorkflowTimerEntity>[];
+  let fired: string[];
+  let service: TimerService;
+
+  beforeEach(() => {
+    rows = [
+      {
+        id: 'timer-1',
+        executionId: 'exec-1',
+        stepId: 'wait',
+        status: 'pending',
+        fireAt: new Date(0),
+      },
+    ];
+    fired = [];
+
+    // Every row is due; updates apply only where all of their criteria match
+    const repository = {
+      find: jest.fn(() => Promise.resolve(rows.filter(row => row.status === 'pending'))),
+      update: jest.fn((criteria: Partial<WorkflowTimerEntity>, changes: object) => {
+        const matched = rows.filter(row =>
+          Object.entries(criteria).every(([key, value]) => row[key as keyof typeof row] === value)
+        );
+        matched.forEach(row => Object.assign(row, changes));
+        return Promise.resolve({ affected: matched.length });
+      }),
+    };
+    const eventEmitter = new EventEmitter2();
+    eventEmitter.on('workflow.timer.fired', (timer: { id: string }) => fired.push(timer.id));
+
+    service = new TimerService(
+      repository as unknown as Repository<WorkflowTimerEntity>,
+      { get: (_key: string, defaultValue: unknown) => defaultValue } as unknown as ConfigService,
+      eventEmitter
+    );
+  });
+
+  it('fires a due timer once', async () => {
+    await service.pollDueTimers();
+    await service.pollDueTimers();
+
+    expect(fired).toEqual(['timer-1']);
+    expect(rows[0].status).toBe('fired');
+  });
+
+  it('fires a released timer again on the next poll', async () => {
+    await service.pollDueTimers();
+
+    expect(await service.release('timer-1')).toBe(true);
+    await service.pollDueTimers();
+
+    expect(fired).toEqual(['timer-1', 'timer-1']);
+  });
+
+  it('only releases timers that have fired', async () => {
+    expect(await service.release('timer-1')).toBe(false);
+
+    await service.cancel('timer-1');
+
+    expect(await service.release('timer-1')).toBe(false);
+    expect(rows[0].status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,139 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { WorkflowTimer } from '../types';
+import { WorkflowTimerEntity } from '../workflows/entities/workflow-timer.entity';
+
+/**
+ * Durable timers for delay steps. Timers are stored in the database and a
+ * poller fires the ones that are due, so a timer scheduled before a restart or
+ * redeploy still fires afterwards. Firing claims the row with a conditional
+ * update, which keeps a timer from firing twice when several replicas poll.
+ *
+ * Fired timers are announced as `workflow.timer.fired` events.
+ */
+@Injectable()
+export class TimerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TimerService.name);
+  private pollHandle?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @InjectRepository(WorkflowTimerEntity)
+    private readonly timerRepository: Repository<WorkflowTimerEntity>,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('TIMER_POLL_INTERVAL_MS', 1000));
+    this.pollHandle = setInterval(() => void this.pollDueTimers(), interval);
+    this.logger.log(`Timer service polling every ${interval}ms`);
+
+    // Pick up timers that came due while no instance was running
+    void this.pollDueTimers();
+  }
+
+  onModuleDestroy() {
+    if (this.pollHandle) {
+      clearInterval(this.pollHandle);
+      this.pollHandle = undefined;
+    }
+  }
+
+  async schedule(timer: Omit<WorkflowTimer, 'id' | 'status'>): Promise<WorkflowTimer> {
+    const entity = this.timerRepository.create({ ...timer, status: 'pending' });
+    const saved = await this.timerRepository.save(entity);
+
+    this.logger.debug(
+      `Scheduled timer ${saved.id} for step ${timer.stepId} of execution ${timer.executionId} at ${timer.fireAt.toISOString()}`
+    );
+    return this.toTimer(saved);
+  }
+
+  async cancel(timerId: string): Promise<boolean> {
+    const result = await this.timerRepository.update(
+      { id: timerId, status: 'pending' },
+      { status: 'cancelled' }
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Returns a fired timer to pending so the next poll fires it again, for a
+   * timer that fired before its execution could act on it.
+   */
+  async release(timerId: string): Promise<boolean> {
+    const result = await this.timerRepository.update(
+      { id: timerId, status: 'fired' },
+      { status: 'pending' }
+    );
+    return result.affected === 1;
+  }
+
+  async cancelForExecution(executionId: string): Promise<number> {
+    const result = await this.timerRepository.update(
+      { executionId, status: 'pending' },
+      { status: 'cancelled' }
+    );
+    return result.affected ?? 0;
+  }
+
+  async getPendingTimers(executionId: string): Promise<WorkflowTimer[]> {
+    const timers = await this.timerRepository.find({
+      where: { executionId, status: 'pending' },
+      order: { fireAt: 'ASC' },
+    });
+    return timers.map(timer => this.toTimer(timer));
+  }
+
+  async pollDueTimers(): Promise<void> {
+    // Skip this tick if the previous poll is still firing timers
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const batchSize = Number(this.configService.get('TIMER_BATCH_SIZE', 100));
+      const due = await this.timerRepository.find({
+        where: { status: 'pending', fireAt: LessThanOrEqual(new Date()) },
+        order: { fireAt: 'ASC' },
+        take: batchSize,
+      });
+
+      for (const timer of due) {
+        const claim = await this.timerRepository.update(
+          { id: timer.id, status: 'pending' },
+          { status: 'fired', firedAt: new Date() }
+        );
+
+        // Another instance claimed it first
+        if (claim.affected !== 1) {
+          continue;
+        }
+
+        this.logger.debug(`Firing timer ${timer.id} for execution ${timer.executionId}`);
+        this.eventEmitter.emit('workflow.timer.fired', this.toTimer({ ...timer, status: 'fired' }));
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll due timers:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private toTimer(entity: WorkflowTimerEntity): WorkflowTimer {
+    return {
+      id: entity.id,
+      executionId: entity.executionId,
+      workflowId: entity.workflowId,
+      stepId: entity.stepId,
+      fireAt: entity.fireAt,
+      status: entity.status,
+      payload: entity.payload,
+    };
+  }
+}
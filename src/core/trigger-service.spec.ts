@@ -0,0 +1,149 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TriggerService } from './trigger-service';
+import { InMemoryCacheInvalidationBus } from './cache-invalidation';
+import { WORKFLOW_CACHE, WorkflowRegistry } from './workflow-registry';
+import { WorkflowEngine } from './workflow-engine';
+import { EventBus } from '../events/event-bus';
+import { Event, WorkflowDefinition } from '../types';
+
+jest.mock('./workflow-engine', () => ({ WorkflowEngine: class {} }));
+jest.mock('./action-registry', () => ({ ActionRegistry: class {} }));
+jest.mock('../events/event-bus', () => ({ EventBus: class {} }));
+jest.mock('../workflows/entities/workflow-definition.entity', () => ({
+  WorkflowDefinitionEntity: class {},
+}));
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('TriggerService', () => {
+  // Published versions, oldest first
+  let published: WorkflowDefinition[];
+  let bus: EventEmitter2;
+  let eventEmitter: EventEmitter2;
+  let cacheInvalidationBus: InMemoryCacheInvalidationBus;
+  let workflowEngine: { matchesTriggers: jest.Mock; executeWorkflow: jest.Mock };
+  let service: TriggerService;
+
+  const refunds = (version: string, eventTypes: string[]): WorkflowDefinition => ({
+    id: `refunds-${version}`,
+    name: 'refunds',
+    version,
+    status: 'published',
+    triggers: [
+      ...eventTypes.map(eventType => ({ type: 'review', eventType })),
+      { type: 'review', eventType: 'refund.sweep', schedule: { interval: 3600000 } },
+    ],
+    steps: [],
+    metadata: {},
+  });
+
+  const event = (type: string): Event => ({
+    id: 'evt-1',
+    type,
+    data: { orderId: 'order-42' },
+    metadata: { source: 'test' },
+    timestamp: new Date(),
+  });
+
+  beforeEach(async () => {
+    published = [refunds('1.0.0', ['refund.requested']), refunds('1.1.0', ['refund.requested'])];
+    bus = new EventEmitter2();
+    eventEmitter = new EventEmitter2();
+    cacheInvalidationBus = new InMemoryCacheInvalidationBus();
+    workflowEngine = {
+      matchesTriggers: jest.fn(() => true),
+      executeWorkflow: jest.fn(() => Promise.resolve({ id: 'exec-1' })),
+    };
+
+    const eventBus = {
+      subscribe: (eventType: string, handler: (event: Event) => void) => bus.on(eventType, handler),
+      unsubscribe: (eventType: string, handler: (event: Event) => void) =>
+        bus.off(eventType, handler),
+    };
+    const workflowRegistry = {
+      instanceId: 'instance-a',
+      listWorkflows: () => Promise.resolve(published),
+      getWorkflow: (id: string) =>
+        Promise.resolve(published.find(workflow => workflow.id === id) ?? null),
+      getLatestPublishedWorkflow: (name: string) =>
+        Promise.resolve(published.filter(workflow => workflow.name === name).pop() ?? null),
+    };
+
+    service = new TriggerService(
+      eventBus as unknown as EventBus,
+      workflowRegistry as unknown as WorkflowRegistry,
+      workflowEngine as unknown as WorkflowEngine,
+      cacheInvalidationBus,
+      eventEmitter
+    );
+    await service.onApplicationBootstrap();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('subscribes only the highest published version, once per event type', () => {
+    expect(service.getSubscriptions()).toEqual([
+      {
+        workflow: 'refunds',
+        workflowId: 'refunds-1.1.0',
+        version: '1.1.0',
+        eventTypes: ['refund.requested'],
+      },
+    ]);
+    expect(bus.listenerCount('refund.sweep')).toBe(0);
+  });
+
+  it('starts an execution for events that pass the triggers and ignores the rest', async () => {
+    const requested = event('refund.requested');
+    bus.emit('refund.requested', requested);
+    await flush();
+
+    workflowEngine.matchesTriggers.mockReturnValueOnce(false);
+    bus.emit('refund.requested', event('refund.requested'));
+    await flush();
+
+    expect(workflowEngine.executeWorkflow).toHaveBeenCalledTimes(1);
+    expect(workflowEngine.executeWorkflow).toHaveBeenCalledWith('refunds-1.1.0', requested);
+  });
+
+  it('moves the subscription when a status change here publishes or retires a version', async () => {
+    const next = refunds('2.0.0', ['refund.approved']);
+    published.push(next);
+    eventEmitter.emit('workflow.definition.status_changed', { workflow: next });
+    await flush();
+
+    expect(service.getLiveWorkflows()).toEqual([next]);
+    expect(bus.listenerCount('refund.requested')).toBe(0);
+    expect(bus.listenerCount('refund.approved')).toBe(1);
+
+    published = [];
+    eventEmitter.emit('workflow.definition.status_changed', { workflow: next });
+    await flush();
+
+    expect(service.getSubscriptions()).toEqual([]);
+    expect(bus.listenerCount('refund.approved')).toBe(0);
+  });
+
+  it('follows invalidations from other instances, including of deleted versions', async () => {
+    published.pop();
+    await cacheInvalidationBus.publish({
+      cache: WORKFLOW_CACHE,
+      keys: ['refunds-1.1.0'],
+      origin: 'instance-a',
+    });
+    await flush();
+
+    expect(service.getLiveWorkflows().map(workflow => workflow.id)).toEqual(['refunds-1.1.0']);
+
+    await cacheInvalidationBus.publish({
+      cache: WORKFLOW_CACHE,
+      keys: ['refunds-1.1.0'],
+      origin: 'instance-b',
+    });
+    await flush();
+
+    expect(service.getLiveWorkflows().map(workflow => workflow.id)).toEqual(['refunds-1.0.0']);
+  });
+});
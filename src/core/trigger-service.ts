@@ -0,0 +1,210 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Event, WorkflowDefinition } from '../types';
+import { EventBus } from '../events/event-bus';
+import { WorkflowEngine } from './workflow-engine';
+import { WORKFLOW_CACHE, WorkflowRegistry } from './workflow-registry';
+import { CacheInvalidationBus } from './cache-invalidation';
+
+interface TriggerSubscription {
+  workflow: WorkflowDefinition;
+  eventTypes: string[];
+  handler: (event: Event) => void;
+}
+
+/**
+ * Starts workflows from the events their triggers name. Each workflow with a
+ * published version has one subscription on the `EventBus` per event type of
+ * its highest published version's triggers; an event that also passes a
+ * trigger's filters and conditions starts an execution with the event as its
+ * trigger. Older published versions keep running what they started but don't
+ * start anything new, so one event starts one execution per workflow.
+ * Schedule triggers are left to `ScheduleService`, which fires the live
+ * versions this service tracks.
+ *
+ * Subscriptions are rebuilt at startup and follow status changes: those made
+ * on this instance through registry events, those made on others through the
+ * cache invalidation bus.
+ */
+@Injectable()
+export class TriggerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(TriggerService.name);
+  // By workflow name
+  private readonly subscriptions = new Map<string, TriggerSubscription>();
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly workflowRegistry: WorkflowRegistry,
+    private readonly workflowEngine: WorkflowEngine,
+    private readonly cacheInvalidationBus: CacheInvalidationBus,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  async onApplicationBootstrap() {
+    this.eventEmitter.on(
+      'workflow.definition.status_changed',
+      ({ workflow }: { workflow: WorkflowDefinition }) => {
+        void this.refreshWorkflow(workflow.name);
+      }
+    );
+    this.eventEmitter.on(
+      'workflow.definition.deleted',
+      ({ workflowId }: { workflowId: string }) => {
+        void this.refreshWorkflowById(workflowId);
+      }
+    );
+    this.cacheInvalidationBus.subscribe(invalidation => {
+      if (
+        invalidation.cache !== WORKFLOW_CACHE ||
+        invalidation.origin === this.workflowRegistry.instanceId
+      ) {
+        return;
+      }
+
+      if (invalidation.keys) {
+        invalidation.keys.forEach(workflowId => void this.refreshWorkflowById(workflowId));
+      } else {
+        void this.rebuildSubscriptions();
+      }
+    });
+
+    await this.rebuildSubscriptions();
+  }
+
+  onModuleDestroy() {
+    for (const name of Array.from(this.subscriptions.keys())) {
+      this.unsubscribeWorkflow(name);
+    }
+  }
+
+  /**
+   * Subscribes the triggers of every active workflow, dropping any
+   * subscription whose workflow no longer has a published version.
+   */
+  async rebuildSubscriptions(): Promise<void> {
+    try {
+      const active = await this.workflowRegistry.listWorkflows({ isActive: true });
+      const names = new Set([
+        ...active.map(workflow => workflow.name),
+        ...this.subscriptions.keys(),
+      ]);
+
+      for (const name of names) {
+        await this.refreshWorkflow(name);
+      }
+
+      this.logger.log(`Subscribed triggers of ${this.subscriptions.size} workflows`);
+    } catch (error) {
+      this.logger.error('Failed to rebuild trigger subscriptions:', error);
+    }
+  }
+
+  /**
+   * Points a workflow's subscriptions at its highest published version, or
+   * removes them if it has none.
+   */
+  async refreshWorkflow(name: string): Promise<void> {
+    try {
+      const workflow = await this.workflowRegistry.getLatestPublishedWorkflow(name);
+      if (!workflow) {
+        this.unsubscribeWorkflow(name);
+        return;
+      }
+
+      const current = this.subscriptions.get(name);
+      if (current?.workflow.id === workflow.id) {
+        return;
+      }
+
+      this.unsubscribeWorkflow(name);
+      this.subscribeWorkflow(workflow);
+    } catch (error) {
+      this.logger.error(`Failed to refresh trigger subscriptions of workflow ${name}:`, error);
+    }
+  }
+
+  /**
+   * The version of each workflow that triggers start.
+   */
+  getLiveWorkflows(): WorkflowDefinition[] {
+    return Array.from(this.subscriptions.values()).map(({ workflow }) => workflow);
+  }
+
+  getSubscriptions(): Array<{
+    workflow: string;
+    workflowId: string;
+    version: string;
+    eventTypes: string[];
+  }> {
+    return Array.from(this.subscriptions.values()).map(({ workflow, eventTypes }) => ({
+      workflow: workflow.name,
+      workflowId: workflow.id,
+      version: workflow.version,
+      eventTypes,
+    }));
+  }
+
+  private async refreshWorkflowById(workflowId: string): Promise<void> {
+    // A deleted version can only be found through its subscription
+    const name =
+      (await this.workflowRegistry.getWorkflow(workflowId))?.name ??
+      Array.from(this.subscriptions.values()).find(({ workflow }) => workflow.id === workflowId)
+        ?.workflow.name;
+
+    if (name) {
+      await this.refreshWorkflow(name);
+    }
+  }
+
+  private subscribeWorkflow(workflow: WorkflowDefinition): void {
+    const eventTypes = Array.from(
+      new Set(
+        workflow.triggers.filter(trigger => !trigger.schedule).map(trigger => trigger.eventType)
+      )
+    );
+    const handler = (event: Event) => void this.handleEvent(workflow, event);
+
+    for (const eventType of eventTypes) {
+      this.eventBus.subscribe(eventType, handler);
+    }
+    this.subscriptions.set(workflow.name, { workflow, eventTypes, handler });
+
+    this.logger.log(
+      `Workflow ${workflow.name}@${workflow.version} subscribed to ${eventTypes.join(', ') || 'no events'}`
+    );
+  }
+
+  private unsubscribeWorkflow(name: string): void {
+    const subscription = this.subscriptions.get(name);
+    if (!subscription) {
+      return;
+    }
+
+    for (const eventType of subscription.eventTypes) {
+      this.eventBus.unsubscribe(eventType, subscription.handler);
+    }
+    this.subscriptions.delete(name);
+
+    this.logger.log(
+      `Workflow ${name}@${subscription.workflow.version} unsubscribed from its triggers`
+    );
+  }
+
+  private async handleEvent(workflow: WorkflowDefinition, event: Event): Promise<void> {
+    if (!this.workflowEngine.matchesTriggers(workflow, event)) {
+      return;
+    }
+
+    try {
+      const execution = await this.workflowEngine.executeWorkflow(workflow.id, event);
+      this.logger.log(
+        `Event ${event.type} (${event.id}) started execution ${execution.id} of workflow ${workflow.name}@${workflow.version}`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to start workflow ${workflow.name}@${workflow.version} for event ${event.id}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { TtlCache } from './ttl-cache';
+
+describe('TtlCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('expires entries after the ttl', () => {
+    const cache = new TtlCache<string>(10, 1000);
+    cache.set('a', 'alpha');
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe('alpha');
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it('restarts the ttl when an entry is set again', () => {
+    const cache = new TtlCache<string>(10, 1000);
+    cache.set('a', 'alpha');
+    jest.advanceTimersByTime(800);
+    cache.set('a', 'alpha 2');
+    jest.advanceTimersByTime(800);
+
+    expect(cache.get('a')).toBe('alpha 2');
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new TtlCache<number>(2, 60000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    // Reading "a" makes "b" the least recently used
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.stats()).toMatchObject({ size: 2, maxSize: 2, evictions: 1 });
+  });
+
+  it('counts hits, misses and invalidations', () => {
+    const cache = new TtlCache<number>(10, 60000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    cache.get('a');
+    cache.get('missing');
+    cache.delete('a');
+    cache.delete('missing');
+    cache.clear();
+
+    expect(cache.stats()).toEqual({
+      size: 0,
+      maxSize: 10,
+      ttl: 60000,
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      invalidations: 3,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  ttl: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+}
+
+/**
+ * A bounded in-process cache whose entries expire `ttl` milliseconds after
+ * they are set. When full, the least recently used entry is evicted. Hits,
+ * misses and evictions are counted for monitoring.
+ */
+export class TtlCache<V> {
+  // Map iteration order doubles as recency order: reads move an entry to the end
+  private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly ttl: number
+  ) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.invalidations++;
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return {
+      size: this.entries.size,
+      maxSize: this.maxSize,
+      ttl: this.ttl,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+    };
+  }
+}
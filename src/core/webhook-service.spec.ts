@@ -0,0 +1,250 @@
+import { createHmac } from 'crypto';
+import {
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { WebhookService } from './webhook-service';
+import { TriggerService } from './trigger-service';
+import { EventBus } from '../events/event-bus';
+import { WebhookDeliveryEntity } from '../workflows/entities/webhook-delivery.entity';
+import { WebhookTriggerConfig, WorkflowDefinition } from '../types';
+
+// Stand-ins for the injected classes, whose modules load the whole engine
+jest.mock('./trigger-service', () => ({ TriggerService: class {} }));
+jest.mock('../events/event-bus', () => ({ EventBus: class {} }));
+jest.mock('../workflows/entities/webhook-delivery.entity', () => ({
+  WebhookDeliveryEntity: class {},
+}));
+
+type Delivery = Pick<WebhookDeliveryEntity, 'workflowName' | 'eventType' | 'signature'> &
+  Partial<WebhookDeliveryEntity>;
+
+/**
+ * Delivery table shared by every service built in a test, as replicas share
+ * the database, keeping its unique index on workflow, event type and signature.
+ */
+class DeliveryTable {
+  rows: Delivery[] = [];
+
+  find(where: Delivery) {
+    return this.rows.find(
+      row =>
+        row.workflowName === where.workflowName &&
+        row.eventType === where.eventType &&
+        row.signature === where.signature
+    );
+  }
+
+  repository() {
+    return {
+      createQueryBuilder: () => {
+        let values: Delivery;
+        const query = {
+          insert: () => query,
+          values: (row: Delivery) => ((values = row), query),
+          orIgnore: () => query,
+          returning: () => query,
+          execute: () => {
+            const inserted = this.find(values) ? [] : [values];
+            this.rows.push(...inserted);
+            return Promise.resolve({ raw: inserted });
+          },
+        };
+        return query;
+      },
+      findOne: ({ where }: { where: Delivery }) => Promise.resolve(this.find(where) ?? null),
+      delete: (where: Delivery) => {
+        this.rows = this.rows.filter(row => row !== this.find(where));
+        return Promise.resolve({ affected: 1 });
+      },
+    };
+  }
+}
+
+describe('WebhookService', () => {
+  const secret = 'top-secret';
+  const body = Buffer.from('{"order":42}');
+
+  let config: Record<string, unknown>;
+  let eventBus: { publish: jest.Mock };
+  let workflow: WorkflowDefinition;
+  let deliveries: DeliveryTable;
+  let service: WebhookService;
+
+  const signed = (payload: Buffer, headers: Record<string, string> = {}) => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      'content-type': 'application/json',
+      'x-timestamp': timestamp,
+      'x-flowforge-signature': createHmac('sha256', secret)
+        .update(`${timestamp}.${payload.toString()}`)
+        .digest('hex'),
+      ...headers,
+    };
+  };
+
+  const createService = () => {
+    const triggerService = { getLiveWorkflows: () => [workflow] };
+    const configService = {
+      get: (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+    };
+    return new WebhookService(
+      deliveries.repository() as unknown as Repository<WebhookDeliveryEntity>,
+      triggerService as unknown as TriggerService,
+      eventBus as unknown as EventBus,
+      configService as unknown as ConfigService
+    );
+  };
+
+  beforeEach(() => {
+    config = { WEBHOOK_SECRET_ORDERS: secret };
+    eventBus = { publish: jest.fn(() => Promise.resolve()) };
+    workflow = {
+      id: 'wf-1',
+      name: 'orders',
+      version: '1.2.0',
+      triggers: [
+        {
+          type: 'webhook',
+          eventType: 'order.created',
+          webhook: {
+            secretName: 'WEBHOOK_SECRET_ORDERS',
+            timestampHeader: 'x-timestamp',
+            deliveryHeader: 'x-delivery',
+          },
+        },
+      ],
+      steps: [],
+      metadata: {},
+    };
+    deliveries = new DeliveryTable();
+    service = createService();
+  });
+
+  it('publishes the parsed body as an event', async () => {
+    const receipt = await service.receiveWebhook(
+      'orders',
+      'order.created',
+      body,
+      signed(body, { 'x-delivery': 'd-1' })
+    );
+
+    expect(receipt.duplicate).toBe(false);
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: receipt.eventId,
+        type: 'order.created',
+        data: { order: 42 },
+        metadata: { source: 'webhook', tags: { workflow: 'orders', deliveryId: 'd-1' } },
+      })
+    );
+  });
+
+  it('acknowledges a repeated delivery on any instance without publishing it again', async () => {
+    const headers = signed(body, { 'x-delivery': 'd-1' });
+    const first = await service.receiveWebhook('orders', 'order.created', body, headers);
+    const second = await createService().receiveWebhook('orders', 'order.created', body, headers);
+
+    expect(second).toEqual({ eventId: first.eventId, duplicate: true });
+    expect(eventBus.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('recognises repeats by their signature, not by the unsigned delivery id', async () => {
+    const headers = signed(body, { 'x-delivery': 'd-1' });
+    await service.receiveWebhook('orders', 'order.created', body, headers);
+
+    const renamed = await service.receiveWebhook('orders', 'order.created', body, {
+      ...headers,
+      'x-delivery': 'd-2',
+    });
+    const other = Buffer.from('{"order":43}');
+    const reused = await service.receiveWebhook(
+      'orders',
+      'order.created',
+      other,
+      signed(other, { 'x-delivery': 'd-1' })
+    );
+
+    expect(renamed.duplicate).toBe(true);
+    expect(reused.duplicate).toBe(false);
+    expect(eventBus.publish).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts a redelivery after publishing failed', async () => {
+    const headers = signed(body, { 'x-delivery': 'd-1' });
+    eventBus.publish.mockRejectedValueOnce(new Error('bus down'));
+
+    await expect(service.receiveWebhook('orders', 'order.created', body, headers)).rejects.toThrow(
+      'bus down'
+    );
+    const receipt = await service.receiveWebhook('orders', 'order.created', body, headers);
+
+    expect(receipt.duplicate).toBe(false);
+    expect(eventBus.publish).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects unknown workflows and event types', async () => {
+    await expect(
+      service.receiveWebhook('billing', 'order.created', body, signed(body))
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      service.receiveWebhook('orders', 'order.deleted', body, signed(body))
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('rejects requests with a bad signature or a stale timestamp', async () => {
+    await expect(
+      service.receiveWebhook('orders', 'order.created', Buffer.from('{}'), signed(body))
+    ).rejects.toThrow(UnauthorizedException);
+
+    const stale = String(Math.floor(Date.now() / 1000) - 600);
+    const replayed = {
+      ...signed(body),
+      'x-timestamp': stale,
+      'x-flowforge-signature': createHmac('sha256', secret)
+        .update(`${stale}.${body.toString()}`)
+        .digest('hex'),
+    };
+    await expect(service.receiveWebhook('orders', 'order.created', body, replayed)).rejects.toThrow(
+      'Timestamp is outside the replay window'
+    );
+    expect(eventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable while the secret is not configured', async () => {
+    delete config.WEBHOOK_SECRET_ORDERS;
+
+    await expect(
+      service.receiveWebhook('orders', 'order.created', body, signed(body))
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('is unavailable for definitions saved without a timestamp header', async () => {
+    workflow.triggers[0].webhook = { secretName: 'WEBHOOK_SECRET_ORDERS' } as WebhookTriggerConfig;
+
+    await expect(
+      service.receiveWebhook('orders', 'order.created', body, signed(body))
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('never reads secrets outside the webhook namespace', async () => {
+    config.DB_PASSWORD = secret;
+    workflow.triggers[0].webhook!.secretName = 'DB_PASSWORD';
+
+    await expect(
+      service.receiveWebhook('orders', 'order.created', body, signed(body))
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('rejects malformed JSON bodies', async () => {
+    const malformed = Buffer.from('{"order":');
+
+    await expect(
+      service.receiveWebhook('orders', 'order.created', malformed, signed(malformed))
+    ).rejects.toThrow(BadRequestException);
+  });
+});
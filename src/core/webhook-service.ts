@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { Event, WebhookReceipt } from '../types';
+import { EventBus } from '../events/event-bus';
+import { WebhookDeliveryEntity } from '../workflows/entities/webhook-delivery.entity';
+import { TriggerService } from './trigger-service';
+import {
+  getWebhookHeader,
+  isWebhookSecretName,
+  parseWebhookBody,
+  verifyWebhookSignature,
+  WebhookHeaders,
+} from './webhook';
+
+/**
+ * Turns signed webhook requests into events. A request names a workflow and
+ * an event type; it is accepted when the highest published version of that
+ * workflow has a webhook trigger for the event type and the request carries
+ * a valid signature. The event is published on the `EventBus`, so the usual
+ * filters and conditions decide what it starts, here and in any other
+ * workflow triggered by the same event type.
+ *
+ * Requests whose signed timestamp is further than `WEBHOOK_REPLAY_WINDOW_MS`
+ * from now are rejected. Within the window, each verified signature is
+ * recorded in the database until its timestamp leaves the window, so a
+ * repeated delivery is acknowledged without publishing it again, whichever
+ * instance receives it.
+ */
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly replayWindow: number;
+  private purgeHandle?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveryRepository: Repository<WebhookDeliveryEntity>,
+    private readonly triggerService: TriggerService,
+    private readonly eventBus: EventBus,
+    private readonly configService: ConfigService
+  ) {
+    this.replayWindow = Number(this.configService.get('WEBHOOK_REPLAY_WINDOW_MS', 300000));
+  }
+
+  onModuleInit() {
+    const interval = Number(this.configService.get('WEBHOOK_DELIVERY_PURGE_INTERVAL_MS', 60000));
+    this.purgeHandle = setInterval(() => void this.purgeDeliveries(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.purgeHandle) {
+      clearInterval(this.purgeHandle);
+      this.purgeHandle = undefined;
+    }
+  }
+
+  async receiveWebhook(
+    workflowName: string,
+    eventType: string,
+    rawBody: Buffer,
+    headers: WebhookHeaders
+  ): Promise<WebhookReceipt> {
+    const workflow = this.triggerService
+      .getLiveWorkflows()
+      .find(workflow => workflow.name === workflowName);
+    const webhook = workflow?.triggers.find(
+      trigger => trigger.webhook && trigger.eventType === eventType
+    )?.webhook;
+    if (!workflow || !webhook) {
+      throw new NotFoundException(
+        `Workflow ${workflowName} has no published webhook for ${eventType} events`
+      );
+    }
+
+    const label = `${workflow.name}@${workflow.version}`;
+    // Definitions saved before secret names were restricted may still name other keys
+    const secret = isWebhookSecretName(webhook.secretName)
+      ? this.configService.get<string>(webhook.secretName)
+      : undefined;
+    if (!secret) {
+      this.logger.error(
+        `Webhook secret ${webhook.secretName} of workflow ${label} is not configured`
+      );
+      throw new ServiceUnavailableException(
+        `Webhook of workflow ${workflowName} is not configured`
+      );
+    }
+    // Nor did definitions saved before timestamps were required always sign one
+    if (!webhook.timestampHeader) {
+      this.logger.error(`Webhook of workflow ${label} has no timestampHeader`);
+      throw new ServiceUnavailableException(
+        `Webhook of workflow ${workflowName} is not configured`
+      );
+    }
+
+    const verification = verifyWebhookSignature(
+      webhook,
+      secret,
+      rawBody,
+      headers,
+      this.replayWindow
+    );
+    if ('rejection' in verification) {
+      this.logger.warn(
+        `Rejected ${eventType} webhook of workflow ${label}: ${verification.rejection}`
+      );
+      throw new UnauthorizedException(verification.rejection);
+    }
+
+    let data: unknown;
+    try {
+      data = parseWebhookBody(rawBody, getWebhookHeader(headers, 'content-type'));
+    } catch (error) {
+      throw new BadRequestException(
+        `Webhook body is not valid: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const deliveryId = webhook.deliveryHeader
+      ? getWebhookHeader(headers, webhook.deliveryHeader)
+      : undefined;
+    const event: Event = {
+      id: randomUUID(),
+      type: eventType,
+      data,
+      metadata: {
+        source: 'webhook',
+        tags: { workflow: workflow.name, ...(deliveryId ? { deliveryId } : {}) },
+      },
+      timestamp: new Date(),
+    };
+
+    // Claimed before publishing so a retry arriving meanwhile isn't published twice
+    const delivery = {
+      workflowName: workflow.name,
+      eventType,
+      signature: verification.signature,
+    };
+    const timestamp = Number(getWebhookHeader(headers, webhook.timestampHeader)) * 1000;
+    const claim = await this.deliveryRepository
+      .createQueryBuilder()
+      .insert()
+      .values({
+        ...delivery,
+        eventId: event.id,
+        expiresAt: new Date(timestamp + this.replayWindow),
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    if ((claim.raw as unknown[]).length === 0) {
+      const previous = await this.deliveryRepository.findOne({ where: delivery });
+      // The first delivery failed to publish and released its claim meanwhile
+      if (!previous) {
+        throw new ConflictException('Webhook delivery is being retried concurrently');
+      }
+
+      this.logger.log(`Ignoring repeated ${eventType} webhook of workflow ${label}`);
+      return { eventId: previous.eventId, duplicate: true };
+    }
+
+    try {
+      await this.eventBus.publish(event);
+    } catch (error) {
+      await this.deliveryRepository.delete(delivery);
+      throw error;
+    }
+
+    this.logger.log(`Webhook of workflow ${label} published ${eventType} event ${event.id}`);
+    return { eventId: event.id, duplicate: false };
+  }
+
+  /**
+   * Forgets deliveries whose timestamp has left the replay window; they are
+   * rejected as too old from then on.
+   */
+  async purgeDeliveries(): Promise<void> {
+    try {
+      const result = await this.deliveryRepository.delete({ expiresAt: LessThan(new Date()) });
+      if (result.affected) {
+        this.logger.debug(`Purged ${result.affected} expired webhook deliveries`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to purge webhook deliveries:', error);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { createHmac } from 'crypto';
+import {
+  getWebhookHeader,
+  isWebhookSecretName,
+  parseWebhookBody,
+  validateWebhook,
+  verifyWebhookSignature,
+  WebhookHeaders,
+} from './webhook';
+import { WebhookSignatureAlgorithm, WebhookTriggerConfig } from '../types';
+
+describe('webhook', () => {
+  const secret = 'top-secret';
+  const body = Buffer.from('{"order":42}');
+  const now = Date.parse('2024-01-01T12:00:00Z');
+  const window = 300000;
+
+  const sign = (payload: string | Buffer, algorithm: WebhookSignatureAlgorithm = 'sha256') =>
+    createHmac(algorithm, secret).update(payload).digest('hex');
+
+  describe('validateWebhook', () => {
+    it('accepts a webhook with a namespaced secret and a signed timestamp', () => {
+      expect(
+        validateWebhook({ secretName: 'WEBHOOK_SECRET_ORDERS', timestampHeader: 'x-timestamp' })
+      ).toEqual([]);
+    });
+
+    it('reports secrets outside the namespace, missing timestamps and unknown algorithms', () => {
+      expect(
+        validateWebhook({
+          secretName: 'DB_PASSWORD',
+          deliveryHeader: 'x-delivery',
+          algorithm: 'md5' as WebhookSignatureAlgorithm,
+        } as WebhookTriggerConfig)
+      ).toEqual([
+        'webhook secretName must be a configuration key starting with WEBHOOK_SECRET_',
+        'webhook needs a timestampHeader, signed with the body, to reject replays',
+        'webhook algorithm must be one of sha1, sha256, sha512',
+      ]);
+    });
+
+    it('does not accept the bare prefix as a secret name', () => {
+      expect(isWebhookSecretName('WEBHOOK_SECRET_')).toBe(false);
+      expect(isWebhookSecretName('WEBHOOK_SECRET_GITHUB')).toBe(true);
+      expect(isWebhookSecretName(undefined)).toBe(false);
+    });
+  });
+
+  describe('getWebhookHeader', () => {
+    it('looks headers up case-insensitively and takes the first of repeated ones', () => {
+      const headers = { 'x-signature': ['first', 'second'], 'x-delivery': 'abc' };
+      expect(getWebhookHeader(headers, 'X-Signature')).toBe('first');
+      expect(getWebhookHeader(headers, 'X-Delivery')).toBe('abc');
+      expect(getWebhookHeader(headers, 'X-Missing')).toBeUndefined();
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const webhook: WebhookTriggerConfig = {
+      secretName: 'WEBHOOK_SECRET_ORDERS',
+      timestampHeader: 'x-timestamp',
+    };
+    const seconds = now / 1000 - 60;
+    const signedAt = (at: number, algorithm?: WebhookSignatureAlgorithm) => ({
+      'x-timestamp': String(at),
+      'x-flowforge-signature': sign(`${at}.${body}`, algorithm),
+    });
+    const verify = (headers: WebhookHeaders, config = webhook, payload = body) =>
+      verifyWebhookSignature(config, secret, payload, headers, window, now);
+
+    it('returns the signature over the timestamp and body', () => {
+      expect(verify(signedAt(seconds))).toEqual({ signature: sign(`${seconds}.${body}`) });
+    });
+
+    it('honours the configured header, prefix and algorithm', () => {
+      const custom: WebhookTriggerConfig = {
+        ...webhook,
+        signatureHeader: 'X-Hub-Signature',
+        signaturePrefix: 'sha1=',
+        algorithm: 'sha1',
+      };
+      const digest = signedAt(seconds, 'sha1')['x-flowforge-signature'];
+
+      expect(
+        verify({ 'x-timestamp': String(seconds), 'x-hub-signature': `sha1=${digest}` }, custom)
+      ).toEqual({ signature: digest });
+      expect(verify({ 'x-timestamp': String(seconds), 'x-hub-signature': digest }, custom)).toEqual(
+        { rejection: "Signature doesn't start with sha1=" }
+      );
+    });
+
+    it('returns the same signature however the header spells it', () => {
+      const headers = signedAt(seconds);
+      const spelled = {
+        ...headers,
+        'x-flowforge-signature': `${headers['x-flowforge-signature'].toUpperCase()}zz`,
+      };
+
+      expect(verify(spelled)).toEqual(verify(headers));
+    });
+
+    it('rejects missing and wrong signatures', () => {
+      expect(verify({ 'x-timestamp': String(seconds) })).toEqual({
+        rejection: 'Missing signature header x-flowforge-signature',
+      });
+      expect(verify(signedAt(seconds), webhook, Buffer.from('{"order":43}'))).toEqual({
+        rejection: 'Signature does not match',
+      });
+      expect(verify({ ...signedAt(seconds), 'x-flowforge-signature': 'not-hex' })).toEqual({
+        rejection: 'Signature does not match',
+      });
+    });
+
+    it('rejects signatures of the body alone', () => {
+      expect(verify({ ...signedAt(seconds), 'x-flowforge-signature': sign(body) })).toEqual({
+        rejection: 'Signature does not match',
+      });
+    });
+
+    it('rejects timestamps outside the replay window', () => {
+      for (const at of [now / 1000 - 301, now / 1000 + 301]) {
+        expect(verify(signedAt(at))).toEqual({
+          rejection: 'Timestamp is outside the replay window',
+        });
+      }
+    });
+
+    it('rejects missing and malformed timestamps', () => {
+      const rejection = { rejection: 'Missing or malformed timestamp header x-timestamp' };
+      expect(verify({ 'x-flowforge-signature': sign(body) })).toEqual(rejection);
+      expect(verify({ ...signedAt(seconds), 'x-timestamp': '2024-01-01T12:00:00Z' })).toEqual(
+        rejection
+      );
+    });
+  });
+
+  describe('parseWebhookBody', () => {
+    it('parses JSON and form bodies and keeps anything else as text', () => {
+      expect(parseWebhookBody(body, 'application/json; charset=utf-8')).toEqual({ order: 42 });
+      expect(parseWebhookBody(Buffer.alloc(0), 'application/json')).toEqual({});
+      expect(
+        parseWebhookBody(Buffer.from('a=1&b=two'), 'application/x-www-form-urlencoded')
+      ).toEqual({ a: '1', b: 'two' });
+      expect(parseWebhookBody(Buffer.from('<xml/>'), 'application/xml')).toBe('<xml/>');
+      expect(parseWebhookBody(Buffer.from('plain'))).toBe('plain');
+    });
+
+    it('throws on malformed JSON', () => {
+      expect(() => parseWebhookBody(Buffer.from('{'), 'application/json')).toThrow(SyntaxError);
+    });
+  });
+});
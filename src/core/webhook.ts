@@ -0,0 +1,111 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WebhookSignatureAlgorithm, WebhookTriggerConfig } from '../types';
+
+export const DEFAULT_SIGNATURE_HEADER = 'x-flowforge-signature';
+export const DEFAULT_SIGNATURE_ALGORITHM: WebhookSignatureAlgorithm = 'sha256';
+// Webhooks can only read secrets from configuration keys in this namespace
+export const WEBHOOK_SECRET_PREFIX = 'WEBHOOK_SECRET_';
+
+const SIGNATURE_ALGORITHMS: WebhookSignatureAlgorithm[] = ['sha1', 'sha256', 'sha512'];
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Outcome of checking a webhook request: the verified signature as lowercase
+ * hex, or why the request is rejected.
+ */
+export type WebhookVerification = { signature: string } | { rejection: string };
+
+/**
+ * Problems with a trigger's webhook settings.
+ */
+export function validateWebhook(webhook: WebhookTriggerConfig): string[] {
+  const errors: string[] = [];
+
+  if (!isWebhookSecretName(webhook.secretName)) {
+    errors.push(
+      `webhook secretName must be a configuration key starting with ${WEBHOOK_SECRET_PREFIX}`
+    );
+  }
+  if (!webhook.timestampHeader) {
+    errors.push('webhook needs a timestampHeader, signed with the body, to reject replays');
+  }
+  if (webhook.algorithm !== undefined && !SIGNATURE_ALGORITHMS.includes(webhook.algorithm)) {
+    errors.push(`webhook algorithm must be one of ${SIGNATURE_ALGORITHMS.join(', ')}`);
+  }
+
+  return errors;
+}
+
+export function isWebhookSecretName(secretName: unknown): secretName is string {
+  return (
+    typeof secretName === 'string' &&
+    secretName.length > WEBHOOK_SECRET_PREFIX.length &&
+    secretName.startsWith(WEBHOOK_SECRET_PREFIX)
+  );
+}
+
+export function getWebhookHeader(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Checks the signature of a webhook request over its timestamp and body, and
+ * that the timestamp lies within `replayWindow` milliseconds of `now`.
+ */
+export function verifyWebhookSignature(
+  webhook: WebhookTriggerConfig,
+  secret: string,
+  rawBody: Buffer,
+  headers: WebhookHeaders,
+  replayWindow: number,
+  now = Date.now()
+): WebhookVerification {
+  const signatureHeader = webhook.signatureHeader ?? DEFAULT_SIGNATURE_HEADER;
+  const signature = getWebhookHeader(headers, signatureHeader);
+  if (!signature) {
+    return { rejection: `Missing signature header ${signatureHeader}` };
+  }
+
+  const prefix = webhook.signaturePrefix ?? '';
+  if (!signature.startsWith(prefix)) {
+    return { rejection: `Signature doesn't start with ${prefix}` };
+  }
+
+  const timestamp = getWebhookHeader(headers, webhook.timestampHeader);
+  if (!timestamp || !/^\d+$/.test(timestamp)) {
+    return { rejection: `Missing or malformed timestamp header ${webhook.timestampHeader}` };
+  }
+  if (Math.abs(now - Number(timestamp) * 1000) > replayWindow) {
+    return { rejection: 'Timestamp is outside the replay window' };
+  }
+
+  const expected = createHmac(webhook.algorithm ?? DEFAULT_SIGNATURE_ALGORITHM, secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest();
+  const actual = Buffer.from(signature.slice(prefix.length), 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { rejection: 'Signature does not match' };
+  }
+
+  // The expected digest rather than the header, which could spell it differently
+  return { signature: expected.toString('hex') };
+}
+
+/**
+ * The event data of a webhook request: JSON and form bodies are parsed,
+ * anything else is kept as text.
+ */
+export function parseWebhookBody(rawBody: Buffer, contentType = ''): unknown {
+  const text = rawBody.toString('utf8');
+
+  if (contentType.includes('json')) {
+    return text ? JSON.parse(text) : {};
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return text;
+}
@@ -0,0 +1,214 @@
+import { extname } from 'path';
+import { plainToInstance } from 'class-transformer';
+import { defaultMetadataStorage } from 'class-transformer/cjs/storage';
+import { ValidationError, validateSync } from 'class-validator';
+import { validationMetadatasToSchemas } from 'class-validator-jsonschema';
+import { parseAllDocuments, stringify } from 'yaml';
+import { WorkflowBundle, WorkflowBundleFormat, WorkflowDefinition, WorkflowSpec } from '../types';
+import { CreateWorkflowDto } from '../workflows/dto/create-workflow.dto';
+
+const BUNDLE_EXTENSIONS: Record<string, WorkflowBundleFormat> = {
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json',
+};
+
+/**
+ * A bundle that can't be read: malformed YAML or JSON, or workflows that don't
+ * match the definition schema. `errors` lists every problem found.
+ */
+export class WorkflowBundleError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid workflow bundle: ${errors.join('; ')}`);
+    this.name = 'WorkflowBundleError';
+  }
+}
+
+/**
+ * The bundle format of a file, by extension, or null for other files.
+ */
+export function getBundleFormat(file: string): WorkflowBundleFormat | null {
+  return BUNDLE_EXTENSIONS[extname(file).toLowerCase()] ?? null;
+}
+
+function formatValidationErrors(errors: ValidationError[], path: string): string[] {
+  return errors.flatMap(error => {
+    const field = path ? `${path}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map(message => `${field}: ${message}`),
+      ...formatValidationErrors(error.children ?? [], field),
+    ];
+  });
+}
+
+function validateSpec(spec: unknown, path: string): string[] {
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    return [`${path || 'document'}: a workflow definition must be an object`];
+  }
+
+  // Unknown keys are rejected so typos in hand-written files don't go unnoticed
+  const errors = validateSync(plainToInstance(CreateWorkflowDto, spec), {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  return formatValidationErrors(errors, path);
+}
+
+/**
+ * Reads the workflows of a document: either a single workflow definition or
+ * a bundle of them under `workflows`.
+ */
+function readDocument(document: unknown, path: string, errors: string[]): WorkflowSpec[] {
+  const isBundle =
+    typeof document === 'object' &&
+    document !== null &&
+    Object.prototype.hasOwnProperty.call(document, 'workflows');
+  if (!isBundle) {
+    errors.push(...validateSpec(document, path));
+    return [document as WorkflowSpec];
+  }
+
+  const field = (key: string) => (path ? `${path}.${key}` : key);
+  const { workflows, ...rest } = document as Record<string, unknown>;
+  errors.push(...Object.keys(rest).map(key => `${field(key)}: unexpected bundle key`));
+  if (!Array.isArray(workflows)) {
+    errors.push(`${field('workflows')}: must be an array of workflow definitions`);
+    return [];
+  }
+
+  workflows.forEach((spec, index) => {
+    errors.push(...validateSpec(spec, field(`workflows.${index}`)));
+  });
+  return workflows;
+}
+
+/**
+ * Parses workflow definitions from YAML or JSON. A YAML stream may hold
+ * several documents, each a workflow definition or a bundle. Every
+ * definition is checked against the schema of `CreateWorkflowDto`; the
+ * workflow graph itself is validated when it is registered.
+ *
+ * @throws WorkflowBundleError if the content can't be parsed or a workflow is
+ * malformed
+ */
+export function parseWorkflowBundle(content: string, format: WorkflowBundleFormat): WorkflowBundle {
+  let documents: unknown[];
+
+  if (format === 'json') {
+    try {
+      documents = [JSON.parse(content)];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new WorkflowBundleError([`Invalid JSON: ${message}`]);
+    }
+  } else {
+    const parsedDocuments = parseAllDocuments(content);
+    const syntaxErrors = parsedDocuments.flatMap(document =>
+      document.errors.map(error => `Invalid YAML: ${error.message}`)
+    );
+    if (syntaxErrors.length > 0) {
+      throw new WorkflowBundleError(syntaxErrors);
+    }
+    documents = parsedDocuments.map(document => document.toJS()).filter(doc => doc != null);
+  }
+
+  const errors: string[] = [];
+  const workflows = documents.flatMap((document, index) =>
+    readDocument(document, documents.length > 1 ? `documents.${index}` : '', errors)
+  );
+  if (errors.length > 0) {
+    throw new WorkflowBundleError(errors);
+  }
+
+  return { workflows };
+}
+
+/**
+ * The bundle file form of a workflow: its definition without the id, with
+ * keys in a stable order so exported files diff cleanly.
+ */
+export function toWorkflowSpec(workflow: WorkflowDefinition): WorkflowSpec {
+  const spec: WorkflowSpec = {
+    name: workflow.name,
+    version: workflow.version,
+    description: workflow.description,
+    triggers: workflow.triggers,
+    steps: workflow.steps,
+    onCancel: workflow.onCancel,
+    maxConcurrency: workflow.maxConcurrency,
+    deadline: workflow.deadline,
+    metadata:
+      workflow.metadata && Object.keys(workflow.metadata).length > 0
+        ? workflow.metadata
+        : undefined,
+  };
+
+  return JSON.parse(JSON.stringify(spec));
+}
+
+export function serializeWorkflowBundle(
+  workflows: WorkflowDefinition[],
+  format: WorkflowBundleFormat
+): string {
+  const bundle: WorkflowBundle = { workflows: workflows.map(toWorkflowSpec) };
+  return format === 'json' ? `${JSON.stringify(bundle, null, 2)}\n` : stringify(bundle);
+}
+
+// Schemas generated from the DTOs, keyed by class name
+type SchemaDefinitions = ReturnType<typeof validationMetadatasToSchemas>;
+type SchemaObject = SchemaDefinitions[string];
+
+export interface WorkflowBundleSchema {
+  $schema: string;
+  title: string;
+  oneOf: SchemaObject[];
+  definitions: SchemaDefinitions;
+}
+
+let bundleSchema: WorkflowBundleSchema | undefined;
+
+/**
+ * JSON Schema of bundle files, derived from the validation rules of
+ * `CreateWorkflowDto` so it can't drift from what the API accepts. Editors
+ * can use it to check workflow files as they are written.
+ */
+export function getWorkflowBundleSchema(): WorkflowBundleSchema {
+  if (bundleSchema) {
+    return bundleSchema;
+  }
+
+  const schemas = validationMetadatasToSchemas({
+    classTransformerMetadataStorage: defaultMetadataStorage,
+    refPointerPrefix: '#/definitions/',
+  });
+
+  // Only the DTOs a workflow definition refers to
+  const definitions: SchemaDefinitions = {};
+  const include = (name: string) => {
+    if (definitions[name] || !schemas[name]) {
+      return;
+    }
+    definitions[name] = schemas[name];
+    for (const [, ref] of JSON.stringify(schemas[name]).matchAll(/"#\/definitions\/(\w+)"/g)) {
+      include(ref);
+    }
+  };
+  include(CreateWorkflowDto.name);
+
+  const workflow = { $ref: `#/definitions/${CreateWorkflowDto.name}` };
+  bundleSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'FlowForge workflow bundle',
+    oneOf: [
+      workflow,
+      {
+        type: 'object',
+        required: ['workflows'],
+        additionalProperties: false,
+        properties: { workflows: { type: 'array', items: workflow } },
+      },
+    ],
+    definitions,
+  };
+  return bundleSchema;
+}
@@ -0,0 +1,208 @@
+import {
+  StepEdge,
+  ValueChange,
+  WaitStepConfig,
+  WorkflowDefinition,
+  WorkflowDiff,
+  WorkflowStep,
+  WorkflowTrigger,
+} from '../types';
+
+// Compared as edges rather than as step fields
+const EDGE_FIELDS = new Set(['id', 'next', 'errorHandler']);
+const WORKFLOW_FIELDS = ['description', 'onCancel', 'maxConcurrency', 'deadline'] as const;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Differences between two values, down to the changed leaves of nested
+ * objects. Arrays are compared as a whole.
+ */
+function diffValues(from: unknown, to: unknown, path: string): ValueChange[] {
+  if (isEqual(from, to)) {
+    return [];
+  }
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    return Array.from(keys).flatMap(key =>
+      diffValues(from[key], to[key], path ? `${path}.${key}` : key)
+    );
+  }
+  return [{ path, from, to }];
+}
+
+function diffSteps(from: WorkflowStep, to: WorkflowStep): ValueChange[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return Array.from(keys)
+    .filter(key => !EDGE_FIELDS.has(key))
+    .flatMap(key => diffValues((from as any)[key], (to as any)[key], key));
+}
+
+function getEdges(definition: WorkflowDefinition): StepEdge[] {
+  return definition.steps.flatMap(step => [
+    ...(step.next || []).map(target => ({ from: step.id, to: target, kind: 'next' as const })),
+    ...(step.errorHandler
+      ? [{ from: step.id, to: step.errorHandler, kind: 'errorHandler' as const }]
+      : []),
+  ]);
+}
+
+const edgeKey = (edge: StepEdge) => `${edge.kind}:${edge.from}->${edge.to}`;
+const triggerKey = (trigger: WorkflowTrigger) => `${trigger.type}:${trigger.eventType}`;
+
+/**
+ * Compares two versions of a workflow. Steps are matched by id; a step that
+ * disappears while one with a new id but the same type and config appears is
+ * reported as renamed. Triggers are matched by start step and event type.
+ */
+export function diffWorkflows(from: WorkflowDefinition, to: WorkflowDefinition): WorkflowDiff {
+  const fromSteps = new Map(from.steps.map(step => [step.id, step]));
+  const toSteps = new Map(to.steps.map(step => [step.id, step]));
+
+  let added = to.steps.filter(step => !fromSteps.has(step.id));
+  let removed = from.steps.filter(step => !toSteps.has(step.id));
+  const renamed: Array<{ from: string; to: string }> = [];
+  for (const step of [...removed]) {
+    const match = added.find(
+      candidate => candidate.type === step.type && isEqual(candidate.config, step.config)
+    );
+    if (match) {
+      renamed.push({ from: step.id, to: match.id });
+      added = added.filter(candidate => candidate !== match);
+      removed = removed.filter(candidate => candidate !== step);
+    }
+  }
+
+  const changed: WorkflowDiff['steps']['changed'] = [];
+  const pairs: Array<[WorkflowStep, WorkflowStep]> = [
+    ...from.steps
+      .filter(step => toSteps.has(step.id))
+      .map(step => [step, toSteps.get(step.id)!] as [WorkflowStep, WorkflowStep]),
+    ...renamed.map(
+      ({ from: fromId, to: toId }) =>
+        [fromSteps.get(fromId)!, toSteps.get(toId)!] as [WorkflowStep, WorkflowStep]
+    ),
+  ];
+  for (const [before, after] of pairs) {
+    const changes = diffSteps(before, after);
+    if (changes.length > 0) {
+      changed.push({ stepId: after.id, changes });
+    }
+  }
+
+  const fromEdges = new Map(getEdges(from).map(edge => [edgeKey(edge), edge]));
+  const toEdges = new Map(getEdges(to).map(edge => [edgeKey(edge), edge]));
+
+  const fromTriggers = new Map(from.triggers.map(trigger => [triggerKey(trigger), trigger]));
+  const toTriggers = new Map(to.triggers.map(trigger => [triggerKey(trigger), trigger]));
+  const changedTriggers: WorkflowDiff['triggers']['changed'] = [];
+  for (const [key, trigger] of fromTriggers) {
+    const next = toTriggers.get(key);
+    const changes = next ? diffValues(trigger, next, '') : [];
+    if (changes.length > 0) {
+      changedTriggers.push({ type: trigger.type, eventType: trigger.eventType, changes });
+    }
+  }
+
+  const diff: WorkflowDiff = {
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    changes: WORKFLOW_FIELDS.flatMap(field => diffValues(from[field], to[field], field)),
+    steps: {
+      added: added.map(step => step.id),
+      removed: removed.map(step => step.id),
+      renamed,
+      changed,
+    },
+    edges: {
+      added: Array.from(toEdges.values()).filter(edge => !fromEdges.has(edgeKey(edge))),
+      removed: Array.from(fromEdges.values()).filter(edge => !toEdges.has(edgeKey(edge))),
+    },
+    triggers: {
+      added: Array.from(toTriggers.values()).filter(
+        trigger => !fromTriggers.has(triggerKey(trigger))
+      ),
+      removed: Array.from(fromTriggers.values()).filter(
+        trigger => !toTriggers.has(triggerKey(trigger))
+      ),
+      changed: changedTriggers,
+    },
+    breaking: false,
+    breakingChanges: [],
+  };
+
+  diff.breakingChanges = findBreakingChanges(diff, fromSteps, toSteps);
+  diff.breaking = diff.breakingChanges.length > 0;
+  return diff;
+}
+
+/**
+ * Whether a diff found any difference at all.
+ */
+export function hasChanges(diff: WorkflowDiff): boolean {
+  return (
+    diff.changes.length > 0 ||
+    [
+      ...Object.values(diff.steps),
+      ...Object.values(diff.edges),
+      ...Object.values(diff.triggers),
+    ].some(list => list.length > 0)
+  );
+}
+
+/**
+ * Changes an in-flight execution can't survive: its completed steps, pending
+ * waits or recorded transitions would no longer line up with the definition.
+ */
+function findBreakingChanges(
+  diff: WorkflowDiff,
+  fromSteps: Map<string, WorkflowStep>,
+  toSteps: Map<string, WorkflowStep>
+): string[] {
+  const reasons: string[] = [];
+
+  for (const stepId of diff.steps.removed) {
+    reasons.push(`Step ${stepId} was removed`);
+  }
+  for (const { from, to } of diff.steps.renamed) {
+    reasons.push(`Step ${from} was renamed to ${to}`);
+  }
+  for (const { stepId } of diff.steps.changed) {
+    const before = fromSteps.get(stepId);
+    const after = toSteps.get(stepId)!;
+    if (!before) {
+      continue;
+    }
+    if (before.type !== after.type) {
+      reasons.push(`Step ${stepId} changed type from ${before.type} to ${after.type}`);
+    } else if (after.type === 'wait') {
+      const [was, is] = [before.config as WaitStepConfig, after.config as WaitStepConfig];
+      if (was.signal !== is.signal || was.correlationKey !== is.correlationKey) {
+        reasons.push(`Wait step ${stepId} now waits for a different signal`);
+      }
+    }
+  }
+  for (const edge of diff.edges.removed) {
+    if (toSteps.has(edge.from)) {
+      reasons.push(`Step ${edge.from} no longer leads to ${edge.to} (${edge.kind})`);
+    }
+  }
+
+  return reasons;
+}
@@ -0,0 +1,1288 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WorkflowEngine } from './workflow-engine';
+import { WorkflowRegistry } from './workflow-registry';
+import { ActionRegistry } from './action-registry';
+import { StateManager } from './state-manager';
+import { ExpressionEngine } from './expression-engine';
+import { TimerService } from './timer-service';
+import { InMemoryExecutionQueue } from './execution-queue';
+import { StepJournal } from './step-journal';
+import { SignalService } from './signal-service';
+import {
+  SignalWait,
+  StepRun,
+  WorkflowAction,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowStep,
+  WorkflowTimer,
+} from '../types';
+
+// Stand-ins for the entities behind the injected services, which are replaced below
+jest.mock('../workflows/entities/workflow-definition.entity', () => ({
+  WorkflowDefinitionEntity: class {},
+}));
+jest.mock('../workflows/entities/workflow-execution.entity', () => ({
+  WorkflowExecutionEntity: class {},
+}));
+jest.mock('../workflows/entities/workflow-timer.entity', () => ({
+  WorkflowTimerEntity: class {},
+}));
+jest.mock('../workflows/entities/workflow-step-run.entity', () => ({
+  WorkflowStepRunEntity: class {},
+}));
+jest.mock('../workflows/entities/workflow-signal-wait.entity', () => ({
+  WorkflowSignalWaitEntity: class {},
+}));
+
+type JournalEntry = Pick<StepRun, 'id' | 'executionId' | 'stepId' | 'attempt' | 'status' | 'error'>;
+
+/**
+ * The engine's persistence kept in memory. Executions are stored as copies,
+ * as the database would, and timers, waits and resumptions are claimed with
+ * the same conditional updates the real services make.
+ */
+class Storage {
+  readonly executions = new Map<string, WorkflowExecution>();
+  readonly timers: WorkflowTimer[] = [];
+  readonly waits: (SignalWait & { resumed?: boolean })[] = [];
+  readonly runs: JournalEntry[] = [];
+  // Executions whose owner stopped sending heartbeats
+  readonly abandoned = new Set<string>();
+  onSuspend?: (run: JournalEntry) => void;
+
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  stateManager() {
+    return {
+      saveExecutionState: (execution: WorkflowExecution) => {
+        this.executions.set(execution.id, structuredClone(execution));
+        return Promise.resolve();
+      },
+      loadExecutionState: (executionId: string) => Promise.resolve(this.load(executionId)),
+      startQueuedExecution: (executionId: string, startedAt: Date) => {
+        const stored = this.executions.get(executionId);
+        if (stored?.status !== 'queued') {
+          return Promise.resolve(false);
+        }
+        Object.assign(stored, { status: 'pending', startedAt });
+        return Promise.resolve(true);
+      },
+      findChildExecutions: (parentId: string, statuses: WorkflowExecution['status'][]) =>
+        Promise.resolve(
+          [...this.executions.values()].filter(
+            execution =>
+              execution.parentExecutionId === parentId && statuses.includes(execution.status)
+          )
+        ),
+      requestCancellation: (executionId: string, cancellation: object) => {
+        Object.assign(this.executions.get(executionId) ?? {}, { cancellation });
+        return Promise.resolve(true);
+      },
+      heartbeat: () => Promise.resolve(),
+      findCancellationRequests: () => Promise.resolve(new Map()),
+      claimStaleExecutions: () => Promise.resolve(this.claimAbandoned(['pending', 'running'])),
+      claimOrphanedQueuedExecutions: async (
+        _staleBefore: Date,
+        isQueued: (executionId: string) => Promise<boolean>
+      ) => {
+        const orphaned: WorkflowExecution[] = [];
+        for (const execution of this.claimAbandoned(['queued'])) {
+          if (!(await isQueued(execution.id))) {
+            orphaned.push(execution);
+          }
+        }
+        return orphaned;
+      },
+    };
+  }
+
+  timerService() {
+    const move = (matches: (timer: WorkflowTimer) => boolean, status: WorkflowTimer['status']) => {
+      const moved = this.timers.filter(matches);
+      moved.forEach(timer => (timer.status = status));
+      return Promise.resolve(moved.length);
+    };
+
+    return {
+      schedule: (timer: Omit<WorkflowTimer, 'id' | 'status'>) => {
+        const scheduled = { ...timer, id: `timer-${this.timers.length + 1}`, status: 'pending' };
+        this.timers.push(scheduled as WorkflowTimer);
+        return Promise.resolve(scheduled);
+      },
+      release: (timerId: string) =>
+        move(timer => timer.id === timerId && timer.status === 'fired', 'pending'),
+      cancelForExecution: (executionId: string) =>
+        move(timer => timer.executionId === executionId && timer.status === 'pending', 'cancelled'),
+    };
+  }
+
+  signalService() {
+    const pending = (wait: SignalWait) => wait.status === 'pending';
+
+    return {
+      register: (wait: Omit<SignalWait, 'id' | 'status'>) => {
+        const registered: SignalWait = {
+          ...wait,
+          id: `wait-${this.waits.length + 1}`,
+          status: 'pending',
+        };
+        this.waits.push(registered);
+        return Promise.resolve({ ...registered });
+      },
+      getWait: (waitId: string) =>
+        Promise.resolve(this.waits.find(wait => wait.id === waitId) ?? null),
+      findPending: (signal: string, correlationKey: string) =>
+        Promise.resolve(
+          this.waits.filter(
+            wait =>
+              pending(wait) && wait.signal === signal && wait.correlationKey === correlationKey
+          )
+        ),
+      findPendingForExecution: (executionId: string, signal: string) =>
+        Promise.resolve(
+          this.waits.filter(
+            wait => pending(wait) && wait.executionId === executionId && wait.signal === signal
+          )
+        ),
+      findUnresumed: (executionId: string) =>
+        Promise.resolve(
+          this.waits.filter(
+            wait => wait.executionId === executionId && !pending(wait) && !wait.resumed
+          )
+        ),
+      resolve: (waitId: string, status: SignalWait['status'], payload?: Record<string, any>) => {
+        const wait = this.waits.find(candidate => candidate.id === waitId && pending(candidate));
+        Object.assign(wait ?? {}, { status, payload });
+        return Promise.resolve(Boolean(wait));
+      },
+      claimResumption: (waitId: string) => {
+        const wait = this.waits.find(
+          candidate =>
+            candidate.id === waitId &&
+            ['received', 'timed_out'].includes(candidate.status) &&
+            !candidate.resumed
+        );
+        Object.assign(wait ?? {}, { resumed: true });
+        return Promise.resolve(Boolean(wait));
+      },
+      cancel: (waitId: string) => {
+        const wait = this.waits.find(candidate => candidate.id === waitId && !candidate.resumed);
+        Object.assign(wait ?? {}, { status: 'cancelled' });
+        return Promise.resolve(Boolean(wait));
+      },
+      cancelForExecution: (executionId: string) => {
+        const cancelled = this.waits.filter(
+          wait => wait.executionId === executionId && pending(wait)
+        );
+        cancelled.forEach(wait => (wait.status = 'cancelled'));
+        return Promise.resolve(cancelled.length);
+      },
+    };
+  }
+
+  stepJournal() {
+    const finish = (run: JournalEntry, status: StepRun['status'], error?: Error) => {
+      Object.assign(run, { status, error: error?.message });
+      return Promise.resolve();
+    };
+
+    return {
+      start: (execution: WorkflowExecution, step: WorkflowStep, attempt: number) => {
+        const run: JournalEntry = {
+          id: `run-${this.runs.length + 1}`,
+          executionId: execution.id,
+          stepId: step.id,
+          attempt,
+          status: 'running',
+        };
+        this.runs.push(run);
+        return Promise.resolve(run);
+      },
+      complete: (run: JournalEntry) => finish(run, 'completed'),
+      fail: (run: JournalEntry, error: Error) => finish(run, 'failed', error),
+      suspend: (run: JournalEntry) => {
+        this.onSuspend?.(run);
+        return finish(run, 'waiting');
+      },
+      resume: (executionId: string, stepId: string, error?: Error) => {
+        const run = this.runs.find(
+          candidate =>
+            candidate.executionId === executionId &&
+            candidate.stepId === stepId &&
+            candidate.status === 'waiting'
+        );
+        return run ? finish(run, error ? 'failed' : 'completed', error) : Promise.resolve();
+      },
+      getStepRuns: (executionId: string) =>
+        Promise.resolve(this.runs.filter(run => run.executionId === executionId)),
+    };
+  }
+
+  /**
+   * Hands abandoned executions in one of the statuses to the first instance
+   * that claims them.
+   */
+  claimAbandoned(statuses: WorkflowExecution['status'][]): WorkflowExecution[] {
+    const claimed = [...this.abandoned]
+      .map(executionId => this.load(executionId))
+      .filter((execution): execution is WorkflowExecution =>
+        Boolean(execution && statuses.includes(execution.status))
+      );
+    claimed.forEach(execution => this.abandoned.delete(execution.id));
+    return claimed;
+  }
+
+  load(executionId: string): WorkflowExecution | null {
+    const stored = this.executions.get(executionId);
+    return stored ? structuredClone(stored) : null;
+  }
+
+  /**
+   * Fires a due timer the way the timer service's poll does.
+   */
+  fire(timer: WorkflowTimer): void {
+    timer.status = 'fired';
+    this.eventEmitter.emit('workflow.timer.fired', { ...timer });
+  }
+}
+
+const OUTCOMES = ['completed', 'failed', 'waiting', 'cancelled'].map(
+  status => `workflow.execution.${status}`
+);
+
+// Lets the listeners the engine started without awaiting run to their end
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkflowEngine', () => {
+  let eventEmitter: EventEmitter2;
+  let storage: Storage;
+  let workflows: Map<string, WorkflowDefinition>;
+  let actions: Record<string, WorkflowAction>;
+  let calls: { action: string; data: Record<string, any> }[];
+  let validationErrors: string[];
+  let engines: WorkflowEngine[];
+  let engine: WorkflowEngine;
+
+  /**
+   * Resolves with a snapshot of the execution of the workflow the next time
+   * it completes, fails, suspends or is cancelled; given a `status`, the next
+   * time it ends up in that one.
+   */
+  const settled = (workflowId = 'orders', status?: WorkflowExecution['status']) =>
+    new Promise<WorkflowExecution>(resolve => {
+      const listener = (event: string | string[], payload: { execution: WorkflowExecution }) => {
+        if (
+          OUTCOMES.includes(String(event)) &&
+          payload.execution.workflowId === workflowId &&
+          (!status || payload.execution.status === status)
+        ) {
+          eventEmitter.offAny(listener);
+          resolve(structuredClone(payload.execution));
+        }
+      };
+      eventEmitter.onAny(listener);
+    });
+
+  const start = async (
+    steps: WorkflowStep[],
+    context: Record<string, any> = {},
+    overrides: Partial<WorkflowDefinition> = {}
+  ) => {
+    workflows.set('orders', {
+      id: 'orders',
+      name: 'orders',
+      version: '1.0.0',
+      triggers: [{ type: steps[0].id, eventType: 'order.created' }],
+      steps,
+      metadata: {},
+      ...overrides,
+    });
+
+    const outcome = settled();
+    const execution = await engine.executeWorkflow(
+      'orders',
+      {
+        id: 'evt-1',
+        type: 'order.created',
+        data: {},
+        metadata: { source: 'test' },
+        timestamp: new Date(),
+      },
+      context
+    );
+    return { execution, outcome };
+  };
+
+  const run = async (...args: Parameters<typeof start>) => (await start(...args)).outcome;
+
+  const action = (id: string, next: string[] = [], extra: Partial<WorkflowStep> = {}) =>
+    ({
+      id,
+      name: id,
+      type: 'action',
+      config: { action: 'record' },
+      next,
+      ...extra,
+    }) as WorkflowStep;
+
+  /**
+   * Starts an engine instance on the shared storage, as another replica would.
+   */
+  const startEngine = () => {
+    const byName = (name: string) =>
+      [...workflows.values()].filter(definition => definition.name === name);
+    const workflowRegistry = {
+      getWorkflow: (id: string) => Promise.resolve(workflows.get(id) ?? null),
+      getWorkflowByName: (name: string, version: string) =>
+        Promise.resolve(byName(name).find(definition => definition.version === version) ?? null),
+      getLatestPublishedWorkflow: (name: string) => Promise.resolve(byName(name)[0] ?? null),
+      validateWorkflow: () =>
+        Promise.resolve({
+          isValid: validationErrors.length === 0,
+          errors: validationErrors,
+          warnings: [],
+        }),
+    };
+    const actionRegistry = { getHandler: (name: string) => actions[name] };
+    const configService = { get: (_key: string, defaultValue: unknown) => defaultValue };
+
+    const instance = new WorkflowEngine(
+      workflowRegistry as unknown as WorkflowRegistry,
+      actionRegistry as unknown as ActionRegistry,
+      storage.stateManager() as unknown as StateManager,
+      new ExpressionEngine(),
+      storage.timerService() as unknown as TimerService,
+      new InMemoryExecutionQueue(),
+      storage.stepJournal() as unknown as StepJournal,
+      storage.signalService() as unknown as SignalService,
+      configService as unknown as ConfigService,
+      eventEmitter
+    );
+    instance.onModuleInit();
+    engines.push(instance);
+    return instance;
+  };
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter2();
+    storage = new Storage(eventEmitter);
+    workflows = new Map();
+    calls = [];
+    validationErrors = [];
+    actions = {
+      record: {
+        execute: (config, context) => {
+          calls.push({ action: context.stepId, data: context.data });
+          return Promise.resolve({ success: true, data: { [context.stepId]: config } });
+        },
+      },
+    };
+    engines = [];
+    engine = startEngine();
+  });
+
+  afterEach(() => {
+    engines.forEach(instance => instance.onModuleDestroy());
+  });
+
+  describe('delay steps', () => {
+    const steps = [
+      action('reserve', ['cool-off']),
+      {
+        id: 'cool-off',
+        name: 'cool-off',
+        type: 'delay',
+        config: { duration: 60000 },
+        next: ['ship'],
+      },
+      action('ship'),
+    ] as WorkflowStep[];
+
+    it('suspend the execution on a durable timer and resume it when the timer fires', async () => {
+      const waiting = await run(steps);
+
+      expect(waiting.status).toBe('waiting');
+      expect(calls.map(call => call.action)).toEqual(['reserve']);
+      const [timer] = storage.timers;
+      expect(timer).toMatchObject({
+        executionId: waiting.id,
+        stepId: 'cool-off',
+        status: 'pending',
+      });
+      expect(timer.fireAt.getTime()).toBeGreaterThan(Date.now() + 59000);
+
+      const resumed = settled();
+      storage.fire(timer);
+
+      expect(await resumed).toMatchObject({
+        status: 'completed',
+        completedSteps: ['reserve', 'cool-off', 'ship'],
+      });
+      expect(calls.map(call => call.action)).toEqual(['reserve', 'ship']);
+      expect(storage.runs.map(({ stepId, status }) => `${stepId}:${status}`)).toEqual([
+        'reserve:completed',
+        'cool-off:completed',
+        'ship:completed',
+      ]);
+    });
+
+    it('skip the timer when the delay has already passed', async () => {
+      const passed = [...steps];
+      passed[1] = { ...passed[1], config: { until: 'order.notBefore' } };
+
+      const execution = await run(passed, { order: { notBefore: '2020-01-01T00:00:00Z' } });
+
+      expect(execution.status).toBe('completed');
+      expect(storage.timers).toEqual([]);
+    });
+
+    it('hand a timer that fired before its execution suspended back to be fired again', async () => {
+      const waiting = await run(steps);
+      const [timer] = storage.timers;
+      storage.executions.get(waiting.id)!.status = 'running';
+
+      storage.fire(timer);
+      await flush();
+
+      expect(timer.status).toBe('pending');
+      expect(storage.load(waiting.id)?.completedSteps).toEqual(['reserve']);
+    });
+
+    it('ignore a timer for a step the execution has moved past', async () => {
+      const twice = [...steps.slice(0, 2), { ...steps[1], id: 'settle' }, action('ship')];
+      twice[1] = { ...twice[1], next: ['settle'] };
+      twice[2] = { ...twice[2], next: ['ship'] };
+      const waiting = await run(twice);
+      const [coolOff] = storage.timers;
+      const resumed = settled();
+      storage.fire(coolOff);
+      await resumed;
+
+      storage.fire({ ...coolOff });
+      await flush();
+
+      expect(storage.load(waiting.id)).toMatchObject({
+        status: 'waiting',
+        completedSteps: ['reserve', 'cool-off'],
+      });
+      expect(storage.timers.map(timer => `${timer.stepId}:${timer.status}`)).toEqual([
+        'cool-off:fired',
+        'settle:pending',
+      ]);
+    });
+  });
+
+  describe('parallel steps', () => {
+    const fanOut = (join: string): WorkflowStep[] => [
+      action('reserve', ['fan-out']),
+      {
+        id: 'fan-out',
+        name: 'fan-out',
+        type: 'parallel',
+        config: { branches: ['pack', 'pick'], join },
+        next: ['ship'],
+      },
+      action('pick', [], { config: { action: 'record', bin: 'A1' } }),
+      action('pack', [], { config: { action: 'check-stock' } }),
+      action('ship'),
+    ];
+
+    beforeEach(() => {
+      actions['check-stock'] = {
+        execute: () => Promise.reject(new Error('Out of boxes')),
+      };
+    });
+
+    it('join the outputs of branches that ran in scopes of their own', async () => {
+      actions['check-stock'] = actions.record;
+
+      const execution = await run(fanOut('all'));
+
+      expect(execution.status).toBe('completed');
+      expect(calls.map(call => call.action)).toEqual(['reserve', 'pack', 'pick', 'ship']);
+      expect(execution.context.steps['fan-out'].output.branches).toEqual({
+        pick: { pick: { bin: 'A1' } },
+        pack: { pack: {} },
+      });
+      expect(Object.keys(execution.context.steps)).toEqual(['reserve', 'fan-out', 'ship']);
+    });
+
+    it('move on once the required branches succeeded', async () => {
+      const execution = await run(fanOut('any'));
+
+      expect(execution.status).toBe('completed');
+      expect(execution.context.steps['fan-out'].output.results).toMatchObject({
+        pick: { status: 'completed' },
+        pack: { status: 'failed', error: 'Out of boxes' },
+      });
+    });
+
+    it('fail the execution when too few branches succeeded', async () => {
+      const execution = await run(fanOut('all'));
+
+      expect(execution).toMatchObject({
+        status: 'failed',
+        error: 'Parallel step fan-out join failed: 1 of 2 branches succeeded, 2 required',
+      });
+      expect(calls.map(call => call.action)).not.toContain('ship');
+    });
+  });
+
+  describe('loop steps', () => {
+    const lines = [{ sku: 'A' }, { sku: 'B' }, { sku: 'C' }];
+    const eachLine = (config: Record<string, any>): WorkflowStep[] => [
+      {
+        id: 'each-line',
+        name: 'each-line',
+        type: 'loop',
+        config: { items: 'order.lines', itemVariable: 'line', body: 'pick', ...config },
+        next: ['ship'],
+      },
+      action('pick'),
+      action('ship'),
+    ];
+
+    it('run the body once per item with the item and its index', async () => {
+      const execution = await run(eachLine({ maxConcurrency: 2 }), { order: { lines } });
+
+      expect(execution.status).toBe('completed');
+      expect(calls.filter(call => call.action === 'pick').map(call => call.data)).toEqual([
+        expect.objectContaining({ line: { sku: 'A' }, index: 0 }),
+        expect.objectContaining({ line: { sku: 'B' }, index: 1 }),
+        expect.objectContaining({ line: { sku: 'C' }, index: 2 }),
+      ]);
+      expect(execution.context.steps['each-line'].output).toMatchObject({
+        completed: 3,
+        failed: 0,
+        broken: false,
+      });
+      expect(execution.context).not.toHaveProperty('line');
+    });
+
+    it('stop at the first item that meets the break condition', async () => {
+      const execution = await run(eachLine({ breakCondition: 'line.sku == "B"' }), {
+        order: { lines },
+      });
+
+      expect(execution.context.steps['each-line'].output).toMatchObject({
+        completed: 2,
+        broken: true,
+      });
+    });
+
+    it('fail on a failed item unless told to continue', async () => {
+      actions.record = {
+        execute: (_config, context) =>
+          context.data.line?.sku === 'B'
+            ? Promise.reject(new Error('Unknown sku'))
+            : Promise.resolve({ success: true }),
+      };
+
+      const failed = await run(eachLine({}), { order: { lines } });
+      const continued = await run(eachLine({ continueOnError: true }), { order: { lines } });
+
+      expect(failed).toMatchObject({
+        status: 'failed',
+        error: 'Loop step each-line failed on item(s) 1: Unknown sku',
+      });
+      expect(continued.status).toBe('completed');
+      expect(continued.context.steps['each-line'].output).toMatchObject({
+        completed: 2,
+        failed: 1,
+      });
+    });
+
+    it('repeat a while loop on what the previous iteration left in the context', async () => {
+      const steps: WorkflowStep[] = [
+        {
+          id: 'retry',
+          name: 'retry',
+          type: 'loop',
+          config: { mode: 'while', condition: 'attempts < 3', body: 'poll' },
+        },
+        action('poll', [], { output: { attempts: '$.context.attempts + 1' } }),
+      ];
+
+      const execution = await run(steps, { attempts: 0 });
+
+      expect(execution.status).toBe('completed');
+      expect(execution.context.attempts).toBe(3);
+      expect(calls.map(call => call.data.index)).toEqual([0, 1, 2]);
+    });
+
+    it('fail a while loop that exceeds its maximum iterations', async () => {
+      const steps: WorkflowStep[] = [
+        {
+          id: 'spin',
+          name: 'spin',
+          type: 'loop',
+          config: { mode: 'while', condition: 'true', body: 'poll', maxIterations: 5 },
+        },
+        action('poll'),
+      ];
+
+      const execution = await run(steps);
+
+      expect(execution.error).toBe('Loop step spin exceeded maxIterations 5');
+      expect(calls).toHaveLength(5);
+    });
+  });
+
+  describe('step graph', () => {
+    const order = () => calls.map(call => call.action);
+
+    it('skip the branch a condition did not take and still run the step both lead to', async () => {
+      const steps: WorkflowStep[] = [
+        {
+          id: 'route',
+          name: 'route',
+          type: 'condition',
+          config: {
+            branches: [{ when: 'order.total > 100', next: ['review'] }],
+            default: ['approve'],
+          },
+        },
+        action('review', ['notify']),
+        action('approve', ['notify']),
+        action('notify'),
+      ];
+
+      const large = await run(steps, { order: { total: 250 } });
+      const small = await run(steps, { order: { total: 20 } });
+
+      expect(large).toMatchObject({
+        completedSteps: ['route', 'review', 'notify'],
+        skippedSteps: ['approve'],
+      });
+      expect(small).toMatchObject({
+        completedSteps: ['route', 'approve', 'notify'],
+        skippedSteps: ['review'],
+      });
+      expect(order()).toEqual(['review', 'notify', 'approve', 'notify']);
+    });
+
+    it('hold a step back until its dependencies have been resolved', async () => {
+      const steps = [
+        action('receive', ['invoice', 'pick']),
+        action('invoice', ['ship']),
+        action('pick', ['pack']),
+        action('pack'),
+        action('ship', [], { dependencies: ['pack'] }),
+      ];
+
+      await run(steps);
+
+      expect(order()).toEqual(['receive', 'invoice', 'pick', 'pack', 'ship']);
+    });
+
+    it('follow the steps an action hands over to at run time', async () => {
+      actions.record = {
+        execute: (_config, context) => {
+          calls.push({ action: context.stepId, data: context.data });
+          return Promise.resolve({
+            success: true,
+            nextSteps: context.stepId === 'receive' ? ['escalate'] : undefined,
+          });
+        },
+      };
+
+      const execution = await run([
+        action('receive', ['pick']),
+        action('pick'),
+        action('escalate'),
+      ]);
+
+      expect(execution).toMatchObject({
+        completedSteps: ['receive', 'escalate'],
+        skippedSteps: ['pick'],
+      });
+    });
+
+    it('start from the triggers the event matches and skip what only the others lead to', async () => {
+      const steps = [
+        action('from-shop', ['fulfil']),
+        action('from-import', ['validate']),
+        action('validate', ['fulfil']),
+        action('fulfil'),
+      ];
+
+      const execution = await run(
+        steps,
+        {},
+        {
+          triggers: [
+            { type: 'from-shop', eventType: 'order.created' },
+            { type: 'from-import', eventType: 'order.imported' },
+          ],
+        }
+      );
+
+      expect(execution).toMatchObject({
+        completedSteps: ['from-shop', 'fulfil'],
+        skippedSteps: ['from-import', 'validate'],
+      });
+    });
+
+    it('refuse to start a workflow the registry finds invalid', async () => {
+      validationErrors = ['Workflow contains a cycle: pick -> pack -> pick'];
+
+      await expect(start([action('pick', ['pack']), action('pack', ['pick'])])).rejects.toThrow(
+        'Workflow validation failed: Workflow contains a cycle: pick -> pack -> pick'
+      );
+
+      expect(storage.executions.size).toBe(0);
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe('recovery', () => {
+    const steps = [action('reserve', ['charge']), action('charge', ['ship']), action('ship')];
+
+    const abandon = (execution: Partial<WorkflowExecution>) => {
+      workflows.set('orders', {
+        id: 'orders',
+        name: 'orders',
+        version: '1.0.0',
+        triggers: [{ type: 'reserve', eventType: 'order.created' }],
+        steps,
+        metadata: {},
+      });
+      storage.executions.set('exec-1', {
+        id: 'exec-1',
+        workflowId: 'orders',
+        context: { order: 42 },
+        startedAt: new Date(),
+        triggerEvent: {
+          id: 'evt-1',
+          type: 'order.created',
+          data: {},
+          metadata: { source: 'test' },
+          timestamp: new Date(),
+        },
+        ...execution,
+      } as WorkflowExecution);
+      storage.abandoned.add('exec-1');
+    };
+
+    it('resume an interrupted execution from its last checkpoint on another instance', async () => {
+      abandon({
+        status: 'running',
+        completedSteps: ['reserve', 'charge'],
+        skippedSteps: [],
+        transitions: { reserve: ['charge'], charge: ['ship'] },
+      });
+
+      const outcome = settled();
+      startEngine();
+
+      expect(await outcome).toMatchObject({
+        id: 'exec-1',
+        status: 'completed',
+        completedSteps: ['reserve', 'charge', 'ship'],
+      });
+      expect(calls.map(call => call.action)).toEqual(['ship']);
+    });
+
+    it('run the start steps again when the execution died before finishing them', async () => {
+      abandon({ status: 'pending' });
+
+      const outcome = settled();
+      startEngine();
+
+      expect((await outcome).status).toBe('completed');
+      expect(calls.map(call => call.action)).toEqual(['reserve', 'charge', 'ship']);
+    });
+
+    it('requeue a queued execution whose job was lost', async () => {
+      abandon({ status: 'queued' });
+
+      const outcome = settled();
+      const survivor = startEngine();
+
+      expect((await outcome).status).toBe('completed');
+      await flush();
+      expect(await survivor.getQueueStats()).toMatchObject({ queued: { total: 0 }, active: 0 });
+    });
+  });
+
+  describe('cancellation', () => {
+    const steps = [
+      action('reserve', ['hold']),
+      action('hold', ['ship'], { config: { action: 'hold' } }),
+      action('ship'),
+      action('release'),
+    ];
+
+    beforeEach(() => {
+      // Holds the execution until it is aborted
+      actions.hold = {
+        execute: (_config, context) =>
+          new Promise((_, reject) =>
+            context.signal?.addEventListener('abort', () => reject(new Error('Interrupted')))
+          ),
+      };
+    });
+
+    it('stop a running execution and run its cleanup step', async () => {
+      const { execution, outcome } = await start(steps, {}, { onCancel: 'release' });
+      await flush();
+
+      await engine.cancelExecution(execution.id, { reason: 'Customer changed their mind' });
+
+      expect(await outcome).toMatchObject({
+        status: 'cancelled',
+        error: 'Customer changed their mind',
+        completedSteps: ['reserve'],
+      });
+      expect(calls.map(call => call.action)).toEqual(['reserve', 'release']);
+      expect(storage.runs.find(entry => entry.stepId === 'hold')?.status).toBe('failed');
+    });
+
+    it('leave the cleanup step out when asked to', async () => {
+      const { execution, outcome } = await start(steps, {}, { onCancel: 'release' });
+      await flush();
+
+      await engine.cancelExecution(execution.id, { cleanup: false });
+
+      expect((await outcome).error).toBe('Execution cancelled');
+      expect(calls.map(call => call.action)).toEqual(['reserve']);
+    });
+
+    it('stop a waiting execution at once and cancel its timer', async () => {
+      const delayed: WorkflowStep[] = [
+        {
+          id: 'cool-off',
+          name: 'cool-off',
+          type: 'delay',
+          config: { duration: 60000 },
+          next: ['ship'],
+        },
+        action('ship'),
+        action('release'),
+      ];
+      const waiting = await run(delayed, {}, { onCancel: 'release' });
+
+      const cancelled = settled();
+      await engine.cancelExecution(waiting.id);
+
+      expect((await cancelled).status).toBe('cancelled');
+      expect(storage.timers.map(timer => timer.status)).toEqual(['cancelled']);
+      expect(calls.map(call => call.action)).toEqual(['release']);
+    });
+
+    it('take an execution nobody has started yet out of the queue', async () => {
+      const first = await start(steps, {}, { maxConcurrency: 1 });
+      const second = await start(steps, {}, { maxConcurrency: 1 });
+      await flush();
+
+      expect(storage.load(second.execution.id)?.status).toBe('queued');
+      await engine.cancelExecution(second.execution.id);
+
+      expect(storage.load(second.execution.id)?.status).toBe('cancelled');
+      expect(await engine.getQueueStats()).toMatchObject({ queued: { total: 0 }, active: 1 });
+
+      await engine.cancelExecution(first.execution.id);
+      await first.outcome;
+      expect(calls.map(call => call.action)).toEqual(['reserve']);
+    });
+
+    it('leave finished executions alone', async () => {
+      const completed = await run([action('reserve')]);
+
+      await engine.cancelExecution(completed.id);
+
+      expect(storage.load(completed.id)?.status).toBe('completed');
+    });
+  });
+
+  describe('timeouts, retries and deadlines', () => {
+    // Fails the first `failures` attempts of each step it runs
+    const flaky = (failures: number, error = () => new Error('Connection reset')) => {
+      const attempts = new Map<string, number>();
+      actions.record = {
+        execute: (_config, context) => {
+          const attempt = (attempts.get(context.stepId) ?? 0) + 1;
+          attempts.set(context.stepId, attempt);
+          return attempt <= failures
+            ? Promise.reject(error())
+            : Promise.resolve({ success: true, data: { [context.stepId]: { attempt } } });
+        },
+      };
+    };
+    const hang: WorkflowAction = {
+      execute: (_config, context) =>
+        new Promise((_, reject) =>
+          context.signal?.addEventListener('abort', () => reject(context.signal?.reason))
+        ),
+    };
+    const retryPolicy = { maxAttempts: 3, backoff: 'fixed' as const, delay: 1 };
+
+    it('retry a failing step according to its retry policy', async () => {
+      flaky(2);
+
+      const execution = await run([action('charge', [], { retryPolicy })]);
+
+      expect(execution.status).toBe('completed');
+      expect(execution.context.steps.charge.output).toEqual({ attempt: 3 });
+      expect(execution.stepAttempts?.charge).toMatchObject([
+        { attempt: 1, success: false, error: 'Connection reset', retryable: true, nextDelay: 1 },
+        { attempt: 2, success: false, retryable: true },
+        { attempt: 3, success: true },
+      ]);
+      expect(storage.runs.map(entry => `${entry.attempt}:${entry.status}`)).toEqual([
+        '1:failed',
+        '2:failed',
+        '3:completed',
+      ]);
+    });
+
+    it('give up once the attempts run out or the error is not retryable', async () => {
+      flaky(3);
+      const exhausted = await run([action('charge', [], { retryPolicy })]);
+
+      flaky(1, () => Object.assign(new Error('Card declined'), { code: 'DECLINED' }));
+      const aborted = await run([
+        action('charge', [], { retryPolicy: { ...retryPolicy, abortOn: ['DECLINED'] } }),
+      ]);
+
+      expect(exhausted).toMatchObject({ status: 'failed', error: 'Connection reset' });
+      expect(exhausted.stepAttempts?.charge).toHaveLength(3);
+      expect(aborted).toMatchObject({ status: 'failed', errorCode: 'DECLINED' });
+      expect(aborted.stepAttempts?.charge).toHaveLength(1);
+    });
+
+    it('time out each attempt of a step separately', async () => {
+      actions.hang = hang;
+
+      const execution = await run([
+        action('charge', [], {
+          config: { action: 'hang' },
+          timeout: 10,
+          retryPolicy: { ...retryPolicy, maxAttempts: 2, retryOn: ['STEP_TIMEOUT'] },
+        }),
+      ]);
+
+      expect(execution).toMatchObject({
+        status: 'failed',
+        error: 'Step charge timed out after 10ms',
+        errorCode: 'STEP_TIMEOUT',
+      });
+      expect(execution.stepAttempts?.charge.map(attempt => attempt.errorName)).toEqual([
+        'StepTimeoutError',
+        'StepTimeoutError',
+      ]);
+    });
+
+    it('fail a running execution once its deadline has passed', async () => {
+      actions.hang = hang;
+
+      const execution = await run(
+        [action('charge', [], { config: { action: 'hang' } })],
+        {},
+        {
+          deadline: 10,
+        }
+      );
+
+      expect(execution).toMatchObject({ status: 'failed', errorCode: 'DEADLINE_EXCEEDED' });
+      expect(execution.deadlineAt).toEqual(new Date(execution.startedAt.getTime() + 10));
+    });
+
+    it('wake a waiting execution at its deadline to fail it', async () => {
+      const steps: WorkflowStep[] = [
+        {
+          id: 'cool-off',
+          name: 'cool-off',
+          type: 'delay',
+          config: { duration: 60000 },
+          next: ['ship'],
+        },
+        action('ship'),
+      ];
+      const waiting = await run(steps, {}, { deadline: 10 });
+
+      const [timer] = storage.timers;
+      expect(timer.fireAt).toEqual(waiting.deadlineAt);
+
+      await new Promise(resolve => setTimeout(resolve, 15));
+      const failed = settled();
+      storage.fire(timer);
+
+      expect(await failed).toMatchObject({ status: 'failed', errorCode: 'DEADLINE_EXCEEDED' });
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe('wait steps', () => {
+    const awaitPayment = (config: Record<string, any>): WorkflowStep[] => [
+      {
+        id: 'payment',
+        name: 'payment',
+        type: 'wait',
+        config: { signal: 'payment.received', ...config },
+        next: ['ship'],
+      },
+      action('ship'),
+      action('remind'),
+    ];
+    const publish = (correlationId?: string) =>
+      eventEmitter.emit('event.published', {
+        id: 'evt-2',
+        type: 'payment.received',
+        data: { amount: 99 },
+        metadata: { source: 'payments' },
+        timestamp: new Date(),
+        correlationId,
+      });
+
+    it('resume with the payload of a published event carrying its correlation key', async () => {
+      const waiting = await run(awaitPayment({ correlationKey: 'order.id' }), {
+        order: { id: 'order-42' },
+      });
+      expect(waiting.status).toBe('waiting');
+
+      const resumed = settled();
+      publish('order-41');
+      publish();
+      await flush();
+      expect(storage.load(waiting.id)?.status).toBe('waiting');
+
+      publish('order-42');
+
+      const execution = await resumed;
+      expect(execution).toMatchObject({
+        status: 'completed',
+        completedSteps: ['payment', 'ship'],
+      });
+      expect(execution.context.steps.payment.output).toEqual({ amount: 99 });
+      expect(storage.runs.find(entry => entry.stepId === 'payment')?.status).toBe('completed');
+    });
+
+    it('only resume a wait without a correlation key through its own execution', async () => {
+      const waiting = await run(awaitPayment({}));
+
+      publish(waiting.id);
+      await flush();
+      expect(storage.load(waiting.id)?.status).toBe('waiting');
+
+      const resumed = settled();
+      expect(await engine.signalExecution(waiting.id, 'payment.received', { amount: 10 })).toBe(
+        true
+      );
+      expect(await engine.signalExecution(waiting.id, 'payment.received')).toBe(false);
+
+      expect((await resumed).context.steps.payment.output).toEqual({ amount: 10 });
+    });
+
+    it('take the timeout branch when no signal arrives in time', async () => {
+      const waiting = await run(awaitPayment({ timeout: 60000, onTimeout: ['remind'] }));
+      const [timer] = storage.timers;
+      expect(timer).toMatchObject({ stepId: 'payment', payload: { waitId: 'wait-1' } });
+
+      const resumed = settled();
+      storage.fire(timer);
+
+      expect(await resumed).toMatchObject({
+        id: waiting.id,
+        status: 'completed',
+        completedSteps: ['payment', 'remind'],
+        skippedSteps: ['ship'],
+      });
+      expect(storage.waits[0].status).toBe('timed_out');
+    });
+
+    it('fail on a timeout without a timeout branch, unless the signal came first', async () => {
+      const timedOut = await run(awaitPayment({ timeout: 60000 }));
+      const failed = settled();
+      storage.fire(storage.timers[0]);
+
+      expect(await failed).toMatchObject({ id: timedOut.id, errorCode: 'SIGNAL_TIMEOUT' });
+
+      const signalled = await run(awaitPayment({ timeout: 60000 }));
+      const completed = settled();
+      await engine.signalExecution(signalled.id, 'payment.received');
+      await completed;
+      storage.fire(storage.timers[1]);
+      await flush();
+
+      expect(storage.load(signalled.id)?.status).toBe('completed');
+    });
+
+    it('resume from a signal that arrived while the execution was still suspending', async () => {
+      // Resolved after the wait step suspended, before the execution was saved as waiting
+      storage.onSuspend = () =>
+        Object.assign(storage.waits[0], { status: 'received', payload: {} });
+
+      const completed = new Promise(resolve =>
+        eventEmitter.once('workflow.execution.completed', resolve)
+      );
+
+      const execution = await run(awaitPayment({ correlationKey: 'order.id' }), {
+        order: { id: 'order-42' },
+      });
+
+      expect(execution.status).toBe('waiting');
+      expect(await completed).toMatchObject({ execution: { id: execution.id } });
+    });
+  });
+
+  describe('sub-workflow steps', () => {
+    const invoice = (config: Record<string, any> = {}): WorkflowStep[] => [
+      action('reserve', ['invoice']),
+      {
+        id: 'invoice',
+        name: 'invoice',
+        type: 'subworkflow',
+        config: { workflow: 'invoicing', input: { orderId: 'order.id' }, ...config },
+        next: ['ship'],
+      },
+      action('ship'),
+    ];
+
+    beforeEach(() => {
+      workflows.set('invoicing-v1', {
+        id: 'invoicing-v1',
+        name: 'invoicing',
+        version: '1.0.0',
+        triggers: [{ type: 'bill', eventType: 'invoice.requested' }],
+        steps: [action('bill')],
+        metadata: {},
+      });
+    });
+
+    it('wait for the child and continue with its outcome', async () => {
+      const completed = settled('orders', 'completed');
+
+      const waiting = await run(invoice(), { order: { id: 42 } });
+      const execution = await completed;
+
+      expect(waiting.status).toBe('waiting');
+      expect(calls.map(call => call.action)).toEqual(['reserve', 'bill', 'ship']);
+      expect(execution.context.steps.invoice.output).toMatchObject({
+        status: 'completed',
+        context: { orderId: 42 },
+      });
+      const child = storage.load(execution.context.steps.invoice.output.executionId);
+      expect(child).toMatchObject({
+        workflowId: 'invoicing-v1',
+        parentExecutionId: execution.id,
+        parentStepId: 'invoice',
+        triggerEvent: { type: 'invoice.requested', data: { orderId: 42 } },
+      });
+    });
+
+    it('fail the step when the child did not complete', async () => {
+      actions.bill = { execute: () => Promise.reject(new Error('Billing is down')) };
+      workflows.get('invoicing-v1')!.steps = [action('bill', [], { config: { action: 'bill' } })];
+      const failed = settled('orders', 'failed');
+
+      await run(invoice(), { order: { id: 42 } });
+
+      expect(await failed).toMatchObject({
+        errorCode: 'SUBWORKFLOW_FAILED',
+        error: expect.stringContaining('failed: Billing is down'),
+      });
+    });
+
+    it('move on at once when detached', async () => {
+      const execution = await run(invoice({ mode: 'detach', version: '1.0.0' }), {
+        order: { id: 42 },
+      });
+
+      expect(execution.status).toBe('completed');
+      expect(execution.context.steps.invoice.output).toEqual({
+        executionId: expect.stringMatching(/^exec_/),
+      });
+      expect(storage.waits).toEqual([]);
+    });
+
+    it('cancel the child along with its parent', async () => {
+      actions.hold = {
+        execute: (_config, context) =>
+          new Promise((_, reject) =>
+            context.signal?.addEventListener('abort', () => reject(new Error('Interrupted')))
+          ),
+      };
+      workflows.get('invoicing-v1')!.steps = [action('bill', [], { config: { action: 'hold' } })];
+      const childCancelled = settled('invoicing-v1', 'cancelled');
+
+      const waiting = await run(invoice(), { order: { id: 42 } });
+      await engine.cancelExecution(waiting.id, { reason: 'Order withdrawn' });
+
+      expect(await childCancelled).toMatchObject({
+        parentExecutionId: waiting.id,
+        error: `Parent execution ${waiting.id} cancelled`,
+      });
+    });
+  });
+
+  describe('input and output mapping', () => {
+    beforeEach(() => {
+      actions.quote = {
+        execute: (_config, context) => {
+          calls.push({ action: context.stepId, data: context.data });
+          return Promise.resolve({
+            success: true,
+            data: { quote: { price: 120, currency: 'EUR' }, carrier: 'dhl' },
+          });
+        },
+      };
+    });
+
+    const quote = (extra: Partial<WorkflowStep>) =>
+      action('quote', ['book'], { config: { action: 'quote' }, ...extra });
+
+    it('keep a result out of the context unless mapped, but always under steps', async () => {
+      const execution = await run([quote({}), action('book')], { order: { id: 42 } });
+
+      expect(execution.context).toEqual({
+        order: { id: 42 },
+        steps: {
+          quote: { output: { price: 120, currency: 'EUR' } },
+          book: { output: {} },
+        },
+      });
+    });
+
+    it('write the keys of an output mapping into the context', async () => {
+      const execution = await run(
+        [
+          quote({ output: { price: '$.output.price', orderId: '$.context.order.id' } }),
+          action('book'),
+        ],
+        { order: { id: 42 } }
+      );
+
+      expect(execution.context).toMatchObject({ price: 120, orderId: 42 });
+      expect(execution.context).not.toHaveProperty('quote');
+    });
+
+    it('merge the whole result into the context for steps that opt in', async () => {
+      const execution = await run([quote({ mergeOutput: true }), action('book')]);
+
+      expect(execution.context).toMatchObject({
+        quote: { price: 120, currency: 'EUR' },
+        carrier: 'dhl',
+      });
+    });
+
+    it('hand a step with an input mapping only what it maps', async () => {
+      await run(
+        [
+          quote({}),
+          action('book', [], {
+            input: { amount: '$.steps.quote.output.price', event: '$.trigger.type' },
+          }),
+        ],
+        { order: { id: 42 } }
+      );
+
+      expect(calls.find(call => call.action === 'book')?.data).toEqual({
+        amount: 120,
+        event: 'order.created',
+      });
+    });
+  });
+});
@@ -1,34 +1,176 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { 
-  WorkflowDefinition, 
-  WorkflowExecution, 
-  WorkflowContext, 
+import {
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowContext,
   StepResult,
-  Event 
+  Event,
+  WorkflowTrigger,
+  WorkflowStep,
+  StepAttempt,
+  ParallelStepConfig,
+  BranchResult,
+  LoopStepConfig,
+  LoopIterationResult,
+  DelayStepConfig,
+  ConditionStepConfig,
+  WorkflowTimer,
+  StepRun,
+  WaitStepConfig,
+  SignalWait,
+  SubWorkflowStepConfig,
 } from '../types';
 import { WorkflowRegistry } from './workflow-registry';
-import { StepExecutor } from './step-executor';
+import { assertExecutable } from './workflow-lifecycle';
+import { ExpressionEngine, buildEventScope } from './expression-engine';
+import { NonRetryableError, calculateRetryDelay, isRetryableError, sleep } from './retry-policy';
+import { ActionRegistry, getActionInput } from './action-registry';
 import { StateManager } from './state-manager';
-import { WorkflowValidator } from './workflow-validator';
+import { TimerService } from './timer-service';
+import { StepGraph, buildStepGraph } from './step-graph';
+import { STEP_OUTPUTS_KEY, applyMapping, getStepOutput, recordStepOutput } from './data-mapping';
+import { ExecutionJob, ExecutionQueue, ExecutionQueueStats } from './execution-queue';
+import {
+  DeadlineExceededError,
+  SignalTimeoutError,
+  StepTimeoutError,
+  withTimeout,
+} from './timeouts';
+import { StepJournal } from './step-journal';
+import { SignalService } from './signal-service';
+
+/**
+ * Where a step reads its input from and merges its output into. Steps running
+ * inside a parallel branch get their own scope so siblings can't clobber each
+ * other's results.
+ */
+interface StepScope {
+  context: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_LOOP_ITERATIONS = 1000;
+
+/**
+ * Unwinds the step loop when an execution has to wait for something outside
+ * the process (e.g. a durable timer). The execution is persisted as `waiting`
+ * and picked up again when the awaited thing happens.
+ */
+class ExecutionSuspendedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutionSuspendedError';
+  }
+}
+
+/**
+ * Unwinds the step loop once an execution's abort signal has fired.
+ */
+class ExecutionCancelledError extends Error {
+  constructor(executionId: string) {
+    super(`Execution ${executionId} was cancelled`);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+/**
+ * Fails a sub-workflow step whose child execution did not complete.
+ */
+class SubWorkflowFailedError extends Error {
+  readonly code = 'SUBWORKFLOW_FAILED';
+
+  constructor(stepId: string, childExecutionId: string, status: string, reason?: string) {
+    super(
+      `Sub-workflow step ${stepId}: child execution ${childExecutionId} ${status}${reason ? `: ${reason}` : ''}`
+    );
+    this.name = 'SubWorkflowFailedError';
+  }
+}
+
+// Signal a child execution sends to the wait its parent registered for it
+const CHILD_FINISHED_SIGNAL = 'workflow.child.finished';
+const UNFINISHED_STATUSES: WorkflowExecution['status'][] = [
+  'queued',
+  'pending',
+  'running',
+  'waiting',
+];
 
 @Injectable()
-export class WorkflowEngine {
+export class WorkflowEngine implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(WorkflowEngine.name);
   private readonly executions = new Map<string, WorkflowExecution>();
+  private readonly abortControllers = new Map<string, AbortController>();
+  private heartbeatHandle?: NodeJS.Timeout;
+  private queueHandle?: NodeJS.Timeout;
+  private draining = false;
+  private drainRequested = false;
+  private activeWorkers = 0;
+  private readonly activeByWorkflow = new Map<string, number>();
 
   constructor(
     private readonly workflowRegistry: WorkflowRegistry,
-    private readonly stepExecutor: StepExecutor,
+    private readonly actionRegistry: ActionRegistry,
     private readonly stateManager: StateManager,
-    private readonly validator: WorkflowValidator,
-    private readonly eventEmitter: EventEmitter2,
+    private readonly expressionEngine: ExpressionEngine,
+    private readonly timerService: TimerService,
+    private readonly executionQueue: ExecutionQueue,
+    private readonly stepJournal: StepJournal,
+    private readonly signalService: SignalService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2
   ) {}
 
+  onModuleInit() {
+    this.eventEmitter.on('workflow.timer.fired', (timer: WorkflowTimer) => {
+      void this.handleTimerFired(timer);
+    });
+    this.eventEmitter.on('event.published', (event: Event) => {
+      void this.handleSignalEvent(event);
+    });
+
+    // Keep our executions' heartbeats fresh and adopt the ones whose owner died
+    const interval = Number(this.configService.get('EXECUTION_HEARTBEAT_INTERVAL_MS', 15000));
+    this.heartbeatHandle = setInterval(() => void this.maintainExecutions(), interval);
+
+    void this.recoverExecutions();
+
+    // Also pick up work other instances enqueued
+    const pollInterval = Number(this.configService.get('EXECUTION_QUEUE_POLL_INTERVAL_MS', 1000));
+    this.queueHandle = setInterval(() => void this.drainQueue(), pollInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.heartbeatHandle) {
+      clearInterval(this.heartbeatHandle);
+      this.heartbeatHandle = undefined;
+    }
+    if (this.queueHandle) {
+      clearInterval(this.queueHandle);
+      this.queueHandle = undefined;
+    }
+  }
+
+  /**
+   * Persists a new execution as `queued` and hands it to the execution queue.
+   * Returns as soon as it is enqueued; a worker runs it once the worker pool
+   * and the workflow's `maxConcurrency` leave room, higher priorities first.
+   * Both limits apply per instance: N instances may run up to N times
+   * `maxConcurrency` executions of a workflow at once.
+   */
   async executeWorkflow(
     workflowId: string,
     triggerEvent: Event,
-    context?: Record<string, any>
+    context?: Record<string, any>,
+    options: { priority?: number; parent?: { executionId: string; stepId: string } } = {}
   ): Promise<WorkflowExecution> {
     try {
       // Get workflow definition
@@ -37,29 +179,58 @@ export class WorkflowEngine {
         throw new Error(`Workflow ${workflowId} not found`);
       }
 
-      // Validate workflow
-      const validation = await this.validator.validateWorkflow(definition);
+      // Drafts and archived versions can't start; deprecated ones start with a warning
+      const warnings = assertExecutable(definition);
+      for (const warning of warnings) {
+        this.logger.warn(warning);
+      }
+
+      // Validate workflow with the same graph, mapping and action checks as the registry
+      const validation = await this.workflowRegistry.validateWorkflow(definition);
       if (!validation.isValid) {
         throw new Error(`Workflow validation failed: ${validation.errors.join(', ')}`);
       }
 
-      // Create execution
+      // Create execution, pinned to this exact definition version
       const execution: WorkflowExecution = {
         id: this.generateExecutionId(),
         workflowId,
-        status: 'pending',
+        workflowVersion: definition.version,
+        status: 'queued',
         context: context || {},
+        triggerEvent,
         startedAt: new Date(),
+        parentExecutionId: options.parent?.executionId,
+        parentStepId: options.parent?.stepId,
+        priority: options.priority ?? 0,
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
 
-      this.executions.set(execution.id, execution);
-      this.logger.log(`Starting workflow execution ${execution.id} for workflow ${workflowId}`);
+      await this.stateManager.saveExecutionState(execution);
 
-      // Emit execution started event
-      this.eventEmitter.emit('workflow.execution.started', { execution, triggerEvent });
+      try {
+        await this.executionQueue.enqueue({
+          executionId: execution.id,
+          workflowId,
+          priority: options.priority ?? 0,
+          maxConcurrency: definition.maxConcurrency,
+          enqueuedAt: new Date(),
+        });
+      } catch (error) {
+        // Nothing would ever pick a queued execution up
+        execution.status = 'failed';
+        execution.error = `Failed to enqueue execution: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        execution.completedAt = new Date();
+        await this.saveFinalState(execution);
+        throw error;
+      }
+
+      this.logger.log(`Queued workflow execution ${execution.id} for workflow ${workflowId}`);
+      this.eventEmitter.emit('workflow.execution.queued', { execution, triggerEvent });
 
-      // Execute workflow
-      await this.executeWorkflowSteps(execution, definition, triggerEvent);
+      void this.drainQueue();
 
       return execution;
     } catch (error) {
@@ -68,45 +239,337 @@ export class WorkflowEngine {
     }
   }
 
+  async getQueueStats(): Promise<ExecutionQueueStats> {
+    return {
+      queued: await this.executionQueue.depth(),
+      active: this.activeWorkers,
+      activeByWorkflow: Object.fromEntries(this.activeByWorkflow),
+      workers: this.getWorkerCount(),
+    };
+  }
+
+  /**
+   * Claims queued executions while the worker pool has free slots. Jobs whose
+   * workflow is already running `maxConcurrency` executions on this instance
+   * are left in the queue for later.
+   */
+  private async drainQueue(): Promise<void> {
+    // Work enqueued mid-drain might have been missed; drain again once this one is done
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+    this.draining = true;
+    this.drainRequested = false;
+
+    try {
+      while (this.activeWorkers < this.getWorkerCount()) {
+        const job = await this.executionQueue.claim(candidate => this.hasCapacityFor(candidate));
+        if (!job) {
+          break;
+        }
+
+        // Take the slot before starting, so the next claim sees it
+        this.activeWorkers++;
+        this.activeByWorkflow.set(
+          job.workflowId,
+          (this.activeByWorkflow.get(job.workflowId) ?? 0) + 1
+        );
+
+        void this.runQueuedExecution(job);
+      }
+    } catch (error) {
+      this.logger.error('Failed to claim queued executions:', error);
+    } finally {
+      this.draining = false;
+    }
+
+    if (this.drainRequested) {
+      void this.drainQueue();
+    }
+  }
+
+  private async runQueuedExecution(job: ExecutionJob): Promise<void> {
+    let execution: WorkflowExecution | null = null;
+    let started = false;
+
+    try {
+      execution = await this.stateManager.loadExecutionState(job.executionId);
+      if (!execution || execution.status !== 'queued') {
+        this.logger.warn(`Skipping queued execution ${job.executionId}: it is no longer queued`);
+        return;
+      }
+
+      const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+      if (!definition) {
+        throw new Error(`Workflow ${execution.workflowId} not found`);
+      }
+
+      // Owned by this instance from here on, so recovery can take over if it dies
+      const startedAt = new Date();
+      if (!(await this.stateManager.startQueuedExecution(execution.id, startedAt))) {
+        this.logger.warn(`Skipping queued execution ${job.executionId}: it was already started`);
+        return;
+      }
+      started = true;
+      execution.status = 'pending';
+      execution.startedAt = startedAt;
+      this.executions.set(execution.id, execution);
+      this.logger.log(
+        `Starting workflow execution ${execution.id} for workflow ${execution.workflowId}`
+      );
+
+      // Emit execution started event
+      this.eventEmitter.emit('workflow.execution.started', {
+        execution,
+        triggerEvent: execution.triggerEvent,
+      });
+
+      await this.executeWorkflowSteps(execution, definition, execution.triggerEvent!);
+    } catch (error) {
+      this.logger.error(`Queued execution ${job.executionId} failed:`, error);
+
+      // Its job has left the queue, so nothing else would ever start it
+      if (execution && !started) {
+        execution.status = 'failed';
+        execution.error = `Failed to start execution: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        execution.completedAt = new Date();
+        await this.saveFinalState(execution);
+      }
+    } finally {
+      this.activeWorkers--;
+      const active = (this.activeByWorkflow.get(job.workflowId) ?? 1) - 1;
+      if (active > 0) {
+        this.activeByWorkflow.set(job.workflowId, active);
+      } else {
+        this.activeByWorkflow.delete(job.workflowId);
+      }
+
+      void this.drainQueue();
+    }
+  }
+
+  private hasCapacityFor(job: ExecutionJob): boolean {
+    if (!job.maxConcurrency) {
+      return true;
+    }
+    return (this.activeByWorkflow.get(job.workflowId) ?? 0) < job.maxConcurrency;
+  }
+
+  private getWorkerCount(): number {
+    return Math.max(1, Number(this.configService.get('EXECUTION_WORKER_CONCURRENCY', 10)));
+  }
+
   private async executeWorkflowSteps(
     execution: WorkflowExecution,
     definition: WorkflowDefinition,
     triggerEvent: Event
   ): Promise<void> {
-    try {
-      execution.status = 'running';
-      
+    await this.runExecution(execution, definition, async () => {
       // Find starting steps (triggers)
       const startSteps = this.findStartSteps(definition, triggerEvent);
       if (startSteps.length === 0) {
         throw new Error('No matching trigger steps found');
       }
 
-      // Execute starting steps
+      // Trigger entry points this event didn't match are skipped along with what only they lead to
+      for (const root of buildStepGraph(definition).roots) {
+        if (!startSteps.includes(root)) {
+          this.markStepResolved(execution, root, 'skipped');
+        }
+      }
+
+      // Execute starting steps, unless the walk from an earlier one already ran them
       for (const step of startSteps) {
+        if (execution.completedSteps?.includes(step)) {
+          continue;
+        }
+        await this.executeStep(execution, definition, step, triggerEvent);
+      }
+    });
+  }
+
+  /**
+   * Continues an execution from its last checkpoint: start steps that never
+   * completed are run again with the trigger event, then the graph walk picks
+   * up at the steps that were ready when the checkpoint was taken.
+   */
+  private async resumeExecution(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition
+  ): Promise<void> {
+    const triggerEvent = execution.triggerEvent;
+    const resolved = [...(execution.completedSteps || []), ...(execution.skippedSteps || [])];
+
+    await this.runExecution(execution, definition, async () => {
+      const startSteps = triggerEvent ? this.findStartSteps(definition, triggerEvent) : [];
+      for (const step of startSteps.filter(stepId => !resolved.includes(stepId))) {
         await this.executeStep(execution, definition, step, triggerEvent);
       }
+    });
+  }
+
+  private async resumeAfterStep(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    stepId: string
+  ): Promise<void> {
+    const step = definition.steps.find(s => s.id === stepId);
+
+    await this.runExecution(execution, definition, async () => {
+      await this.stepJournal.resume(execution.id, stepId);
+      this.markStepResolved(execution, stepId, 'completed', step?.next ?? []);
+    });
+  }
+
+  private async runExecution(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    run: () => Promise<void>
+  ): Promise<void> {
+    const controller = new AbortController();
+    this.abortControllers.set(execution.id, controller);
+
+    // A cancellation requested while nothing was running this execution
+    if (execution.cancellation) {
+      controller.abort();
+    }
+
+    // Fixed when the execution first runs, so resumed executions keep the same deadline
+    if (definition.deadline && !execution.deadlineAt) {
+      execution.deadlineAt = new Date(execution.startedAt.getTime() + definition.deadline);
+    }
+
+    let deadlineHandle: NodeJS.Timeout | undefined;
+    if (execution.deadlineAt && !controller.signal.aborted) {
+      const deadlineAt = new Date(execution.deadlineAt);
+      const exceeded = () => controller.abort(new DeadlineExceededError(execution.id, deadlineAt));
+      const remaining = deadlineAt.getTime() - Date.now();
+
+      if (remaining <= 0) {
+        exceeded();
+      } else {
+        deadlineHandle = setTimeout(exceeded, remaining);
+      }
+    }
+
+    try {
+      // Until a resumed execution is saved as running, a timer or signal for
+      // its next suspension would find it still waiting and resume it twice
+      const resuming = execution.status === 'waiting';
+      execution.status = 'running';
+      if (resuming) {
+        await this.stateManager.saveExecutionState(execution);
+      }
+
+      await run();
 
       // Continue with next steps
       await this.processNextSteps(execution, definition);
 
+      // A step that ignored the abort signal may still have finished normally
+      if (controller.signal.aborted) {
+        throw new ExecutionCancelledError(execution.id);
+      }
+
       execution.status = 'completed';
       execution.completedAt = new Date();
       execution.duration = execution.completedAt.getTime() - execution.startedAt.getTime();
+      await this.saveFinalState(execution);
 
       this.logger.log(`Workflow execution ${execution.id} completed successfully`);
       this.eventEmitter.emit('workflow.execution.completed', { execution });
-
     } catch (error) {
+      if (error instanceof ExecutionSuspendedError && !controller.signal.aborted) {
+        execution.status = 'waiting';
+        await this.stateManager.saveExecutionState(execution);
+        this.executions.delete(execution.id);
+
+        this.logger.log(`Workflow execution ${execution.id} suspended: ${error.message}`);
+        this.eventEmitter.emit('workflow.execution.waiting', { execution, reason: error.message });
+
+        // A signal may have arrived while the execution was still suspending
+        void this.resumeResolvedWaits(execution.id);
+        return;
+      }
+
+      // A missed deadline fails the execution, whatever the aborted step threw
+      const deadline = controller.signal.reason;
+      if (deadline instanceof DeadlineExceededError) {
+        await this.releaseSuspensions(execution);
+      } else if (controller.signal.aborted) {
+        // Otherwise the execution stopped because it was cancelled
+        await this.finishCancellation(execution, definition);
+        return;
+      }
+      const failure = deadline instanceof DeadlineExceededError ? deadline : error;
+
       execution.status = 'failed';
-      execution.error = error.message;
+      execution.error = failure instanceof Error ? failure.message : String(failure);
+      execution.errorCode = (failure as { code?: string } | undefined)?.code;
       execution.completedAt = new Date();
       execution.duration = execution.completedAt.getTime() - execution.startedAt.getTime();
+      await this.saveFinalState(execution);
 
-      this.logger.error(`Workflow execution ${execution.id} failed:`, error);
-      this.eventEmitter.emit('workflow.execution.failed', { execution, error });
-      
-      throw error;
+      this.logger.error(`Workflow execution ${execution.id} failed:`, failure);
+      this.eventEmitter.emit('workflow.execution.failed', { execution, error: failure });
+
+      throw failure;
+    } finally {
+      clearTimeout(deadlineHandle);
+      this.abortControllers.delete(execution.id);
+    }
+  }
+
+  /**
+   * Marks a stopped execution as cancelled, cancels its pending timers and runs
+   * the workflow's `onCancel` cleanup steps unless the request opted out.
+   * The cancelled event is only emitted from here, after work has stopped.
+   */
+  private async finishCancellation(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition | null
+  ): Promise<void> {
+    // Cleanup steps run without the aborted signal
+    this.abortControllers.delete(execution.id);
+
+    execution.status = 'cancelled';
+    execution.error = execution.cancellation?.reason ?? 'Execution cancelled';
+    execution.completedAt = new Date();
+    execution.duration = execution.completedAt.getTime() - execution.startedAt.getTime();
+
+    await this.releaseSuspensions(execution);
+
+    if (definition?.onCancel && execution.cancellation?.cleanup !== false) {
+      try {
+        this.logger.log(
+          `Running cleanup step ${definition.onCancel} for execution ${execution.id}`
+        );
+        await this.runBranch(execution, definition, definition.onCancel, new Set(), {
+          context: execution.context,
+        });
+      } catch (error) {
+        this.logger.error(`Cleanup of cancelled execution ${execution.id} failed:`, error);
+      }
+    }
+
+    await this.saveFinalState(execution);
+
+    this.logger.log(`Workflow execution ${execution.id} cancelled`);
+    this.eventEmitter.emit('workflow.execution.cancelled', { execution });
+  }
+
+  /**
+   * Cancels the timers and signal waits an execution that is ending leaves behind.
+   */
+  private async releaseSuspensions(execution: WorkflowExecution): Promise<void> {
+    try {
+      await this.timerService.cancelForExecution(execution.id);
+      await this.signalService.cancelForExecution(execution.id);
+    } catch (error) {
+      this.logger.error(`Failed to release timers and waits of execution ${execution.id}:`, error);
     }
   }
 
@@ -114,151 +577,1382 @@ export class WorkflowEngine {
     execution: WorkflowExecution,
     definition: WorkflowDefinition,
     stepId: string,
-    input?: any
+    input?: any,
+    scope?: StepScope
   ): Promise<StepResult> {
     const step = definition.steps.find(s => s.id === stepId);
     if (!step) {
       throw new Error(`Step ${stepId} not found in workflow ${definition.id}`);
     }
 
+    if (this.signalFor(execution, scope)?.aborted) {
+      throw new ExecutionCancelledError(execution.id);
+    }
+
+    const context = scope?.context ?? execution.context;
     execution.currentStep = stepId;
     this.logger.debug(`Executing step ${stepId} in execution ${execution.id}`);
 
     try {
-      // Execute step
-      const result = await this.stepExecutor.execute(step, {
-        executionId: execution.id,
-        workflowId: execution.workflowId,
-        stepId,
-        data: input || execution.context,
-        metadata: { step, execution }
-      });
+      // Steps with an input mapping receive only what it maps, not the whole context
+      const stepInput = step.input
+        ? applyMapping(
+            this.expressionEngine,
+            step.input,
+            this.mappingRoot(execution, context, input)
+          )
+        : input;
+
+      // Execute step, retrying according to its retry policy
+      const result = await this.executeStepByType(execution, definition, step, stepInput, scope);
 
       // Update execution context
       if (result.data) {
-        execution.context = { ...execution.context, ...result.data };
+        this.applyStepOutput(execution, step, context, input, result.data);
       }
 
-      // Save state
-      await this.stateManager.saveExecutionState(execution);
+      // Save state; branch scopes are merged into the execution by their parallel step
+      if (!scope) {
+        this.markStepResolved(execution, stepId, 'completed', result.nextSteps ?? step.next ?? []);
+        await this.stateManager.saveExecutionState(execution);
+      }
 
       this.logger.debug(`Step ${stepId} completed successfully`);
       return result;
-
     } catch (error) {
+      if (error instanceof ExecutionSuspendedError) {
+        throw error;
+      }
+
       this.logger.error(`Step ${stepId} failed:`, error);
-      
+
       // Handle step failure
-      if (step.errorHandler) {
-        return await this.handleStepError(execution, definition, step, error);
+      if (step.errorHandler && !this.signalFor(execution, scope)?.aborted) {
+        const handled = await this.handleStepError(
+          execution,
+          definition,
+          step,
+          error instanceof Error ? error : new Error(String(error)),
+          scope
+        );
+
+        // The handler takes over from the failed step in the graph
+        if (!scope) {
+          this.markStepResolved(execution, stepId, 'completed', [step.errorHandler]);
+        }
+        return handled;
       }
-      
+
       throw error;
     }
   }
 
-  private async processNextSteps(
+  /**
+   * What `$` refers to in a step's input and output mappings.
+   */
+  private mappingRoot(
     execution: WorkflowExecution,
-    definition: WorkflowDefinition
-  ): Promise<void> {
-    const pendingSteps = this.findPendingSteps(execution, definition);
-    
-    while (pendingSteps.length > 0) {
-      const stepId = pendingSteps.shift()!;
-      const step = definition.steps.find(s => s.id === stepId);
-      
-      if (step && this.canExecuteStep(step, execution)) {
-        const result = await this.executeStep(execution, definition, stepId);
-        
-        // Add next steps to pending queue
-        if (result.nextSteps) {
-          pendingSteps.push(...result.nextSteps);
-        }
-      }
-    }
+    context: Record<string, any>,
+    input?: any
+  ): Record<string, any> {
+    return {
+      steps: context[STEP_OUTPUTS_KEY] ?? {},
+      context,
+      trigger: execution.triggerEvent,
+      input,
+    };
   }
 
-  private findStartSteps(definition: WorkflowDefinition, triggerEvent: Event): string[] {
-    return definition.triggers
-      .filter(trigger => 
-        trigger.eventType === triggerEvent.type &&
-        this.evaluateTriggerConditions(trigger, triggerEvent)
-      )
-      .map(trigger => trigger.type);
-  }
+  /**
+   * Stores a step's result in the context under `steps.<id>.output`. Only the
+   * keys of its output mapping, or its whole result for steps that opt into
+   * `mergeOutput`, are written to the context itself.
+   */
+  private applyStepOutput(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    context: Record<string, any>,
+    input: any,
+    data: Record<string, any>
+  ): void {
+    const output = getStepOutput(step, data);
 
-  private evaluateTriggerConditions(trigger: any, event: Event): boolean {
-    if (!trigger.conditions) return true;
-    
-    // Simple condition evaluation - in production, use a proper expression engine
-    return trigger.conditions.every((condition: string) => {
-      // Basic condition evaluation logic
-      return true; // Placeholder
-    });
+    if (step.output) {
+      Object.assign(
+        context,
+        applyMapping(this.expressionEngine, step.output, {
+          ...this.mappingRoot(execution, context, input),
+          output,
+        })
+      );
+    } else if (step.mergeOutput) {
+      Object.assign(context, data);
+    }
+
+    recordStepOutput(context, step.id, output);
   }
 
-  private findPendingSteps(execution: WorkflowExecution, definition: WorkflowDefinition): string[] {
-    // Find steps that are ready to execute based on dependencies
-    const completedSteps = this.getCompletedSteps(execution);
-    const allSteps = definition.steps.map(s => s.id);
-    
-    return allSteps.filter(stepId => {
-      const step = definition.steps.find(s => s.id === stepId);
-      if (!step) return false;
-      
-      // Check if dependencies are met
-      if (step.dependencies) {
-        return step.dependencies.every(dep => completedSteps.includes(dep));
+  private async executeStepByType(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    input?: any,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    // Action steps journal each of their attempts
+    if (!['parallel', 'loop', 'delay', 'wait', 'subworkflow', 'condition'].includes(step.type)) {
+      return this.executeWithRetry(execution, step, input, scope);
+    }
+
+    return this.journalStep(execution, step, 1, scope?.context ?? execution.context, () => {
+      switch (step.type) {
+        case 'parallel':
+          return this.withStepTimeout(execution, step, scope, timedScope =>
+            this.executeParallelStep(execution, definition, step, timedScope)
+          );
+        case 'loop':
+          return this.withStepTimeout(execution, step, scope, timedScope =>
+            this.executeLoopStep(execution, definition, step, timedScope)
+          );
+        case 'delay':
+          return this.executeDelayStep(execution, step, scope);
+        case 'wait':
+          return this.executeWaitStep(execution, step, scope);
+        case 'subworkflow':
+          return this.executeSubWorkflowStep(execution, step, scope);
+        default:
+          return this.executeConditionStep(execution, step, scope);
       }
-      
-      return true;
     });
   }
 
-  private canExecuteStep(step: any, execution: WorkflowExecution): boolean {
-    // Check if step can be executed (dependencies, conditions, etc.)
-    return true; // Placeholder
-  }
+  /**
+   * Runs one attempt of a step under a journal entry recording its input,
+   * output and outcome.
+   */
+  private async journalStep(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    attempt: number,
+    input: any,
+    run: () => Promise<StepResult>
+  ): Promise<StepResult> {
+    const entry = await this.stepJournal.start(execution, step, attempt, input);
 
-  private getCompletedSteps(execution: WorkflowExecution): string[] {
-    // Get list of completed steps from execution context
-    return execution.context.completedSteps || [];
+    try {
+      const result = await run();
+      if (result.success) {
+        await this.stepJournal.complete(entry, result.data);
+      } else {
+        await this.stepJournal.fail(
+          entry,
+          new Error(result.error || `Step ${step.id} reported failure`)
+        );
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof ExecutionSuspendedError) {
+        await this.stepJournal.suspend(entry);
+      } else {
+        await this.stepJournal.fail(entry, error);
+      }
+      throw error;
+    }
   }
 
-  private async handleStepError(
+  private async executeParallelStep(
     execution: WorkflowExecution,
     definition: WorkflowDefinition,
-    step: any,
-    error: Error
+    step: WorkflowStep,
+    scope?: StepScope
   ): Promise<StepResult> {
-    // Execute error handler step
-    const errorHandler = definition.steps.find(s => s.id === step.errorHandler);
-    if (errorHandler) {
-      return await this.executeStep(execution, definition, step.errorHandler, { error });
+    const config = step.config as ParallelStepConfig;
+    const branches = config.branches || [];
+    const required = this.getRequiredBranches(config, branches.length);
+    const joinTargets = new Set(step.next || []);
+    const baseContext = scope?.context ?? execution.context;
+
+    // Aborting the controller cancels every branch still running
+    const controller = new AbortController();
+    const abortBranches = () => controller.abort();
+    const parentSignal = this.signalFor(execution, scope);
+    if (parentSignal?.aborted) {
+      controller.abort();
+    }
+    parentSignal?.addEventListener('abort', abortBranches);
+
+    const results: Record<string, BranchResult> = {};
+    let succeeded = 0;
+    let failed = 0;
+
+    this.logger.debug(
+      `Parallel step ${step.id} starting ${branches.length} branches (${required} required)`
+    );
+
+    try {
+      await Promise.all(
+        branches.map(async branchId => {
+          try {
+            const output = await this.runBranch(execution, definition, branchId, joinTargets, {
+              context: { ...baseContext },
+              signal: controller.signal,
+            });
+            results[branchId] = { status: 'completed', output };
+            succeeded++;
+          } catch (error) {
+            const status = controller.signal.aborted ? 'cancelled' : 'failed';
+            const message = error instanceof Error ? error.message : String(error);
+            results[branchId] = { status, output: {}, error: message };
+            if (status === 'failed') {
+              failed++;
+            }
+          }
+
+          // Stop the remaining branches once the join outcome is decided either way
+          if (succeeded >= required || failed > branches.length - required) {
+            controller.abort();
+          }
+        })
+      );
+    } finally {
+      parentSignal?.removeEventListener('abort', abortBranches);
+    }
+
+    this.eventEmitter.emit('workflow.step.parallel.joined', {
+      execution,
+      stepId: step.id,
+      results,
+    });
+
+    if (succeeded < required) {
+      throw new Error(
+        `Parallel step ${step.id} join failed: ${succeeded} of ${branches.length} branches succeeded, ${required} required`
+      );
+    }
+
+    const outputs: Record<string, any> = {};
+    for (const [branchId, result] of Object.entries(results)) {
+      if (result.status === 'completed') {
+        outputs[branchId] = result.output;
+      }
     }
-    
+
     return {
-      success: false,
-      error: error.message,
+      success: true,
+      data: { [step.id]: { branches: outputs, results } },
     };
   }
 
-  private generateExecutionId(): string {
-    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
+  private async runBranch(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    entryStepId: string,
+    joinTargets: Set<string>,
+    scope: StepScope
+  ): Promise<Record<string, any>> {
+    const output: Record<string, any> = {};
+    const queue = [entryStepId];
+    const visited = new Set<string>();
 
-  async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
-    return this.executions.get(executionId);
+    // Follow the branch until it reaches the parallel step's join targets or runs out of steps
+    while (queue.length > 0) {
+      const stepId = queue.shift()!;
+      if (joinTargets.has(stepId) || visited.has(stepId)) {
+        continue;
+      }
+      visited.add(stepId);
+
+      if (scope.signal?.aborted) {
+        throw new Error(`Branch ${entryStepId} cancelled`);
+      }
+
+      const result = await this.executeStep(execution, definition, stepId, undefined, scope);
+      if (result.data) {
+        Object.assign(output, result.data);
+      }
+
+      const step = definition.steps.find(s => s.id === stepId);
+      queue.push(...(result.nextSteps ?? step?.next ?? []));
+    }
+
+    return output;
   }
 
-  async cancelExecution(executionId: string): Promise<void> {
-    const execution = this.executions.get(executionId);
-    if (execution && execution.status === 'running') {
-      execution.status = 'cancelled';
-      execution.completedAt = new Date();
-      
-      this.logger.log(`Workflow execution ${executionId} cancelled`);
-      this.eventEmitter.emit('workflow.execution.cancelled', { execution });
+  private async executeLoopStep(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    const config = step.config as LoopStepConfig;
+    const mode = config.mode ?? 'forEach';
+    const context = scope?.context ?? execution.context;
+    const itemVariable = config.itemVariable ?? 'item';
+    const indexVariable = config.indexVariable ?? 'index';
+    const maxIterations = config.maxIterations ?? DEFAULT_MAX_LOOP_ITERATIONS;
+    const exitTargets = new Set(step.next || []);
+
+    let items: unknown[] = [];
+    if (mode === 'forEach') {
+      const value = this.expressionEngine.evaluate(config.items!, context);
+      if (!Array.isArray(value)) {
+        throw new Error(`Loop step ${step.id} items expression did not evaluate to an array`);
+      }
+      if (value.length > maxIterations) {
+        throw new Error(
+          `Loop step ${step.id} has ${value.length} items, exceeding maxIterations ${maxIterations}`
+        );
+      }
+      items = value;
+    }
+
+    // While loops re-check their condition after every iteration, so they can't overlap
+    const concurrency = mode === 'while' ? 1 : Math.max(1, config.maxConcurrency ?? 1);
+    const results: LoopIterationResult[] = [];
+    const signal = this.signalFor(execution, scope);
+    let nextIndex = 0;
+    let stopped = false;
+    let broken = false;
+
+    const hasNext = (): boolean => {
+      if (stopped || signal?.aborted) return false;
+      if (mode === 'forEach') return nextIndex < items.length;
+      if (!this.expressionEngine.test(config.condition!, context)) return false;
+      if (nextIndex >= maxIterations) {
+        throw new Error(`Loop step ${step.id} exceeded maxIterations ${maxIterations}`);
+      }
+      return true;
+    };
+
+    const worker = async (): Promise<void> => {
+      while (hasNext()) {
+        const index = nextIndex++;
+        const iterationContext = {
+          ...context,
+          [itemVariable]: mode === 'forEach' ? items[index] : index,
+          [indexVariable]: index,
+        };
+
+        try {
+          const output = await this.runBranch(execution, definition, config.body, exitTargets, {
+            context: iterationContext,
+            signal,
+          });
+          results[index] = { index, status: 'completed', output };
+
+          // While loops advance through what the previous iteration stored in its context
+          if (mode === 'while') {
+            for (const [key, value] of Object.entries(iterationContext)) {
+              if (key !== itemVariable && key !== indexVariable) {
+                context[key] = value;
+              }
+            }
+          }
+
+          if (
+            config.breakCondition &&
+            this.expressionEngine.test(config.breakCondition, {
+              ...iterationContext,
+              result: output,
+            })
+          ) {
+            broken = true;
+            stopped = true;
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          results[index] = { index, status: 'failed', error: message };
+          if (!config.continueOnError) {
+            stopped = true;
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    const iterations = results.filter(Boolean);
+    const failures = iterations.filter(result => result.status === 'failed');
+    this.logger.debug(
+      `Loop step ${step.id} ran ${iterations.length} iterations, ${failures.length} failed`
+    );
+
+    if (failures.length > 0 && !config.continueOnError) {
+      throw new Error(
+        `Loop step ${step.id} failed on item(s) ${failures.map(f => f.index).join(', ')}: ${failures[0].error}`
+      );
     }
+
+    return {
+      success: true,
+      data: {
+        [step.id]: {
+          results: iterations,
+          outputs: iterations.map(result => result.output ?? null),
+          completed: iterations.length - failures.length,
+          failed: failures.length,
+          broken,
+        },
+      },
+    };
+  }
+
+  private async executeConditionStep(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    const config = step.config as ConditionStepConfig;
+    const context = scope?.context ?? execution.context;
+    const branches = config.branches || [];
+
+    const index = branches.findIndex(branch => this.expressionEngine.test(branch.when, context));
+    const nextSteps = index >= 0 ? branches[index].next : (config.default ?? step.next ?? []);
+
+    this.logger.debug(
+      `Condition step ${step.id} chose ${index >= 0 ? `branch ${index}` : 'default'}: ${nextSteps.join(', ') || '(end)'}`
+    );
+
+    return {
+      success: true,
+      nextSteps,
+      data: { [step.id]: { branch: index >= 0 ? index : 'default', next: nextSteps } },
+    };
+  }
+
+  private async executeDelayStep(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    const config = step.config as DelayStepConfig;
+    const fireAt = this.resolveDelayTarget(step, config, scope?.context ?? execution.context);
+    const remaining = fireAt.getTime() - Date.now();
+
+    if (remaining <= 0) {
+      return { success: true };
+    }
+
+    // Branches and loop bodies only exist in this process, so they wait in-process
+    if (scope) {
+      await sleep(remaining, scope.signal);
+      return { success: true };
+    }
+
+    // Wake up no later than the deadline, so a waiting execution still fails on time
+    const deadlineAt = execution.deadlineAt ? new Date(execution.deadlineAt) : undefined;
+    await this.timerService.schedule({
+      executionId: execution.id,
+      workflowId: execution.workflowId,
+      stepId: step.id,
+      fireAt: deadlineAt && deadlineAt < fireAt ? deadlineAt : fireAt,
+    });
+
+    throw new ExecutionSuspendedError(
+      `Delay step ${step.id} waiting until ${fireAt.toISOString()}`
+    );
+  }
+
+  /**
+   * Suspends the execution until a matching signal arrives or the wait times
+   * out. Nothing is held in memory: the wait and its timeout are persisted and
+   * either one resumes the execution, on whichever instance handles it.
+   * Published events only match waits with a `correlationKey`; a wait without
+   * one takes the signal sent to its execution through `signalExecution`.
+   */
+  private async executeWaitStep(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    // Branches and loop bodies only exist in this process and can't be resumed later
+    if (scope) {
+      throw new Error(`Wait step ${step.id} can only run at the top level of a workflow`);
+    }
+
+    const config = step.config as WaitStepConfig;
+    const correlationKey = config.correlationKey
+      ? String(this.expressionEngine.evaluate(config.correlationKey, execution.context))
+      : undefined;
+    const expiresAt = config.timeout ? new Date(Date.now() + config.timeout) : undefined;
+
+    const wait = await this.signalService.register({
+      executionId: execution.id,
+      workflowId: execution.workflowId,
+      stepId: step.id,
+      signal: config.signal,
+      correlationKey,
+      expiresAt,
+    });
+
+    // Wake up at the timeout, or at the deadline so a waiting execution still fails on time
+    const deadlineAt = execution.deadlineAt ? new Date(execution.deadlineAt) : undefined;
+    const wakeAt = [expiresAt, deadlineAt]
+      .filter((date): date is Date => date !== undefined)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    if (wakeAt) {
+      await this.timerService.schedule({
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        stepId: step.id,
+        fireAt: wakeAt,
+        payload: { waitId: wait.id },
+      });
+    }
+
+    throw new ExecutionSuspendedError(`Wait step ${step.id} waiting for signal ${config.signal}`);
+  }
+
+  /**
+   * Starts another workflow as a child of this execution, with the step's
+   * `input` expressions evaluated into the child's context and trigger data.
+   * In `wait` mode the execution suspends until the child finishes and fails
+   * the step if the child did not complete; in `detach` mode it moves on.
+   */
+  private async executeSubWorkflowStep(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    const config = step.config as SubWorkflowStepConfig;
+    const mode = config.mode ?? 'wait';
+    const context = scope?.context ?? execution.context;
+
+    // Branches and loop bodies only exist in this process and can't be resumed later
+    if (mode === 'wait' && scope) {
+      throw new Error(
+        `Sub-workflow step ${step.id} can only wait for its child at the top level of a workflow`
+      );
+    }
+
+    const child = config.version
+      ? await this.workflowRegistry.getWorkflowByName(config.workflow, config.version)
+      : await this.workflowRegistry.getLatestPublishedWorkflow(config.workflow);
+    if (!child) {
+      throw new Error(
+        `Sub-workflow ${config.workflow}${config.version ? `@${config.version}` : ''} not found`
+      );
+    }
+
+    const input: Record<string, any> = {};
+    for (const [key, expression] of Object.entries(config.input || {})) {
+      input[key] = this.expressionEngine.evaluate(expression, context);
+    }
+
+    const triggerEvent: Event = {
+      id: `${execution.id}:${step.id}`,
+      type: config.eventType ?? child.triggers[0]?.eventType,
+      data: input,
+      metadata: { source: `workflow:${execution.workflowId}` },
+      timestamp: new Date(),
+      correlationId: execution.triggerEvent?.correlationId ?? execution.id,
+      causationId: execution.id,
+    };
+
+    // Registered before the child starts, so even a child that finishes at once finds it
+    const wait =
+      mode === 'wait'
+        ? await this.signalService.register({
+            executionId: execution.id,
+            workflowId: execution.workflowId,
+            stepId: step.id,
+            signal: CHILD_FINISHED_SIGNAL,
+            correlationKey: `${execution.id}:${step.id}`,
+          })
+        : undefined;
+
+    let childExecution: WorkflowExecution;
+    try {
+      childExecution = await this.executeWorkflow(
+        child.id,
+        triggerEvent,
+        { ...input },
+        {
+          parent: { executionId: execution.id, stepId: step.id },
+        }
+      );
+    } catch (error) {
+      if (wait) {
+        await this.signalService.cancel(wait.id);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Step ${step.id} started child execution ${childExecution.id} of workflow ${child.name}`
+    );
+    this.eventEmitter.emit('workflow.subworkflow.started', {
+      execution,
+      stepId: step.id,
+      childExecution,
+    });
+
+    if (!wait) {
+      return { success: true, data: { [step.id]: { executionId: childExecution.id } } };
+    }
+
+    // Wake up at the deadline, so a parent still fails on time if its child never finishes
+    if (execution.deadlineAt) {
+      await this.timerService.schedule({
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        stepId: step.id,
+        fireAt: new Date(execution.deadlineAt),
+        payload: { waitId: wait.id },
+      });
+    }
+
+    throw new ExecutionSuspendedError(
+      `Sub-workflow step ${step.id} waiting for child execution ${childExecution.id}`
+    );
+  }
+
+  private resolveDelayTarget(
+    step: WorkflowStep,
+    config: DelayStepConfig,
+    context: Record<string, any>
+  ): Date {
+    if (config.until) {
+      const value = this.expressionEngine.evaluate(config.until, context);
+      const fireAt = new Date(value as string | number | Date);
+      if (value === undefined || value === null || isNaN(fireAt.getTime())) {
+        throw new Error(`Delay step ${step.id} until expression did not evaluate to a timestamp`);
+      }
+      return fireAt;
+    }
+
+    if (typeof config.duration === 'number' && config.duration >= 0) {
+      return new Date(Date.now() + config.duration);
+    }
+
+    throw new Error(`Delay step ${step.id} requires a duration or an until expression`);
+  }
+
+  private async handleTimerFired(timer: WorkflowTimer): Promise<void> {
+    try {
+      // Wait step timeouts only count if no signal resolved the wait first
+      if (timer.payload?.waitId) {
+        if (await this.signalService.resolve(timer.payload.waitId, 'timed_out')) {
+          const wait = await this.signalService.getWait(timer.payload.waitId);
+          if (wait) {
+            await this.resumeFromWait(wait);
+          }
+        }
+        return;
+      }
+
+      const execution = await this.stateManager.loadExecutionState(timer.executionId);
+      const stale = execution?.completedSteps?.includes(timer.stepId);
+
+      // A short delay can fire before its execution has finished suspending
+      if (execution?.status === 'running' && !stale) {
+        await this.timerService.release(timer.id);
+        this.logger.debug(
+          `Timer ${timer.id} fired before execution ${timer.executionId} suspended; firing it again`
+        );
+        return;
+      }
+
+      if (!execution || execution.status !== 'waiting' || stale) {
+        this.logger.warn(
+          `Ignoring timer ${timer.id}: execution ${timer.executionId} is not waiting on step ${timer.stepId}`
+        );
+        return;
+      }
+
+      const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+      if (!definition) {
+        throw new Error(`Workflow ${execution.workflowId} not found`);
+      }
+
+      this.executions.set(execution.id, execution);
+      this.logger.log(`Resuming execution ${execution.id} after delay step ${timer.stepId}`);
+      this.eventEmitter.emit('workflow.execution.resumed', { execution, stepId: timer.stepId });
+
+      await this.resumeAfterStep(execution, definition, timer.stepId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to resume execution ${timer.executionId} from timer ${timer.id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Delivers a published event to the pending waits it matches by name and
+   * correlation id. Anyone who can publish an event, webhook callers included,
+   * could otherwise resume any execution waiting on its type, so events
+   * without a correlation id resolve nothing.
+   */
+  private async handleSignalEvent(event: Event): Promise<void> {
+    if (!event.correlationId) {
+      return;
+    }
+
+    try {
+      const waits = await this.signalService.findPending(event.type, event.correlationId);
+      for (const wait of waits) {
+        await this.deliverSignal(wait, event.data);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to deliver event ${event.type} to waiting executions:`, error);
+    }
+  }
+
+  private async deliverSignal(wait: SignalWait, payload: any): Promise<boolean> {
+    if (!(await this.signalService.resolve(wait.id, 'received', payload))) {
+      return false;
+    }
+
+    this.logger.log(`Execution ${wait.executionId} received signal ${wait.signal}`);
+    this.eventEmitter.emit('workflow.signal.received', { wait, payload });
+
+    this.resumeFromWait({ ...wait, status: 'received', payload }).catch(error => {
+      this.logger.error(
+        `Failed to resume execution ${wait.executionId} after signal ${wait.signal}:`,
+        error
+      );
+    });
+    return true;
+  }
+
+  /**
+   * Continues an execution past a resolved wait or sub-workflow step: with the
+   * signal payload under the step's id and its `next` steps, or after a
+   * timeout with `{ timedOut: true }` and its `onTimeout` steps.
+   */
+  private async resumeFromWait(wait: SignalWait): Promise<void> {
+    const execution = await this.stateManager.loadExecutionState(wait.executionId);
+
+    // Still suspending; it checks for resolved waits once it has
+    if (!execution || execution.status !== 'waiting') {
+      return;
+    }
+
+    if (!(await this.signalService.claimResumption(wait.id))) {
+      return;
+    }
+
+    const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+    if (!definition) {
+      throw new Error(`Workflow ${execution.workflowId} not found`);
+    }
+
+    const step = definition.steps.find(s => s.id === wait.stepId);
+    const onTimeout = (step?.config as WaitStepConfig | undefined)?.onTimeout;
+    const timedOut = wait.status === 'timed_out';
+    const output = timedOut ? { timedOut: true } : (wait.payload ?? {});
+
+    this.executions.set(execution.id, execution);
+    this.logger.log(`Resuming execution ${execution.id} after wait step ${wait.stepId}`);
+    this.eventEmitter.emit('workflow.execution.resumed', { execution, stepId: wait.stepId });
+
+    await this.runExecution(execution, definition, async () => {
+      if (step) {
+        this.applyStepOutput(execution, step, execution.context, undefined, { [step.id]: output });
+      } else {
+        recordStepOutput(execution.context, wait.stepId, output);
+      }
+
+      if (timedOut && !onTimeout?.length) {
+        throw new SignalTimeoutError(wait.stepId, wait.signal);
+      }
+
+      // A child that didn't complete fails its sub-workflow step
+      if (step?.type === 'subworkflow' && !timedOut && wait.payload?.status !== 'completed') {
+        const error = new SubWorkflowFailedError(
+          step.id,
+          wait.payload?.executionId,
+          wait.payload?.status,
+          wait.payload?.error
+        );
+        await this.stepJournal.resume(execution.id, step.id, error);
+
+        if (!step.errorHandler) {
+          throw error;
+        }
+        await this.handleStepError(execution, definition, step, error);
+        this.markStepResolved(execution, step.id, 'completed', [step.errorHandler]);
+        return;
+      }
+
+      await this.stepJournal.resume(execution.id, wait.stepId);
+      this.markStepResolved(
+        execution,
+        wait.stepId,
+        'completed',
+        timedOut ? onTimeout : (step?.next ?? [])
+      );
+    });
+  }
+
+  private async resumeResolvedWaits(executionId: string): Promise<void> {
+    try {
+      for (const wait of await this.signalService.findUnresumed(executionId)) {
+        await this.resumeFromWait(wait);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to resume execution ${executionId} from a resolved wait:`, error);
+    }
+  }
+
+  private async maintainExecutions(): Promise<void> {
+    try {
+      const executionIds = Array.from(this.executions.keys());
+      await this.stateManager.heartbeat(executionIds);
+
+      // Cancellations requested through another instance
+      const requests = await this.stateManager.findCancellationRequests(executionIds);
+      for (const [executionId, cancellation] of requests) {
+        const execution = this.executions.get(executionId);
+        if (execution && !execution.cancellation) {
+          execution.cancellation = cancellation;
+          this.abortControllers.get(executionId)?.abort();
+        }
+      }
+
+      await this.recoverExecutions();
+    } catch (error) {
+      this.logger.error('Failed to maintain executions:', error);
+    }
+  }
+
+  /**
+   * Resumes executions left `pending` or `running` by an instance that stopped heartbeating,
+   * including this one before a crash or restart, and requeues `queued` ones whose job was
+   * claimed but never started.
+   */
+  private async recoverExecutions(): Promise<void> {
+    try {
+      const staleAfter = Number(this.configService.get('EXECUTION_STALE_AFTER_MS', 60000));
+      const staleBefore = new Date(Date.now() - staleAfter);
+      await this.requeueOrphanedExecutions(staleBefore);
+
+      const claimed = await this.stateManager.claimStaleExecutions(staleBefore);
+
+      for (const execution of claimed) {
+        const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+        if (!definition) {
+          this.logger.error(
+            `Cannot resume execution ${execution.id}: workflow ${execution.workflowId} not found`
+          );
+          continue;
+        }
+
+        this.executions.set(execution.id, execution);
+        this.logger.log(`Resuming interrupted execution ${execution.id} from its last checkpoint`);
+        this.eventEmitter.emit('workflow.execution.resumed', { execution });
+
+        this.resumeExecution(execution, definition).catch(error => {
+          this.logger.error(`Resumed execution ${execution.id} failed:`, error);
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to recover interrupted executions:', error);
+    }
+  }
+
+  private async requeueOrphanedExecutions(staleBefore: Date): Promise<void> {
+    const orphaned = await this.stateManager.claimOrphanedQueuedExecutions(
+      staleBefore,
+      executionId => this.executionQueue.has(executionId)
+    );
+
+    for (const execution of orphaned) {
+      const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+      if (!definition) {
+        execution.status = 'failed';
+        execution.error = `Failed to start execution: workflow ${execution.workflowId} not found`;
+        execution.completedAt = new Date();
+        await this.saveFinalState(execution);
+        continue;
+      }
+
+      await this.executionQueue.enqueue({
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        priority: execution.priority ?? 0,
+        maxConcurrency: definition.maxConcurrency,
+        enqueuedAt: execution.startedAt,
+      });
+      this.logger.log(`Requeued execution ${execution.id} whose job was lost`);
+    }
+
+    if (orphaned.length > 0) {
+      void this.drainQueue();
+    }
+  }
+
+  private async saveFinalState(execution: WorkflowExecution): Promise<void> {
+    try {
+      await this.stateManager.saveExecutionState(execution);
+    } catch (error) {
+      // Don't let a persistence failure mask the error that ended the execution
+      this.logger.error(`Failed to persist final state of execution ${execution.id}:`, error);
+    } finally {
+      this.executions.delete(execution.id);
+    }
+
+    void this.propagateOutcome(execution);
+  }
+
+  /**
+   * Reports a finished child execution to the parent waiting on it, and
+   * cancels the unfinished children of an execution that failed or was
+   * cancelled, detached ones included.
+   */
+  private async propagateOutcome(execution: WorkflowExecution): Promise<void> {
+    try {
+      if (execution.parentExecutionId && execution.parentStepId) {
+        const waits = await this.signalService.findPending(
+          CHILD_FINISHED_SIGNAL,
+          `${execution.parentExecutionId}:${execution.parentStepId}`
+        );
+        for (const wait of waits.filter(w => w.executionId === execution.parentExecutionId)) {
+          await this.deliverSignal(wait, {
+            executionId: execution.id,
+            status: execution.status,
+            context: execution.context,
+            error: execution.error,
+            errorCode: execution.errorCode,
+          });
+        }
+      }
+
+      if (execution.status === 'failed' || execution.status === 'cancelled') {
+        const children = await this.stateManager.findChildExecutions(
+          execution.id,
+          UNFINISHED_STATUSES
+        );
+        for (const child of children) {
+          await this.cancelExecution(child.id, {
+            reason: `Parent execution ${execution.id} ${execution.status}`,
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to propagate outcome of execution ${execution.id}:`, error);
+    }
+  }
+
+  private signalFor(execution: WorkflowExecution, scope?: StepScope): AbortSignal | undefined {
+    return scope?.signal ?? this.abortControllers.get(execution.id)?.signal;
+  }
+
+  private getRequiredBranches(config: ParallelStepConfig, branchCount: number): number {
+    switch (config.join ?? 'all') {
+      case 'any':
+        return Math.min(1, branchCount);
+      case 'n-of-m':
+        return Math.min(Math.max(config.required ?? branchCount, 0), branchCount);
+      case 'all':
+      default:
+        return branchCount;
+    }
+  }
+
+  /**
+   * Runs an action step with the registered handler for its `config.action`.
+   * Validation rejects steps without one, but definitions saved before it
+   * did may still have them; those fail without being retried.
+   */
+  private runAction(step: WorkflowStep, context: WorkflowContext): Promise<StepResult> {
+    const handler = step.config?.action
+      ? this.actionRegistry.getHandler(step.config.action)
+      : undefined;
+    if (!handler) {
+      throw new NonRetryableError(
+        step.config?.action
+          ? `Action step ${step.id} uses unknown action ${step.config.action}`
+          : `Action step ${step.id} requires an action name`
+      );
+    }
+
+    return handler.execute(getActionInput(step.config), context);
+  }
+
+  private async executeWithRetry(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    input?: any,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    const policy = step.retryPolicy;
+    const maxAttempts = Math.max(1, policy?.maxAttempts ?? 1);
+    const attempts = this.getStepAttempts(execution, step.id);
+    const signal = this.signalFor(execution, scope);
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+
+      try {
+        const data = input || scope?.context || execution.context;
+
+        // Each attempt gets the full timeout
+        const result = await this.journalStep(execution, step, attempt, data, () =>
+          withTimeout<StepResult>(
+            attemptSignal =>
+              this.runAction(step, {
+                executionId: execution.id,
+                workflowId: execution.workflowId,
+                stepId: step.id,
+                data,
+                metadata: { step, execution, attempt },
+                signal: attemptSignal,
+              }),
+            step.timeout,
+            signal,
+            () => new StepTimeoutError(step.id, step.timeout!)
+          )
+        );
+
+        if (!result.success) {
+          throw new Error(result.error || `Step ${step.id} reported failure`);
+        }
+
+        attempts.push(this.createAttempt(attempt, startedAt, { success: true }));
+        return result;
+      } catch (error) {
+        const retryable = policy ? isRetryableError(policy, error) : false;
+        const willRetry = retryable && attempt < maxAttempts && !signal?.aborted;
+        const nextDelay = willRetry ? calculateRetryDelay(policy!, attempt) : undefined;
+        const message = error instanceof Error ? error.message : String(error);
+
+        attempts.push(
+          this.createAttempt(attempt, startedAt, {
+            success: false,
+            error: message,
+            errorName: error instanceof Error ? error.name : undefined,
+            retryable,
+            nextDelay,
+          })
+        );
+
+        if (!willRetry) {
+          if (attempt > 1) {
+            this.logger.warn(`Step ${step.id} giving up after ${attempt} attempts`);
+          }
+          throw error;
+        }
+
+        this.logger.warn(
+          `Step ${step.id} attempt ${attempt}/${maxAttempts} failed, retrying in ${nextDelay}ms: ${message}`
+        );
+        this.eventEmitter.emit('workflow.step.retrying', {
+          execution,
+          stepId: step.id,
+          attempt,
+          delay: nextDelay,
+          error,
+        });
+
+        await sleep(nextDelay!, signal);
+      }
+    }
+  }
+
+  /**
+   * Bounds a parallel or loop step by its `timeout`. Work still running inside
+   * it is aborted through the scope's signal.
+   */
+  private withStepTimeout(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    scope: StepScope | undefined,
+    run: (scope?: StepScope) => Promise<StepResult>
+  ): Promise<StepResult> {
+    if (!step.timeout) {
+      return run(scope);
+    }
+
+    return withTimeout(
+      signal => run({ context: scope?.context ?? execution.context, signal }),
+      step.timeout,
+      this.signalFor(execution, scope),
+      () => new StepTimeoutError(step.id, step.timeout!)
+    );
+  }
+
+  private getStepAttempts(execution: WorkflowExecution, stepId: string): StepAttempt[] {
+    execution.stepAttempts = execution.stepAttempts || {};
+    execution.stepAttempts[stepId] = execution.stepAttempts[stepId] || [];
+    return execution.stepAttempts[stepId];
+  }
+
+  private createAttempt(
+    attempt: number,
+    startedAt: Date,
+    outcome: Omit<StepAttempt, 'attempt' | 'startedAt' | 'completedAt' | 'duration'>
+  ): StepAttempt {
+    const completedAt = new Date();
+    return {
+      attempt,
+      startedAt,
+      completedAt,
+      duration: completedAt.getTime() - startedAt.getTime(),
+      ...outcome,
+    };
+  }
+
+  /**
+   * Walks the step graph from wherever the execution currently stands. A step
+   * runs once every step leading to it has been resolved and at least one of
+   * them handed over to it; if none did, it is skipped and the skip flows on
+   * to its own successors. Completed and skipped steps are never revisited.
+   */
+  private async processNextSteps(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition
+  ): Promise<void> {
+    const graph = buildStepGraph(definition);
+
+    let ready = this.findReadySteps(execution, graph);
+
+    while (ready.length > 0) {
+      for (const stepId of ready) {
+        if (this.abortControllers.get(execution.id)?.signal.aborted) {
+          throw new ExecutionCancelledError(execution.id);
+        }
+        await this.executeStep(execution, definition, stepId);
+      }
+      ready = this.findReadySteps(execution, graph);
+    }
+  }
+
+  private findReadySteps(execution: WorkflowExecution, graph: StepGraph): string[] {
+    const transitions = execution.transitions || {};
+    const resolved = new Set([
+      ...(execution.completedSteps || []),
+      ...(execution.skippedSteps || []),
+    ]);
+
+    // Steps can also be handed over to dynamically through StepResult.nextSteps
+    const candidates = new Set(graph.predecessors.keys());
+    for (const targets of Object.values(transitions)) {
+      targets.forEach(target => candidates.add(target));
+    }
+
+    for (;;) {
+      const ready: string[] = [];
+      let skipped = false;
+
+      for (const stepId of candidates) {
+        if (resolved.has(stepId)) {
+          continue;
+        }
+
+        const predecessors = new Set(graph.predecessors.get(stepId) || []);
+        for (const [source, targets] of Object.entries(transitions)) {
+          if (targets.includes(stepId)) {
+            predecessors.add(source);
+          }
+        }
+
+        if (![...predecessors].every(source => resolved.has(source))) {
+          continue;
+        }
+
+        // Declared dependencies hold a step back without handing over to it
+        const dependencies = graph.steps.get(stepId)?.dependencies || [];
+        if (!dependencies.every(dependency => resolved.has(dependency))) {
+          continue;
+        }
+
+        if ([...predecessors].some(source => transitions[source]?.includes(stepId))) {
+          ready.push(stepId);
+        } else {
+          this.markStepResolved(execution, stepId, 'skipped');
+          resolved.add(stepId);
+          skipped = true;
+        }
+      }
+
+      // A skip can settle further steps downstream, so look again before reporting
+      if (ready.length > 0 || !skipped) {
+        return ready.filter(stepId => graph.steps.has(stepId));
+      }
+    }
+  }
+
+  private markStepResolved(
+    execution: WorkflowExecution,
+    stepId: string,
+    outcome: 'completed' | 'skipped',
+    nextSteps: string[] = []
+  ): void {
+    execution.completedSteps = execution.completedSteps || [];
+    execution.skippedSteps = execution.skippedSteps || [];
+    execution.transitions = execution.transitions || {};
+
+    if (execution.completedSteps.includes(stepId) || execution.skippedSteps.includes(stepId)) {
+      return;
+    }
+
+    if (outcome === 'completed') {
+      execution.completedSteps.push(stepId);
+    } else {
+      execution.skippedSteps.push(stepId);
+      this.logger.debug(`Skipping step ${stepId} in execution ${execution.id}`);
+    }
+    execution.transitions[stepId] = nextSteps;
+  }
+
+  /**
+   * Whether an event matches any of a workflow's triggers, conditions
+   * included, and so would start it.
+   */
+  matchesTriggers(definition: WorkflowDefinition, event: Event): boolean {
+    return this.findStartSteps(definition, event).length > 0;
+  }
+
+  // Several triggers may start at the same step; it still runs once
+  private findStartSteps(definition: WorkflowDefinition, triggerEvent: Event): string[] {
+    const startSteps = definition.triggers
+      .filter(
+        trigger =>
+          trigger.eventType === triggerEvent.type &&
+          this.evaluateTriggerConditions(trigger, triggerEvent)
+      )
+      .map(trigger => trigger.type);
+    return Array.from(new Set(startSteps));
+  }
+
+  private evaluateTriggerConditions(trigger: WorkflowTrigger, event: Event): boolean {
+    if (!trigger.filters && (!trigger.conditions || trigger.conditions.length === 0)) {
+      return true;
+    }
+
+    const scope = buildEventScope(event);
+
+    try {
+      if (trigger.filters && !this.expressionEngine.matchesFilters(trigger.filters, scope)) {
+        return false;
+      }
+
+      return (trigger.conditions || []).every(condition =>
+        this.expressionEngine.test(condition, scope)
+      );
+    } catch (error) {
+      // A condition that cannot be evaluated never matches
+      this.logger.warn(
+        `Trigger ${trigger.type} condition evaluation failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    }
+  }
+
+  private async handleStepError(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    error: Error,
+    scope?: StepScope
+  ): Promise<StepResult> {
+    // Execute error handler step
+    const errorHandler = definition.steps.find(s => s.id === step.errorHandler);
+    if (errorHandler) {
+      return await this.executeStep(execution, definition, errorHandler.id, { error }, scope);
+    }
+
+    return {
+      success: false,
+      error: error.message,
+    };
+  }
+
+  private generateExecutionId(): string {
+    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+    return (
+      this.executions.get(executionId) ??
+      (await this.stateManager.loadExecutionState(executionId)) ??
+      undefined
+    );
+  }
+
+  /**
+   * Every step run of an execution in the order they started, one entry per
+   * attempt, for rendering a timeline.
+   */
+  async getExecutionSteps(executionId: string): Promise<StepRun[]> {
+    const execution = await this.getExecution(executionId);
+    if (!execution) {
+      throw new NotFoundException(`Execution ${executionId} not found`);
+    }
+
+    return this.stepJournal.getStepRuns(executionId);
+  }
+
+  /**
+   * Sends a named signal to an execution, resolving its pending wait step for
+   * that signal. Returns false if the execution isn't waiting for it.
+   */
+  async signalExecution(
+    executionId: string,
+    signal: string,
+    payload: Record<string, any> = {}
+  ): Promise<boolean> {
+    const waits = await this.signalService.findPendingForExecution(executionId, signal);
+    for (const wait of waits) {
+      if (await this.deliverSignal(wait, payload)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Requests cancellation of an execution. A running execution is aborted and
+   * stops at the next point its steps cooperate; the `cancelled` event fires
+   * once it has actually stopped. Waiting executions stop immediately.
+   */
+  async cancelExecution(
+    executionId: string,
+    options: { reason?: string; cleanup?: boolean } = {}
+  ): Promise<void> {
+    const cancellation = {
+      requestedAt: new Date(),
+      reason: options.reason,
+      cleanup: options.cleanup ?? true,
+    };
+
+    const running = this.executions.get(executionId);
+    const controller = this.abortControllers.get(executionId);
+    if (running && controller) {
+      if (!running.cancellation) {
+        running.cancellation = cancellation;
+        this.logger.log(`Cancellation requested for workflow execution ${executionId}`);
+        controller.abort();
+      }
+      return;
+    }
+
+    const execution = await this.stateManager.loadExecutionState(executionId);
+    if (!execution || ['completed', 'failed', 'cancelled'].includes(execution.status)) {
+      return;
+    }
+
+    // Still waiting for a worker: take it out of the queue before anyone starts it
+    if (execution.status === 'queued' && (await this.executionQueue.remove(executionId))) {
+      execution.cancellation = cancellation;
+      const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+      await this.finishCancellation(execution, definition);
+      return;
+    }
+
+    // Owned by another instance, or just claimed by a worker; picked up on the next heartbeat
+    if (['queued', 'pending', 'running'].includes(execution.status)) {
+      await this.stateManager.requestCancellation(executionId, cancellation);
+      this.logger.log(`Cancellation requested for workflow execution ${executionId}`);
+      return;
+    }
+
+    execution.cancellation = cancellation;
+    const definition = await this.workflowRegistry.getWorkflow(execution.workflowId);
+    await this.finishCancellation(execution, definition);
   }
 }
@@ -0,0 +1,46 @@
+import { WorkflowDefinition } from '../types';
+import { assertExecutable, canTransition, getRestoredStatus } from './workflow-lifecycle';
+
+describe('workflow lifecycle', () => {
+  it('only moves forward from a draft, and never back to one', () => {
+    expect(canTransition('draft', 'published')).toBe(true);
+    expect(canTransition('draft', 'archived')).toBe(false);
+    expect(canTransition('published', 'draft')).toBe(false);
+    expect(canTransition('archived', 'published')).toBe(false);
+  });
+
+  it('restores deprecated and archived versions one step at a time', () => {
+    expect(getRestoredStatus('archived')).toBe('deprecated');
+    expect(getRestoredStatus('deprecated')).toBe('published');
+    expect(getRestoredStatus('published')).toBeUndefined();
+    expect(getRestoredStatus('draft')).toBeUndefined();
+  });
+
+  describe('assertExecutable', () => {
+    const version = (status: WorkflowDefinition['status']): WorkflowDefinition => ({
+      id: 'wf-2',
+      name: 'refunds',
+      version: '2.1.0',
+      status,
+      triggers: [],
+      steps: [],
+      metadata: {},
+    });
+
+    it('refuses to start drafts and archived versions', () => {
+      expect(() => assertExecutable(version('draft'))).toThrow(
+        'Workflow refunds@2.1.0 is a draft; publish it before executing it'
+      );
+      expect(() => assertExecutable(version('archived'))).toThrow(
+        "Workflow refunds@2.1.0 is archived and can't be executed"
+      );
+    });
+
+    it('starts deprecated versions with a warning', () => {
+      expect(assertExecutable(version('deprecated'))).toEqual([
+        'Workflow refunds@2.1.0 is deprecated; move to a newer published version',
+      ]);
+      expect(assertExecutable(version('published'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { WorkflowDefinition, WorkflowStatus } from '../types';
+
+/**
+ * The statuses each status can move to. A draft is published once it is
+ * ready; a published version is deprecated while callers move off it and
+ * archived once nothing should start it any more. Deprecation and archival
+ * can be undone one step at a time. Drafts are deleted rather than archived.
+ */
+export const WORKFLOW_STATUS_TRANSITIONS: Record<WorkflowStatus, readonly WorkflowStatus[]> = {
+  draft: ['published'],
+  published: ['deprecated', 'archived'],
+  deprecated: ['published', 'archived'],
+  archived: ['deprecated'],
+};
+
+// The status `restore` returns a version to
+const RESTORED_STATUS: Partial<Record<WorkflowStatus, WorkflowStatus>> = {
+  deprecated: 'published',
+  archived: 'deprecated',
+};
+
+export function canTransition(from: WorkflowStatus, to: WorkflowStatus): boolean {
+  return WORKFLOW_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function getRestoredStatus(status: WorkflowStatus): WorkflowStatus | undefined {
+  return RESTORED_STATUS[status];
+}
+
+/**
+ * Checks that new executions may start from a definition: drafts and
+ * archived versions can't run. Returns warnings to pass on to whoever starts
+ * a deprecated version. Executions already running are not affected.
+ */
+export function assertExecutable(definition: WorkflowDefinition): string[] {
+  const label = `${definition.name}@${definition.version}`;
+
+  switch (definition.status) {
+    case 'draft':
+      throw new Error(`Workflow ${label} is a draft; publish it before executing it`);
+    case 'archived':
+      throw new Error(`Workflow ${label} is archived and can't be executed`);
+    case 'deprecated':
+      return [`Workflow ${label} is deprecated; move to a newer published version`];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,215 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { InMemoryCacheInvalidationBus } from './cache-invalidation';
+import { WorkflowRegistry } from './workflow-registry';
+import { ExpressionEngine } from './expression-engine';
+import { ActionRegistry } from './action-registry';
+import { WorkflowDefinition, WorkflowStep } from '../types';
+import { WorkflowDefinitionEntity } from '../workflows/entities/workflow-definition.entity';
+
+jest.mock('./action-registry', () => ({ ActionRegistry: class {} }));
+jest.mock('../workflows/entities/workflow-definition.entity', () => ({
+  WorkflowDefinitionEntity: class {},
+}));
+
+describe('WorkflowRegistry', () => {
+  let repository: { findOne: jest.Mock; save: jest.Mock };
+  let eventEmitter: EventEmitter2;
+  let registry: WorkflowRegistry;
+
+  beforeEach(() => {
+    repository = {
+      findOne: jest.fn(() => Promise.resolve(null)),
+      save: jest.fn((entity: unknown) => Promise.resolve(entity)),
+    };
+    eventEmitter = new EventEmitter2();
+    const actionRegistry = { validateConfig: () => [] };
+    const configService = { get: (_key: string, defaultValue: unknown) => defaultValue };
+    registry = new WorkflowRegistry(
+      repository as unknown as Repository<WorkflowDefinitionEntity>,
+      new ExpressionEngine(),
+      actionRegistry as unknown as ActionRegistry,
+      new InMemoryCacheInvalidationBus(),
+      configService as unknown as ConfigService,
+      eventEmitter
+    );
+  });
+
+  describe('validateWorkflow', () => {
+    // Payment failures are refunded; shipping waits for the warehouse to pack
+    const checkout = (...changes: Partial<WorkflowStep>[]): WorkflowDefinition => {
+      const steps: WorkflowStep[] = [
+        { id: 'reserve', name: 'reserve', type: 'action', config: {}, next: ['charge', 'pack'] },
+        { id: 'charge', name: 'charge', type: 'action', config: {}, errorHandler: 'refund' },
+        { id: 'pack', name: 'pack', type: 'parallel', config: { branches: ['box'] } },
+        { id: 'box', name: 'box', type: 'action', config: {} },
+        { id: 'ship', name: 'ship', type: 'action', config: {}, dependencies: ['charge'] },
+        { id: 'refund', name: 'refund', type: 'action', config: {} },
+      ];
+      return {
+        id: 'wf-1',
+        name: 'checkout',
+        version: '1.0.0',
+        metadata: {},
+        triggers: [{ type: 'reserve', eventType: 'order.created' }],
+        steps: steps.map(step => ({
+          ...step,
+          ...changes.find(change => change.id === step.id),
+        })),
+      };
+    };
+
+    it('accepts a workflow whose steps all lead on from a trigger', async () => {
+      const result = await registry.validateWorkflow(
+        checkout({ id: 'pack', next: ['ship'] }, { id: 'charge', next: ['ship'] })
+      );
+
+      expect(result).toMatchObject({ isValid: true, errors: [], warnings: [] });
+    });
+
+    it('rejects a cycle and points at the step it starts from', async () => {
+      const result = await registry.validateWorkflow(
+        checkout({ id: 'pack', next: ['ship'] }, { id: 'ship', next: ['reserve'] })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toContainEqual({
+        severity: 'error',
+        message: 'Workflow contains a cycle: reserve -> charge -> ship -> reserve',
+        stepId: 'reserve',
+      });
+    });
+
+    it('rejects references to steps that do not exist', async () => {
+      const result = await registry.validateWorkflow(
+        checkout(
+          { id: 'pack', next: ['ship', 'label'] },
+          { id: 'charge', errorHandler: 'void' },
+          { id: 'ship', dependencies: ['charge', 'ship', 'invoice'] }
+        )
+      );
+
+      expect(result.issues?.filter(issue => issue.severity === 'error')).toEqual([
+        {
+          severity: 'error',
+          message: 'Step charge error handler void does not exist',
+          stepId: 'charge',
+          field: 'errorHandler',
+        },
+        {
+          severity: 'error',
+          message: 'Step pack continues to unknown step label',
+          stepId: 'pack',
+          field: 'next',
+        },
+        {
+          severity: 'error',
+          message: 'Step ship depends on itself',
+          stepId: 'ship',
+          field: 'dependencies',
+        },
+        {
+          severity: 'error',
+          message: 'Step ship depends on unknown step invoice',
+          stepId: 'ship',
+          field: 'dependencies',
+        },
+        { severity: 'error', message: 'Workflow contains a cycle: ship -> ship', stepId: 'ship' },
+      ]);
+    });
+
+    it('only lets steps of the main flow depend on each other', async () => {
+      const result = await registry.validateWorkflow(
+        checkout(
+          { id: 'pack', next: ['ship'] },
+          { id: 'box', dependencies: ['charge'] },
+          { id: 'ship', dependencies: ['box'] }
+        )
+      );
+
+      expect(result.errors).toEqual([
+        'Step ship depends on box, which is not part of the main flow',
+      ]);
+      expect(result.warnings).toEqual(['Step box dependencies are ignored outside the main flow']);
+    });
+
+    it('warns about steps no trigger leads to without rejecting the workflow', async () => {
+      const result = await registry.validateWorkflow(
+        checkout({ id: 'pack', next: ['ship'] }, { id: 'charge', errorHandler: undefined })
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.issues).toEqual([
+        {
+          severity: 'warning',
+          message: 'Step refund is not reachable from any trigger',
+          stepId: 'refund',
+        },
+      ]);
+    });
+  });
+
+  describe('status changes', () => {
+    let row: Pick<WorkflowDefinitionEntity, 'status' | 'isActive'> & Record<string, unknown>;
+
+    beforeEach(() => {
+      row = {
+        id: 'wf-2',
+        name: 'refunds',
+        version: '2.1.0',
+        status: 'published',
+        isActive: true,
+        triggers: [],
+        steps: [],
+        metadata: {},
+      };
+      repository.findOne.mockImplementation(({ where }: { where: { id: string } }) =>
+        Promise.resolve(where.id === row.id ? { ...row } : null)
+      );
+      repository.save.mockImplementation((entity: typeof row) => {
+        row = { ...entity };
+        return Promise.resolve(entity);
+      });
+    });
+
+    it('archives a version and restores it one step at a time', async () => {
+      const changes: unknown[] = [];
+      eventEmitter.on('workflow.definition.status_changed', ({ previous, status }) =>
+        changes.push([previous, status])
+      );
+
+      expect(await registry.archiveWorkflow('wf-2')).toMatchObject({ status: 'archived' });
+      expect(row.isActive).toBe(false);
+      expect(await registry.restoreWorkflow('wf-2')).toMatchObject({ status: 'deprecated' });
+      expect(await registry.restoreWorkflow('wf-2')).toMatchObject({ status: 'published' });
+      expect(row.isActive).toBe(true);
+      expect(changes).toEqual([
+        ['published', 'archived'],
+        ['archived', 'deprecated'],
+        ['deprecated', 'published'],
+      ]);
+    });
+
+    it('refuses status changes the lifecycle does not allow as conflicts', async () => {
+      await expect(registry.publishWorkflow('wf-2')).rejects.toThrow(
+        new ConflictException("Workflow refunds@2.1.0 can't go from published to published")
+      );
+      await expect(registry.restoreWorkflow('wf-2')).rejects.toThrow(
+        new ConflictException("Workflow refunds@2.1.0 is published and can't be restored")
+      );
+
+      row.status = 'draft';
+      await expect(registry.archiveWorkflow('wf-2')).rejects.toThrow(ConflictException);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('reports unknown workflows as not found', async () => {
+      await expect(registry.deprecateWorkflow('wf-9')).rejects.toThrow(NotFoundException);
+      await expect(registry.restoreWorkflow('wf-9')).rejects.toThrow(
+        new NotFoundException('Workflow wf-9 not found')
+      );
+    });
+  });
+});
@@ -1,20 +1,112 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { WorkflowDefinition, ValidationResult } from '../types';
+import { randomUUID } from 'crypto';
+import {
+  WorkflowDefinition,
+  WorkflowStep,
+  ParallelStepConfig,
+  LoopStepConfig,
+  DelayStepConfig,
+  ConditionStepConfig,
+  WaitStepConfig,
+  SubWorkflowStepConfig,
+  ValidationResult,
+  ValidationIssue,
+  WorkflowDiff,
+  WorkflowStatus,
+} from '../types';
 import { WorkflowDefinitionEntity } from '../workflows/entities/workflow-definition.entity';
-
+import { ExpressionEngine } from './expression-engine';
+import { ActionRegistry } from './action-registry';
+import {
+  buildStepGraph,
+  findCycle,
+  findUnreachableSteps,
+  getPrecedingSteps,
+  getStepSuccessors,
+} from './step-graph';
+import { validateMapping } from './data-mapping';
+import { diffWorkflows } from './workflow-diff';
+import { canTransition, getRestoredStatus } from './workflow-lifecycle';
+import { validateSchedule } from './schedule';
+import { validateWebhook } from './webhook';
+import { CacheInvalidationBus } from './cache-invalidation';
+import { CacheStats, TtlCache } from './ttl-cache';
+import {
+  compareVersions,
+  formatVersion,
+  incrementVersion,
+  isValidRange,
+  maxSatisfying,
+  parseVersion,
+} from './semver';
+
+// Name of the registry's cache on the invalidation bus
+export const WORKFLOW_CACHE = 'workflow-definitions';
+
+/**
+ * Stores workflow definitions and resolves their versions. Definitions are
+ * cached by id for `WORKFLOW_CACHE_TTL_MS`, up to `WORKFLOW_CACHE_MAX_SIZE`
+ * entries. A change made through one instance is broadcast on the cache
+ * invalidation bus so every other instance drops its copy too; the TTL bounds
+ * how long a copy can outlive a missed invalidation.
+ *
+ * Status changes are announced locally as `workflow.definition.status_changed`
+ * events and deletions as `workflow.definition.deleted`.
+ */
 @Injectable()
-export class WorkflowRegistry {
+export class WorkflowRegistry implements OnModuleInit {
   private readonly logger = new Logger(WorkflowRegistry.name);
-  private readonly workflowCache = new Map<string, WorkflowDefinition>();
+  private readonly workflowCache: TtlCache<WorkflowDefinition>;
+  // Origin of this registry's invalidations on the bus
+  readonly instanceId = randomUUID();
 
   constructor(
     @InjectRepository(WorkflowDefinitionEntity)
     private readonly workflowRepository: Repository<WorkflowDefinitionEntity>,
-  ) {}
+    private readonly expressionEngine: ExpressionEngine,
+    private readonly actionRegistry: ActionRegistry,
+    private readonly cacheInvalidationBus: CacheInvalidationBus,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2
+  ) {
+    this.workflowCache = new TtlCache(
+      Math.max(1, Number(this.configService.get('WORKFLOW_CACHE_MAX_SIZE', 1000))),
+      Number(this.configService.get('WORKFLOW_CACHE_TTL_MS', 300000))
+    );
+  }
+
+  onModuleInit() {
+    this.cacheInvalidationBus.subscribe(invalidation => {
+      // This instance already dropped its own entries
+      if (invalidation.cache !== WORKFLOW_CACHE || invalidation.origin === this.instanceId) {
+        return;
+      }
+
+      if (invalidation.keys) {
+        invalidation.keys.forEach(key => this.workflowCache.delete(key));
+      } else {
+        this.workflowCache.clear();
+      }
+      this.logger.debug(
+        `Workflow cache invalidated by instance ${invalidation.origin}: ${
+          invalidation.keys?.join(', ') ?? 'all'
+        }`
+      );
+    });
+  }
 
-  async registerWorkflow(workflow: WorkflowDefinition): Promise<void> {
+  async registerWorkflow(workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
     try {
       this.logger.log(`Registering workflow: ${workflow.name}@${workflow.version}`);
 
@@ -34,18 +126,23 @@ export class WorkflowRegistry {
         description: workflow.description,
         triggers: workflow.triggers,
         steps: workflow.steps,
+        onCancel: workflow.onCancel,
+        maxConcurrency: workflow.maxConcurrency,
+        deadline: workflow.deadline,
         metadata: workflow.metadata,
         status: 'draft',
         isActive: false,
       });
 
       // Save to database
-      await this.workflowRepository.save(workflowEntity);
+      const saved = await this.workflowRepository.save(workflowEntity);
+      const registered: WorkflowDefinition = { ...workflow, id: saved.id, status: 'draft' };
 
       // Update cache
-      this.workflowCache.set(workflow.id, workflow);
+      this.workflowCache.set(saved.id, registered);
 
       this.logger.log(`Workflow registered successfully: ${workflow.name}@${workflow.version}`);
+      return registered;
     } catch (error) {
       this.logger.error(`Failed to register workflow ${workflow.name}:`, error);
       throw error;
@@ -55,8 +152,9 @@ export class WorkflowRegistry {
   async getWorkflow(workflowId: string): Promise<WorkflowDefinition | null> {
     try {
       // Check cache first
-      if (this.workflowCache.has(workflowId)) {
-        return this.workflowCache.get(workflowId)!;
+      const cached = this.workflowCache.get(workflowId);
+      if (cached) {
+        return cached;
       }
 
       // Query database
@@ -76,7 +174,11 @@ export class WorkflowRegistry {
         description: workflowEntity.description,
         triggers: workflowEntity.triggers,
         steps: workflowEntity.steps,
+        onCancel: workflowEntity.onCancel,
+        maxConcurrency: workflowEntity.maxConcurrency,
+        deadline: workflowEntity.deadline,
         metadata: workflowEntity.metadata || {},
+        status: workflowEntity.status,
       };
 
       // Update cache
@@ -89,17 +191,24 @@ export class WorkflowRegistry {
     }
   }
 
+  /**
+   * Resolves a workflow by name. `version` is an exact version (of any
+   * status) or a semver range such as `^1.2.0`, matched against published
+   * versions. Without one, the highest published version is returned, or the
+   * highest version of any status if none is published.
+   */
   async getWorkflowByName(name: string, version?: string): Promise<WorkflowDefinition | null> {
     try {
-      const whereClause: any = { name };
-      if (version) {
-        whereClause.version = version;
-      }
-
-      const workflowEntity = await this.workflowRepository.findOne({
-        where: whereClause,
-        order: { versionNumber: 'DESC' },
+      const versions = await this.workflowRepository.find({
+        where: { name },
+        select: ['id', 'version', 'status'],
       });
+      const published = versions.filter(entity => entity.status === 'published');
+
+      const workflowEntity = version
+        ? (versions.find(entity => entity.version === version) ??
+          this.findHighestVersion(published, version))
+        : (this.findHighestVersion(published) ?? this.findHighestVersion(versions));
 
       if (!workflowEntity) {
         return null;
@@ -112,13 +221,46 @@ export class WorkflowRegistry {
     }
   }
 
-  async listWorkflows(
-    filters?: {
-      status?: string;
-      isActive?: boolean;
-      search?: string;
+  /**
+   * Every version of a workflow with its status, without the definitions.
+   */
+  async getWorkflowVersions(
+    name: string
+  ): Promise<Array<Pick<WorkflowDefinitionEntity, 'id' | 'version' | 'status'>>> {
+    return this.workflowRepository.find({
+      where: { name },
+      select: ['id', 'version', 'status'],
+    });
+  }
+
+  /**
+   * The highest published version of a workflow.
+   */
+  async getLatestPublishedWorkflow(name: string): Promise<WorkflowDefinition | null> {
+    try {
+      const workflowEntity = this.findHighestVersion(
+        await this.workflowRepository.find({
+          where: { name, status: 'published' },
+          select: ['id', 'version'],
+        })
+      );
+
+      if (!workflowEntity) {
+        return null;
+      }
+
+      return this.getWorkflow(workflowEntity.id);
+    } catch (error) {
+      this.logger.error(`Failed to get published workflow ${name}:`, error);
+      throw error;
     }
-  ): Promise<WorkflowDefinition[]> {
+  }
+
+  async listWorkflows(filters?: {
+    status?: string;
+    isActive?: boolean;
+    search?: string;
+  }): Promise<WorkflowDefinition[]> {
     try {
       const queryBuilder = this.workflowRepository.createQueryBuilder('workflow');
 
@@ -157,6 +299,12 @@ export class WorkflowRegistry {
     }
   }
 
+  /**
+   * Edits a draft in place. Any other version is immutable, since executions
+   * run against it, so editing it creates a new draft version instead (the
+   * given `version`, or the next patch after the highest existing version)
+   * and returns that.
+   */
   async updateWorkflow(
     workflowId: string,
     updates: Partial<WorkflowDefinition>
@@ -172,42 +320,84 @@ export class WorkflowRegistry {
         throw new Error(`Workflow ${workflowId} not found`);
       }
 
+      if (workflowEntity.status !== 'draft') {
+        return await this.createDraftVersion(workflowEntity, updates);
+      }
+
+      // A renamed or renumbered draft must not collide with another version
+      const name = updates.name || workflowEntity.name;
+      const version = updates.version || workflowEntity.version;
+      if (updates.version && !parseVersion(updates.version)) {
+        throw new Error(`Workflow version ${updates.version} is not a semantic version`);
+      }
+      if (name !== workflowEntity.name || version !== workflowEntity.version) {
+        const existing = await this.workflowRepository.findOne({ where: { name, version } });
+        if (existing && existing.id !== workflowEntity.id) {
+          throw new Error(`Workflow ${name}@${version} already exists`);
+        }
+      }
+
       // Update fields
       if (updates.name) workflowEntity.name = updates.name;
       if (updates.version) workflowEntity.version = updates.version;
       if (updates.description !== undefined) workflowEntity.description = updates.description;
       if (updates.triggers) workflowEntity.triggers = updates.triggers;
       if (updates.steps) workflowEntity.steps = updates.steps;
+      if (updates.onCancel !== undefined) workflowEntity.onCancel = updates.onCancel;
+      if (updates.maxConcurrency !== undefined)
+        workflowEntity.maxConcurrency = updates.maxConcurrency;
+      if (updates.deadline !== undefined) workflowEntity.deadline = updates.deadline;
       if (updates.metadata) workflowEntity.metadata = updates.metadata;
 
       // Save updates
       await this.workflowRepository.save(workflowEntity);
 
       // Update cache
-      this.workflowCache.delete(workflowId);
+      await this.invalidateWorkflows([workflowId]);
 
       // Return updated workflow
-      return await this.getWorkflow(workflowId);
+      return (await this.getWorkflow(workflowId))!;
     } catch (error) {
       this.logger.error(`Failed to update workflow ${workflowId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * What changed from one version of a workflow to another.
+   */
+  async diffWorkflowVersions(fromId: string, toId: string): Promise<WorkflowDiff> {
+    const [from, to] = await Promise.all([this.getWorkflow(fromId), this.getWorkflow(toId)]);
+    if (!from) {
+      throw new NotFoundException(`Workflow ${fromId} not found`);
+    }
+    if (!to) {
+      throw new NotFoundException(`Workflow ${toId} not found`);
+    }
+    if (from.name !== to.name) {
+      throw new BadRequestException(
+        `Workflows ${from.name} and ${to.name} are not versions of the same workflow`
+      );
+    }
+
+    return diffWorkflows(from, to);
+  }
+
   async deleteWorkflow(workflowId: string): Promise<void> {
     try {
       this.logger.log(`Deleting workflow: ${workflowId}`);
 
       const result = await this.workflowRepository.delete(workflowId);
-      
+
       if (result.affected === 0) {
         throw new Error(`Workflow ${workflowId} not found`);
       }
 
       // Remove from cache
-      this.workflowCache.delete(workflowId);
+      await this.invalidateWorkflows([workflowId]);
 
       this.logger.log(`Workflow deleted successfully: ${workflowId}`);
+      this.eventEmitter.emit('workflow.definition.deleted', { workflowId });
     } catch (error) {
       this.logger.error(`Failed to delete workflow ${workflowId}:`, error);
       throw error;
@@ -215,64 +405,172 @@ export class WorkflowRegistry {
   }
 
   async publishWorkflow(workflowId: string): Promise<void> {
-    try {
-      this.logger.log(`Publishing workflow: ${workflowId}`);
-
-      const workflowEntity = await this.workflowRepository.findOne({
-        where: { id: workflowId },
-      });
+    await this.transitionWorkflow(workflowId, 'published');
+  }
 
-      if (!workflowEntity) {
-        throw new Error(`Workflow ${workflowId} not found`);
-      }
+  /**
+   * Deprecates a published version. Published versions never become editable
+   * drafts again.
+   */
+  async unpublishWorkflow(workflowId: string): Promise<void> {
+    await this.transitionWorkflow(workflowId, 'deprecated');
+  }
 
-      // Update status to published
-      workflowEntity.status = 'published';
-      workflowEntity.isActive = true;
+  /**
+   * Marks a version as on its way out: executions still start, with a
+   * warning, but version ranges no longer resolve to it.
+   */
+  async deprecateWorkflow(workflowId: string): Promise<WorkflowDefinition> {
+    return this.transitionWorkflow(workflowId, 'deprecated');
+  }
 
-      await this.workflowRepository.save(workflowEntity);
+  /**
+   * Retires a version: no new executions start from it, while running ones
+   * finish.
+   */
+  async archiveWorkflow(workflowId: string): Promise<WorkflowDefinition> {
+    return this.transitionWorkflow(workflowId, 'archived');
+  }
 
-      // Update cache
-      this.workflowCache.delete(workflowId);
+  /**
+   * Undoes the last deprecation or archival: a deprecated version is
+   * published again and an archived one becomes deprecated.
+   */
+  async restoreWorkflow(workflowId: string): Promise<WorkflowDefinition> {
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new NotFoundException(`Workflow ${workflowId} not found`);
+    }
 
-      this.logger.log(`Workflow published successfully: ${workflowId}`);
-    } catch (error) {
-      this.logger.error(`Failed to publish workflow ${workflowId}:`, error);
-      throw error;
+    const restored = workflow.status && getRestoredStatus(workflow.status);
+    if (!restored) {
+      throw new ConflictException(
+        `Workflow ${workflow.name}@${workflow.version} is ${workflow.status} and can't be restored`
+      );
     }
+    return this.transitionWorkflow(workflowId, restored);
   }
 
-  async unpublishWorkflow(workflowId: string): Promise<void> {
+  private async transitionWorkflow(
+    workflowId: string,
+    status: WorkflowStatus
+  ): Promise<WorkflowDefinition> {
     try {
-      this.logger.log(`Unpublishing workflow: ${workflowId}`);
-
       const workflowEntity = await this.workflowRepository.findOne({
         where: { id: workflowId },
       });
 
       if (!workflowEntity) {
-        throw new Error(`Workflow ${workflowId} not found`);
+        throw new NotFoundException(`Workflow ${workflowId} not found`);
       }
 
-      // Update status to draft
-      workflowEntity.status = 'draft';
-      workflowEntity.isActive = false;
+      const label = `${workflowEntity.name}@${workflowEntity.version}`;
+      const previous = workflowEntity.status;
+      if (!canTransition(previous, status)) {
+        throw new ConflictException(`Workflow ${label} can't go from ${previous} to ${status}`);
+      }
+
+      // Only published versions are started by triggers
+      workflowEntity.status = status;
+      workflowEntity.isActive = status === 'published';
 
       await this.workflowRepository.save(workflowEntity);
 
       // Update cache
-      this.workflowCache.delete(workflowId);
+      await this.invalidateWorkflows([workflowId]);
+
+      this.logger.log(`Workflow ${label} moved from ${previous} to ${status}`);
 
-      this.logger.log(`Workflow unpublished successfully: ${workflowId}`);
+      const workflow = (await this.getWorkflow(workflowId))!;
+      this.eventEmitter.emit('workflow.definition.status_changed', { workflow, previous, status });
+      return workflow;
     } catch (error) {
-      this.logger.error(`Failed to unpublish workflow ${workflowId}:`, error);
+      this.logger.error(`Failed to move workflow ${workflowId} to ${status}:`, error);
       throw error;
     }
   }
 
+  private async createDraftVersion(
+    source: WorkflowDefinitionEntity,
+    updates: Partial<WorkflowDefinition>
+  ): Promise<WorkflowDefinition> {
+    if (updates.name && updates.name !== source.name) {
+      throw new Error(
+        `Workflow ${source.name}@${source.version} is ${source.status} and can't be renamed`
+      );
+    }
+
+    const existing = await this.workflowRepository.find({
+      where: { name: source.name },
+      select: ['id', 'version'],
+    });
+    const highest = this.findHighestVersion(existing) ?? source;
+    const latest = parseVersion(highest.version);
+
+    let version = updates.version;
+    if (!version) {
+      if (!latest) {
+        throw new Error(
+          `Workflow ${source.name}@${highest.version} is not a semantic version; give the new version explicitly`
+        );
+      }
+      version = formatVersion(incrementVersion(latest, 'patch'));
+    } else {
+      const requested = parseVersion(version);
+      if (!requested) {
+        throw new Error(`Workflow version ${version} is not a semantic version`);
+      }
+      if (latest && compareVersions(requested, latest) <= 0) {
+        throw new Error(
+          `Workflow version ${version} must be higher than the latest version ${highest.version}`
+        );
+      }
+    }
+
+    const draft = this.workflowRepository.create({
+      name: source.name,
+      version,
+      description: updates.description !== undefined ? updates.description : source.description,
+      triggers: updates.triggers ?? source.triggers,
+      steps: updates.steps ?? source.steps,
+      onCancel: updates.onCancel !== undefined ? updates.onCancel : source.onCancel,
+      maxConcurrency:
+        updates.maxConcurrency !== undefined ? updates.maxConcurrency : source.maxConcurrency,
+      deadline: updates.deadline !== undefined ? updates.deadline : source.deadline,
+      metadata: updates.metadata ?? source.metadata,
+      status: 'draft',
+      isActive: false,
+    });
+    const saved = await this.workflowRepository.save(draft);
+
+    this.logger.log(
+      `Workflow ${source.name}@${source.version} is ${source.status}; created draft version ${version}`
+    );
+    return (await this.getWorkflow(saved.id))!;
+  }
+
+  /**
+   * The entity with the highest semantic version, optionally within a range.
+   */
+  private findHighestVersion<T extends { version: string }>(
+    entities: T[],
+    range: string = '*'
+  ): T | undefined {
+    const version = maxSatisfying(
+      entities.map(entity => entity.version),
+      range
+    );
+    return entities.find(entity => entity.version === version);
+  }
+
   async validateWorkflow(workflow: WorkflowDefinition): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const issues: ValidationIssue[] = [];
+    const report = (issue: ValidationIssue) => {
+      (issue.severity === 'error' ? errors : warnings).push(issue.message);
+      issues.push(issue);
+    };
 
     try {
       // Basic validation
@@ -282,6 +580,8 @@ export class WorkflowRegistry {
 
       if (!workflow.version || workflow.version.trim().length === 0) {
         errors.push('Workflow version is required');
+      } else if (!parseVersion(workflow.version)) {
+        errors.push(`Workflow version ${workflow.version} is not a semantic version`);
       }
 
       if (!workflow.triggers || workflow.triggers.length === 0) {
@@ -293,17 +593,75 @@ export class WorkflowRegistry {
       }
 
       // Validate triggers
-      for (const trigger of workflow.triggers) {
+      for (const [index, trigger] of workflow.triggers.entries()) {
         if (!trigger.type || trigger.type.trim().length === 0) {
           errors.push('Trigger type is required');
+        } else if (!workflow.steps?.some(step => step.id === trigger.type)) {
+          report({
+            severity: 'error',
+            message: `Trigger ${index + 1} starts at unknown step ${trigger.type}`,
+            field: `triggers[${index}].type`,
+          });
         }
         if (!trigger.eventType || trigger.eventType.trim().length === 0) {
           errors.push('Event type is required for trigger');
         }
+
+        // Validate trigger conditions and filters
+        (trigger.conditions || []).forEach((condition, index) => {
+          const error = this.expressionEngine.validate(condition);
+          if (error) {
+            errors.push(`Trigger ${trigger.type} condition ${index + 1} is invalid: ${error}`);
+          }
+        });
+        if (trigger.filters) {
+          for (const error of this.expressionEngine.validateFilters(trigger.filters)) {
+            errors.push(`Trigger ${trigger.type} filters are invalid: ${error}`);
+          }
+        }
+        for (const error of trigger.schedule ? validateSchedule(trigger.schedule) : []) {
+          report({
+            severity: 'error',
+            message: `Trigger ${index + 1} ${error}`,
+            field: `triggers[${index}].schedule`,
+          });
+        }
+        for (const error of trigger.webhook ? validateWebhook(trigger.webhook) : []) {
+          report({
+            severity: 'error',
+            message: `Trigger ${index + 1} ${error}`,
+            field: `triggers[${index}].webhook`,
+          });
+        }
+        if (trigger.schedule && trigger.webhook) {
+          report({
+            severity: 'error',
+            message: `Trigger ${index + 1} can't have both a schedule and a webhook`,
+            field: `triggers[${index}]`,
+          });
+        }
       }
 
       // Validate steps
+      const preceding = getPrecedingSteps(workflow);
+      const stepIds = new Set<string>();
       for (const step of workflow.steps) {
+        if (stepIds.has(step.id)) {
+          report({
+            severity: 'error',
+            message: `Step ID ${step.id} is used by more than one step`,
+            stepId: step.id,
+            field: 'id',
+          });
+        }
+        stepIds.add(step.id);
+      }
+
+      const mainFlow = new Set(buildStepGraph(workflow).successors.keys());
+      for (const step of workflow.steps) {
+        const errorCount = errors.length;
+        const warningCount = warnings.length;
+
         if (!step.id || step.id.trim().length === 0) {
           errors.push('Step ID is required');
         }
@@ -316,67 +674,391 @@ export class WorkflowRegistry {
         if (!step.config) {
           errors.push('Step configuration is required');
         }
+        if (step.timeout !== undefined) {
+          if (!Number.isInteger(step.timeout) || step.timeout < 1) {
+            errors.push(`Step ${step.id} timeout must be a positive number of milliseconds`);
+          } else if (!['action', 'parallel', 'loop'].includes(step.type)) {
+            warnings.push(`Step ${step.id} timeout is ignored for ${step.type} steps`);
+          }
+        }
+        if (step.input !== undefined && step.type !== 'action') {
+          warnings.push(`Step ${step.id} input mapping is ignored for ${step.type} steps`);
+        }
+        if (step.mergeOutput !== undefined && typeof step.mergeOutput !== 'boolean') {
+          errors.push(`Step ${step.id} mergeOutput must be true or false`);
+        } else if (step.mergeOutput && step.output !== undefined) {
+          warnings.push(`Step ${step.id} mergeOutput is ignored because it has an output mapping`);
+        }
+        for (const kind of ['input', 'output'] as const) {
+          if (step[kind] !== undefined) {
+            errors.push(
+              ...validateMapping(
+                this.expressionEngine,
+                step,
+                kind,
+                preceding.get(step.id) ?? new Set(),
+                stepIds
+              )
+            );
+          }
+        }
+        if (step.type === 'action' && step.config) {
+          errors.push(...this.actionRegistry.validateConfig(step.id, step.config));
+        }
+        if (step.type === 'parallel' && step.config) {
+          errors.push(...this.validateParallelStep(step, workflow));
+        }
+        if (step.type === 'loop' && step.config) {
+          errors.push(...this.validateLoopStep(step, workflow));
+        }
+        if (step.type === 'delay' && step.config) {
+          errors.push(...this.validateDelayStep(step));
+        }
+        if (step.type === 'condition' && step.config) {
+          errors.push(...this.validateConditionStep(step, workflow));
+        }
+        if (step.type === 'wait' && step.config) {
+          errors.push(...this.validateWaitStep(step, workflow));
+        }
+        if (step.type === 'subworkflow' && step.config) {
+          errors.push(...this.validateSubWorkflowStep(step));
+        }
+
+        for (const message of errors.slice(errorCount)) {
+          issues.push({ severity: 'error', message, stepId: step.id });
+        }
+        for (const message of warnings.slice(warningCount)) {
+          issues.push({ severity: 'warning', message, stepId: step.id });
+        }
+        this.validateStepReferences(step, stepIds, mainFlow).forEach(report);
       }
 
-      // Check for circular dependencies
-      if (this.hasCircularDependencies(workflow)) {
-        errors.push('Workflow contains circular dependencies');
+      if (workflow.onCancel && !workflow.steps.some(step => step.id === workflow.onCancel)) {
+        errors.push(`Cancellation step ${workflow.onCancel} does not exist`);
       }
 
-      // Check for orphaned steps
-      const orphanedSteps = this.findOrphanedSteps(workflow);
-      if (orphanedSteps.length > 0) {
-        warnings.push(`Orphaned steps found: ${orphanedSteps.join(', ')}`);
+      if (
+        workflow.maxConcurrency !== undefined &&
+        (!Number.isInteger(workflow.maxConcurrency) || workflow.maxConcurrency < 1)
+      ) {
+        errors.push('Workflow maxConcurrency must be a positive integer');
       }
 
+      if (
+        workflow.deadline !== undefined &&
+        (!Number.isInteger(workflow.deadline) || workflow.deadline < 1)
+      ) {
+        errors.push('Workflow deadline must be a positive number of milliseconds');
+      }
+
+      // Check for cycles
+      const cycle = findCycle(workflow);
+      if (cycle) {
+        report({
+          severity: 'error',
+          message: `Workflow contains a cycle: ${cycle.join(' -> ')}`,
+          stepId: cycle[0],
+        });
+      }
+
+      // Check for steps nothing leads to
+      for (const stepId of findUnreachableSteps(workflow)) {
+        report({
+          severity: 'warning',
+          message: `Step ${stepId} is not reachable from any trigger`,
+          stepId,
+        });
+      }
     } catch (error) {
-      errors.push(`Validation error: ${error.message}`);
+      errors.push(`Validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Workflow-level problems have no step to point at
+    const located = new Set(issues.map(issue => issue.message));
+    for (const message of errors.filter(message => !located.has(message))) {
+      issues.push({ severity: 'error', message });
+    }
+    for (const message of warnings.filter(message => !located.has(message))) {
+      issues.push({ severity: 'warning', message });
     }
 
     return {
       isValid: errors.length === 0,
       errors,
       warnings,
+      issues,
     };
   }
 
-  private hasCircularDependencies(workflow: WorkflowDefinition): boolean {
-    // Simple circular dependency check
-    // In production, use a more sophisticated algorithm
-    return false;
+  /**
+   * Checks the steps a step names in `next`, `errorHandler` and
+   * `dependencies`. Dependencies can only hold back steps of the main flow,
+   * and only on other steps of the main flow.
+   */
+  private validateStepReferences(
+    step: WorkflowStep,
+    stepIds: Set<string>,
+    mainFlow: Set<string>
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const error = (message: string, field: string) =>
+      issues.push({ severity: 'error', message, stepId: step.id, field });
+
+    for (const target of step.next || []) {
+      if (!stepIds.has(target)) {
+        error(`Step ${step.id} continues to unknown step ${target}`, 'next');
+      }
+    }
+
+    if (step.errorHandler !== undefined && !stepIds.has(step.errorHandler)) {
+      error(`Step ${step.id} error handler ${step.errorHandler} does not exist`, 'errorHandler');
+    }
+
+    if (step.dependencies === undefined) {
+      return issues;
+    }
+    if (!Array.isArray(step.dependencies)) {
+      error(`Step ${step.id} dependencies must be a list of step IDs`, 'dependencies');
+      return issues;
+    }
+    if (step.dependencies.length > 0 && !mainFlow.has(step.id)) {
+      issues.push({
+        severity: 'warning',
+        message: `Step ${step.id} dependencies are ignored outside the main flow`,
+        stepId: step.id,
+        field: 'dependencies',
+      });
+      return issues;
+    }
+
+    for (const dependency of step.dependencies) {
+      if (dependency === step.id) {
+        error(`Step ${step.id} depends on itself`, 'dependencies');
+      } else if (!stepIds.has(dependency)) {
+        error(`Step ${step.id} depends on unknown step ${dependency}`, 'dependencies');
+      } else if (!mainFlow.has(dependency)) {
+        error(
+          `Step ${step.id} depends on ${dependency}, which is not part of the main flow`,
+          'dependencies'
+        );
+      }
+    }
+
+    return issues;
   }
 
-  private findOrphanedSteps(workflow: WorkflowDefinition): string[] {
-    const referencedSteps = new Set<string>();
-    const allSteps = new Set(workflow.steps.map(s => s.id));
+  private validateParallelStep(step: WorkflowStep, workflow: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+    const config = step.config as ParallelStepConfig;
+    const branches = config.branches;
 
-    // Find all referenced steps
-    for (const step of workflow.steps) {
-      if (step.next) {
-        for (const nextStep of step.next) {
-          referencedSteps.add(nextStep);
-        }
+    if (!Array.isArray(branches) || branches.length === 0) {
+      return [`Parallel step ${step.id} requires at least one branch`];
+    }
+
+    for (const branchId of branches) {
+      if (!workflow.steps.some(s => s.id === branchId)) {
+        errors.push(`Parallel step ${step.id} branch ${branchId} does not exist`);
+      }
+    }
+
+    const join = config.join ?? 'all';
+    if (!['all', 'any', 'n-of-m'].includes(join)) {
+      errors.push(`Parallel step ${step.id} has unknown join policy ${join}`);
+    }
+    if (
+      join === 'n-of-m' &&
+      (!Number.isInteger(config.required) ||
+        config.required! < 1 ||
+        config.required! > branches.length)
+    ) {
+      errors.push(
+        `Parallel step ${step.id} requires between 1 and ${branches.length} branches for n-of-m join`
+      );
+    }
+
+    return errors;
+  }
+
+  private validateLoopStep(step: WorkflowStep, workflow: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+    const config = step.config as LoopStepConfig;
+    const mode = config.mode ?? 'forEach';
+
+    if (!config.body || !workflow.steps.some(s => s.id === config.body)) {
+      errors.push(`Loop step ${step.id} body ${config.body ?? '(missing)'} does not exist`);
+    }
+
+    if (mode === 'forEach') {
+      const error = this.expressionEngine.validate(config.items!);
+      if (error) {
+        errors.push(`Loop step ${step.id} items expression is invalid: ${error}`);
+      }
+    } else if (mode === 'while') {
+      const error = this.expressionEngine.validate(config.condition!);
+      if (error) {
+        errors.push(`Loop step ${step.id} condition is invalid: ${error}`);
+      }
+    } else {
+      errors.push(`Loop step ${step.id} has unknown mode ${mode}`);
+    }
+
+    if (config.breakCondition) {
+      const error = this.expressionEngine.validate(config.breakCondition);
+      if (error) {
+        errors.push(`Loop step ${step.id} break condition is invalid: ${error}`);
       }
     }
 
-    // Add trigger steps
-    for (const trigger of workflow.triggers) {
-      referencedSteps.add(trigger.type);
+    if (
+      config.maxConcurrency !== undefined &&
+      (!Number.isInteger(config.maxConcurrency) || config.maxConcurrency < 1)
+    ) {
+      errors.push(`Loop step ${step.id} maxConcurrency must be a positive integer`);
     }
+    if (
+      config.maxIterations !== undefined &&
+      (!Number.isInteger(config.maxIterations) || config.maxIterations < 1)
+    ) {
+      errors.push(`Loop step ${step.id} maxIterations must be a positive integer`);
+    }
+
+    return errors;
+  }
+
+  private validateDelayStep(step: WorkflowStep): string[] {
+    const config = step.config as DelayStepConfig;
 
-    // Find orphaned steps
-    const orphaned: string[] = [];
-    for (const stepId of allSteps) {
-      if (!referencedSteps.has(stepId)) {
-        orphaned.push(stepId);
+    if (config.until !== undefined && config.duration !== undefined) {
+      return [`Delay step ${step.id} must set either duration or until, not both`];
+    }
+
+    if (config.until !== undefined) {
+      const error = this.expressionEngine.validate(config.until);
+      return error ? [`Delay step ${step.id} until expression is invalid: ${error}`] : [];
+    }
+
+    if (typeof config.duration !== 'number' || config.duration < 0) {
+      return [
+        `Delay step ${step.id} requires a non-negative duration in milliseconds or an until expression`,
+      ];
+    }
+
+    return [];
+  }
+
+  private validateWaitStep(step: WorkflowStep, workflow: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+    const config = step.config as WaitStepConfig;
+
+    if (typeof config.signal !== 'string' || config.signal.trim().length === 0) {
+      errors.push(`Wait step ${step.id} requires a signal name`);
+    }
+    if (config.correlationKey !== undefined) {
+      const error = this.expressionEngine.validate(config.correlationKey);
+      if (error) {
+        errors.push(`Wait step ${step.id} correlation key expression is invalid: ${error}`);
+      }
+    }
+    if (config.timeout !== undefined && (!Number.isInteger(config.timeout) || config.timeout < 1)) {
+      errors.push(`Wait step ${step.id} timeout must be a positive number of milliseconds`);
+    }
+    for (const target of config.onTimeout || []) {
+      if (!workflow.steps.some(s => s.id === target)) {
+        errors.push(`Wait step ${step.id} timeout target ${target} does not exist`);
       }
     }
 
-    return orphaned;
+    return errors;
+  }
+
+  private validateSubWorkflowStep(step: WorkflowStep): string[] {
+    const errors: string[] = [];
+    const config = step.config as SubWorkflowStepConfig;
+
+    if (typeof config.workflow !== 'string' || config.workflow.trim().length === 0) {
+      errors.push(`Sub-workflow step ${step.id} requires a workflow name`);
+    }
+    if (
+      config.version !== undefined &&
+      !parseVersion(config.version) &&
+      !isValidRange(config.version)
+    ) {
+      errors.push(
+        `Sub-workflow step ${step.id} version ${config.version} is neither a version nor a range`
+      );
+    }
+    if (config.mode !== undefined && !['wait', 'detach'].includes(config.mode)) {
+      errors.push(`Sub-workflow step ${step.id} has unknown mode ${config.mode}`);
+    }
+    for (const [key, expression] of Object.entries(config.input || {})) {
+      const error = this.expressionEngine.validate(expression);
+      if (error) {
+        errors.push(`Sub-workflow step ${step.id} input ${key} is invalid: ${error}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private validateConditionStep(step: WorkflowStep, workflow: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+    const config = step.config as ConditionStepConfig;
+
+    if (!Array.isArray(config.branches) || config.branches.length === 0) {
+      return [`Condition step ${step.id} requires at least one branch`];
+    }
+
+    config.branches.forEach((branch, index) => {
+      const error = this.expressionEngine.validate(branch.when);
+      if (error) {
+        errors.push(`Condition step ${step.id} branch ${index + 1} is invalid: ${error}`);
+      }
+    });
+
+    for (const target of getStepSuccessors(step)) {
+      if (!workflow.steps.some(s => s.id === target)) {
+        errors.push(`Condition step ${step.id} routes to unknown step ${target}`);
+      }
+    }
+
+    return errors;
   }
 
   async clearCache(): Promise<void> {
-    this.workflowCache.clear();
+    await this.invalidateWorkflows();
     this.logger.log('Workflow cache cleared');
   }
+
+  getCacheStats(): CacheStats {
+    return this.workflowCache.stats();
+  }
+
+  /**
+   * Drops workflows from this instance's cache and tells the other instances
+   * to do the same; all of them when `workflowIds` is omitted. A failed
+   * broadcast doesn't fail the change that caused it, since the other
+   * instances' copies expire anyway.
+   */
+  private async invalidateWorkflows(workflowIds?: string[]): Promise<void> {
+    if (workflowIds) {
+      workflowIds.forEach(workflowId => this.workflowCache.delete(workflowId));
+    } else {
+      this.workflowCache.clear();
+    }
+
+    try {
+      await this.cacheInvalidationBus.publish({
+        cache: WORKFLOW_CACHE,
+        keys: workflowIds,
+        origin: this.instanceId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to broadcast workflow cache invalidation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
 }
@@ -0,0 +1,244 @@
+import { BadRequestException, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readdir, readFile } from 'fs/promises';
+import { join, relative } from 'path';
+import {
+  WorkflowBundleFormat,
+  WorkflowDefinition,
+  WorkflowSpec,
+  WorkflowSyncEntry,
+  WorkflowSyncResult,
+} from '../types';
+import { WorkflowRegistry } from './workflow-registry';
+import { getBundleFormat, parseWorkflowBundle, WorkflowBundleError } from './workflow-bundle';
+import { diffWorkflows, hasChanges } from './workflow-diff';
+
+export interface WorkflowSyncOptions {
+  /** Publish synced versions that are still drafts */
+  publish?: boolean;
+  /** Report what would change without changing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Reconciles workflow definition files with the registry, so workflows can
+ * live in a git repository. Each `name@version` in the files is created if
+ * the registry doesn't have it and left alone if it matches. A draft that
+ * differs is updated from the file; a published or deprecated version that
+ * differs is reported as drifted rather than changed, since versions other
+ * than drafts are immutable, and the file needs a new version instead.
+ *
+ * With `WORKFLOW_SYNC_ON_STARTUP=true` the `WORKFLOW_SYNC_DIR` directory is
+ * synced when the application boots.
+ */
+@Injectable()
+export class WorkflowSyncService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WorkflowSyncService.name);
+
+  constructor(
+    private readonly workflowRegistry: WorkflowRegistry,
+    private readonly configService: ConfigService
+  ) {}
+
+  async onApplicationBootstrap() {
+    const directory = this.configService.get('WORKFLOW_SYNC_DIR');
+    if (!directory || this.configService.get('WORKFLOW_SYNC_ON_STARTUP', 'false') !== 'true') {
+      return;
+    }
+
+    try {
+      await this.syncDirectory(directory, {
+        publish: this.configService.get('WORKFLOW_SYNC_PUBLISH', 'false') === 'true',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to sync workflows from ${directory}:`, error);
+    }
+  }
+
+  /**
+   * Syncs the directory configured as `WORKFLOW_SYNC_DIR`.
+   */
+  async syncConfiguredDirectory(options: WorkflowSyncOptions = {}): Promise<WorkflowSyncResult> {
+    const directory = this.configService.get('WORKFLOW_SYNC_DIR');
+    if (!directory) {
+      throw new BadRequestException('No workflow directory configured; set WORKFLOW_SYNC_DIR');
+    }
+    return this.syncDirectory(directory, options);
+  }
+
+  /**
+   * Syncs every `.yaml`, `.yml` and `.json` file under `directory`. Files
+   * that can't be parsed are reported as invalid without stopping the sync.
+   * Workflows in the registry that no file defines are listed as untracked.
+   */
+  async syncDirectory(
+    directory: string,
+    options: WorkflowSyncOptions = {}
+  ): Promise<WorkflowSyncResult> {
+    this.logger.log(`Syncing workflows from ${directory}${options.dryRun ? ' (dry run)' : ''}`);
+
+    const entries: WorkflowSyncEntry[] = [];
+    const names = new Set<string>();
+    const seen = new Set<string>();
+
+    for (const path of await this.findBundleFiles(directory)) {
+      const file = relative(directory, path);
+
+      let workflows: WorkflowSpec[];
+      try {
+        const content = await readFile(path, 'utf8');
+        workflows = parseWorkflowBundle(content, getBundleFormat(path)!).workflows;
+      } catch (error) {
+        const errors =
+          error instanceof WorkflowBundleError
+            ? error.errors
+            : [error instanceof Error ? error.message : String(error)];
+        entries.push({ file, action: 'invalid', errors });
+        continue;
+      }
+
+      for (const spec of workflows) {
+        const key = `${spec.name}@${spec.version}`;
+        names.add(spec.name);
+        if (seen.has(key)) {
+          entries.push({
+            file,
+            name: spec.name,
+            version: spec.version,
+            action: 'invalid',
+            errors: [`Workflow ${key} is defined more than once`],
+          });
+          continue;
+        }
+        seen.add(key);
+        entries.push({ file, ...(await this.syncWorkflow(spec, options)) });
+      }
+    }
+
+    const registered = await this.workflowRegistry.listWorkflows();
+    const untracked = Array.from(new Set(registered.map(workflow => workflow.name)))
+      .filter(name => !names.has(name))
+      .sort();
+
+    const counts = entries.reduce<Record<string, number>>((totals, entry) => {
+      totals[entry.action] = (totals[entry.action] || 0) + 1;
+      return totals;
+    }, {});
+    this.logger.log(
+      `Synced ${entries.length} workflows from ${directory}: ${
+        Object.entries(counts)
+          .map(([action, count]) => `${count} ${action}`)
+          .join(', ') || 'nothing to do'
+      }`
+    );
+
+    return { directory, dryRun: !!options.dryRun, workflows: entries, untracked };
+  }
+
+  /**
+   * Imports the workflows of a bundle, as syncing a file with that content
+   * would.
+   */
+  async importBundle(
+    content: string,
+    format: WorkflowBundleFormat,
+    options: WorkflowSyncOptions = {}
+  ): Promise<WorkflowSyncEntry[]> {
+    const { workflows } = parseWorkflowBundle(content, format);
+
+    const entries: WorkflowSyncEntry[] = [];
+    for (const spec of workflows) {
+      entries.push(await this.syncWorkflow(spec, options));
+    }
+    return entries;
+  }
+
+  private async syncWorkflow(
+    spec: WorkflowSpec,
+    options: WorkflowSyncOptions
+  ): Promise<WorkflowSyncEntry> {
+    const key = `${spec.name}@${spec.version}`;
+    const entry: WorkflowSyncEntry = {
+      name: spec.name,
+      version: spec.version,
+      action: 'unchanged',
+    };
+
+    const versions = await this.workflowRegistry.getWorkflowVersions(spec.name);
+    const current = versions.find(version => version.version === spec.version);
+    const definition: WorkflowDefinition = {
+      ...spec,
+      id: current?.id ?? '',
+      metadata: spec.metadata ?? {},
+    };
+
+    const validation = await this.workflowRegistry.validateWorkflow(definition);
+    if (!validation.isValid) {
+      return { ...entry, action: 'invalid', errors: validation.errors };
+    }
+
+    let id = current?.id;
+    if (!current) {
+      entry.action = 'created';
+      if (!options.dryRun) {
+        id = (await this.workflowRegistry.registerWorkflow(definition)).id;
+      }
+    } else {
+      const registered = await this.workflowRegistry.getWorkflow(current.id);
+      const diff = diffWorkflows(registered!, definition);
+
+      if (hasChanges(diff)) {
+        if (current.status !== 'draft') {
+          return {
+            ...entry,
+            action: 'drifted',
+            diff,
+            errors: [`Workflow ${key} is ${current.status}; give the changed file a new version`],
+          };
+        }
+
+        entry.action = 'updated';
+        entry.diff = diff;
+        if (!options.dryRun) {
+          await this.workflowRegistry.updateWorkflow(current.id, definition);
+        }
+      }
+    }
+
+    if (options.publish && (!current || current.status === 'draft')) {
+      if (!options.dryRun) {
+        await this.workflowRegistry.publishWorkflow(id!);
+      }
+      entry.published = true;
+    }
+
+    if (entry.action !== 'unchanged' || entry.published) {
+      this.logger.log(
+        `Workflow ${key} ${entry.action}${entry.published ? ' and published' : ''}${
+          options.dryRun ? ' (dry run)' : ''
+        }`
+      );
+    }
+    return entry;
+  }
+
+  private async findBundleFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      // Skips .git and other hidden directories
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.findBundleFiles(path)));
+      } else if (entry.isFile() && getBundleFormat(entry.name)) {
+        files.push(path);
+      }
+    }
+
+    return files.sort();
+  }
+}
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { Logger } from '@nestjs/common';
+import { raw } from 'express';
 import { setupSwagger } from './config/swagger';
 import { setupGlobalPipes } from './config/pipes';
 import { setupGlobalFilters } from './config/filters';
@@ -10,12 +11,18 @@ import { setupMonitoring } from './config/monitoring';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  
+
   try {
     const app = await NestFactory.create(AppModule, {
       logger: ['error', 'warn', 'log', 'debug', 'verbose'],
     });
 
+    // Webhook signatures are computed over the body as sent, whatever its type
+    app.use(
+      '/api/webhooks',
+      raw({ type: '*/*', limit: process.env.WEBHOOK_MAX_BODY_SIZE || '1mb' })
+    );
+
     // Setup global configurations
     setupSecurity(app);
     setupGlobalPipes(app);
@@ -26,11 +33,10 @@ async function bootstrap() {
 
     const port = process.env.PORT || 3000;
     await app.listen(port);
-    
+
     logger.log(`🚀 FlowForge Nexus is running on: http://localhost:${port}`);
     logger.log(`📚 API Documentation: http://localhost:${port}/api/docs`);
     logger.log(`📊 Metrics: http://localhost:${port}/metrics`);
-    
   } catch (error) {
     logger.error('Failed to start FlowForge Nexus:', error);
     process.exit(1);
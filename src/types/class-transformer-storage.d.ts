@@ -0,0 +1,6 @@
+// class-transformer ships no declarations for the CommonJS build of its
+// metadata storage, which class-validator-jsonschema needs to resolve nested
+// DTO types. Its own typings describe the same module.
+declare module 'class-transformer/cjs/storage' {
+  export { defaultMetadataStorage } from 'class-transformer/types/storage';
+}
@@ -31,24 +31,225 @@ export interface WorkflowDefinition {
   description?: string;
   triggers: WorkflowTrigger[];
   steps: WorkflowStep[];
+  onCancel?: string;
+  // Executions of this workflow running at once, per instance
+  maxConcurrency?: number;
+  deadline?: number;
   metadata: Record<string, any>;
+  status?: WorkflowStatus;
 }
 
+export type WorkflowStatus = 'draft' | 'published' | 'deprecated' | 'archived';
+
 export interface WorkflowTrigger {
   type: string;
   eventType: string;
   filters?: Record<string, any>;
   conditions?: string[];
+  schedule?: ScheduleTriggerConfig;
+  webhook?: WebhookTriggerConfig;
+}
+
+/**
+ * Makes a trigger time-based: instead of waiting for events, it starts the
+ * workflow on a cron expression or every `interval` milliseconds, with an
+ * event of the trigger's `eventType`. `misfirePolicy` says what happens to
+ * fire times missed while no instance was running.
+ */
+export interface ScheduleTriggerConfig {
+  cron?: string;
+  interval?: number;
+  timezone?: string;
+  misfirePolicy?: MisfirePolicy;
+}
+
+export type MisfirePolicy = 'skip' | 'fire_once' | 'catch_up';
+
+/**
+ * Lets external systems start the workflow by posting to its webhook
+ * endpoint. The request is accepted only when `signatureHeader` holds an HMAC
+ * of `<timestamp>.<body>`, keyed by the secret stored under the configuration
+ * key `secretName` so definitions never carry the secret itself. Only keys
+ * starting with `WEBHOOK_SECRET_` can be named.
+ *
+ * The timestamp, in Unix seconds from `timestampHeader`, must fall within the
+ * replay window, and a signature is only accepted once, so a captured request
+ * can't be replayed.
+ */
+export interface WebhookTriggerConfig {
+  secretName: string;
+  signatureHeader?: string;
+  // Text before the hex digest in the header, e.g. "sha256="
+  signaturePrefix?: string;
+  algorithm?: WebhookSignatureAlgorithm;
+  timestampHeader: string;
+  // Header carrying the sender's delivery id, added to the event's tags
+  deliveryHeader?: string;
+}
+
+export type WebhookSignatureAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+export interface WebhookReceipt {
+  eventId: string;
+  // The delivery was already received and its event published
+  duplicate: boolean;
+}
+
+export interface WorkflowSchedule {
+  workflow: string;
+  workflowId: string;
+  version: string;
+  stepId: string;
+  eventType: string;
+  cron?: string;
+  interval?: number;
+  timezone: string;
+  misfirePolicy: MisfirePolicy;
+  lastFiredAt?: Date;
+  nextFireTimes: Date[];
 }
 
 export interface WorkflowStep {
   id: string;
   name: string;
-  type: 'action' | 'condition' | 'loop' | 'parallel' | 'delay';
+  type: 'action' | 'condition' | 'loop' | 'parallel' | 'delay' | 'wait' | 'subworkflow';
   config: Record<string, any>;
   next?: string[];
   errorHandler?: string;
   retryPolicy?: RetryPolicy;
+  timeout?: number;
+  dependencies?: string[];
+  input?: Record<string, string>;
+  output?: Record<string, string>;
+  /**
+   * Also copies every key of the step's result into the context, as steps did
+   * before output mappings. Off by default; ignored when `output` is set.
+   */
+  mergeOutput?: boolean;
+}
+
+export interface ParallelStepConfig {
+  branches: string[];
+  join?: 'all' | 'any' | 'n-of-m';
+  required?: number;
+}
+
+export interface BranchResult {
+  status: 'completed' | 'failed' | 'cancelled';
+  output: Record<string, any>;
+  error?: string;
+}
+
+export interface LoopStepConfig {
+  mode?: 'forEach' | 'while';
+  items?: string;
+  condition?: string;
+  body: string;
+  itemVariable?: string;
+  indexVariable?: string;
+  maxConcurrency?: number;
+  maxIterations?: number;
+  breakCondition?: string;
+  continueOnError?: boolean;
+}
+
+export interface LoopIterationResult {
+  index: number;
+  status: 'completed' | 'failed';
+  output?: Record<string, any>;
+  error?: string;
+}
+
+export interface ConditionBranch {
+  when: string;
+  next: string[];
+}
+
+export interface ConditionStepConfig {
+  branches: ConditionBranch[];
+  default?: string[];
+}
+
+export interface DelayStepConfig {
+  duration?: number;
+  until?: string;
+}
+
+/**
+ * Config of a `wait` step. With `correlationKey`, an expression over the
+ * context, a published event of type `signal` carrying that correlation id
+ * resumes the execution; without one, only a signal sent to the execution
+ * itself does.
+ */
+export interface WaitStepConfig {
+  signal: string;
+  correlationKey?: string;
+  timeout?: number;
+  onTimeout?: string[];
+}
+
+export interface SubWorkflowStepConfig {
+  workflow: string;
+  version?: string;
+  eventType?: string;
+  input?: Record<string, string>;
+  mode?: 'wait' | 'detach';
+}
+
+/**
+ * Input of the built-in `http.request` action. Strings in `url`, `query`,
+ * `headers` and `body` may contain `{{ expression }}` placeholders. The
+ * response (`status`, `headers`, `body`) is the step output; `output` adds
+ * keys to it from expressions over the response.
+ */
+export interface HttpRequestConfig {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+  url: string;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  body?: any;
+  timeout?: number;
+  successStatus?: Array<number | string>;
+  output?: Record<string, string>;
+}
+
+export interface SignalWait {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  stepId: string;
+  signal: string;
+  correlationKey?: string;
+  status: 'pending' | 'received' | 'timed_out' | 'cancelled';
+  payload?: Record<string, any>;
+  expiresAt?: Date;
+}
+
+export interface WorkflowTimer {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  stepId: string;
+  fireAt: Date;
+  status: 'pending' | 'fired' | 'cancelled';
+  payload?: Record<string, any>;
+}
+
+export interface StepRun {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  stepId: string;
+  stepType: WorkflowStep['type'];
+  attempt: number;
+  status: 'running' | 'waiting' | 'completed' | 'failed';
+  input?: any;
+  output?: any;
+  error?: string;
+  errorName?: string;
+  startedAt: Date;
+  completedAt?: Date;
+  duration?: number;
 }
 
 export interface RetryPolicy {
@@ -56,19 +257,54 @@ export interface RetryPolicy {
   backoff: 'fixed' | 'exponential' | 'linear';
   delay: number;
   maxDelay?: number;
+  jitter?: number;
+  retryOn?: string[];
+  abortOn?: string[];
+}
+
+export interface StepAttempt {
+  attempt: number;
+  startedAt: Date;
+  completedAt: Date;
+  duration: number;
+  success: boolean;
+  error?: string;
+  errorName?: string;
+  retryable?: boolean;
+  nextDelay?: number;
 }
 
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  workflowVersion?: string;
+  status: 'queued' | 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
   currentStep?: string;
   context: Record<string, any>;
   result?: any;
   error?: string;
+  errorCode?: string;
+  triggerEvent?: Event;
   startedAt: Date;
   completedAt?: Date;
   duration?: number;
+  stepAttempts?: Record<string, StepAttempt[]>;
+  completedSteps?: string[];
+  skippedSteps?: string[];
+  transitions?: Record<string, string[]>;
+  cancellation?: CancellationRequest;
+  deadlineAt?: Date;
+  parentExecutionId?: string;
+  parentStepId?: string;
+  // Queue priority it was enqueued with
+  priority?: number;
+  warnings?: string[];
+}
+
+export interface CancellationRequest {
+  requestedAt: Date;
+  reason?: string;
+  cleanup?: boolean;
 }
 
 export interface SagaDefinition {
@@ -109,6 +345,40 @@ export interface WorkflowContext {
   stepId: string;
   data: Record<string, any>;
   metadata: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+/**
+ * The subset of JSON Schema used to describe action configuration.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  default?: any;
+}
+
+export interface ActionDefinition {
+  name: string;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface WorkflowAction {
+  execute(config: Record<string, any>, context: WorkflowContext): Promise<StepResult>;
+  /**
+   * Checks beyond the schema, run when a workflow is validated.
+   */
+  validate?(config: Record<string, any>): string[];
 }
 
 export interface StepResult {
@@ -123,6 +393,90 @@ export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Structural differences between two versions of a workflow definition.
+ * `breakingChanges` lists the changes that executions started on `from`
+ * couldn't be carried over to `to` with.
+ */
+export interface WorkflowDiff {
+  from: { id: string; version: string };
+  to: { id: string; version: string };
+  changes: ValueChange[];
+  steps: {
+    added: string[];
+    removed: string[];
+    renamed: Array<{ from: string; to: string }>;
+    changed: Array<{ stepId: string; changes: ValueChange[] }>;
+  };
+  edges: { added: StepEdge[]; removed: StepEdge[] };
+  triggers: {
+    added: WorkflowTrigger[];
+    removed: WorkflowTrigger[];
+    changed: Array<{ type: string; eventType: string; changes: ValueChange[] }>;
+  };
+  breaking: boolean;
+  breakingChanges: string[];
+}
+
+export interface ValueChange {
+  path: string;
+  from?: any;
+  to?: any;
+}
+
+export interface StepEdge {
+  from: string;
+  to: string;
+  kind: 'next' | 'errorHandler';
+}
+
+/**
+ * A validation error or warning with where it was found: the step, and the
+ * field of the step or workflow it concerns.
+ */
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  stepId?: string;
+  field?: string;
+}
+
+/**
+ * A workflow definition as written in a bundle file: everything but the id
+ * and status the registry assigns.
+ */
+export type WorkflowSpec = Omit<WorkflowDefinition, 'id' | 'metadata' | 'status'> & {
+  metadata?: Record<string, any>;
+};
+
+export type WorkflowBundleFormat = 'yaml' | 'json';
+
+export interface WorkflowBundle {
+  workflows: WorkflowSpec[];
+}
+
+/**
+ * What syncing one workflow did, or would do in a dry run. `file` is set when
+ * the workflow came from a synced directory.
+ */
+export interface WorkflowSyncEntry {
+  file?: string;
+  name?: string;
+  version?: string;
+  action: 'created' | 'updated' | 'unchanged' | 'drifted' | 'invalid';
+  published?: boolean;
+  errors?: string[];
+  diff?: WorkflowDiff;
+}
+
+export interface WorkflowSyncResult {
+  directory: string;
+  dryRun: boolean;
+  workflows: WorkflowSyncEntry[];
+  untracked: string[];
 }
 
 export interface Metrics {
@@ -0,0 +1,23 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ActionRegistry } from '../core/action-registry';
+import { ActionDefinition } from '../types';
+import { AuthGuard } from '../auth/guards/auth.guard';
+
+@ApiTags('Actions')
+@Controller('api/actions')
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class ActionController {
+  constructor(private readonly actionRegistry: ActionRegistry) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the actions available to workflow steps' })
+  @ApiResponse({
+    status: 200,
+    description: 'Action catalog with config schemas retrieved successfully',
+  })
+  async getActions(): Promise<ActionDefinition[]> {
+    return this.actionRegistry.listActions();
+  }
+}
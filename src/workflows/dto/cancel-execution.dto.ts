@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CancelExecutionDto {
+  @ApiPropertyOptional({ description: 'Why the execution is being cancelled' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: "Run the workflow's onCancel cleanup steps",
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  cleanup?: boolean;
+}
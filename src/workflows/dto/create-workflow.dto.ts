@@ -1,7 +1,91 @@
-import { IsString, IsArray, IsOptional, IsObject, ValidateNested, IsEnum } from 'class-validator';
+import {
+  IsString,
+  IsArray,
+  IsOptional,
+  IsObject,
+  IsBoolean,
+  ValidateNested,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
+export class ScheduleTriggerDto {
+  @ApiPropertyOptional({ description: 'Cron expression, e.g. "0 9 * * MON-FRI"' })
+  @IsOptional()
+  @IsString()
+  cron?: string;
+
+  @ApiPropertyOptional({ description: 'Interval between fires in milliseconds', minimum: 1000 })
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  interval?: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone of the cron expression', default: 'UTC' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'What to fire for times missed while no instance was running',
+    enum: ['skip', 'fire_once', 'catch_up'],
+    default: 'fire_once',
+  })
+  @IsOptional()
+  @IsEnum(['skip', 'fire_once', 'catch_up'])
+  misfirePolicy?: 'skip' | 'fire_once' | 'catch_up';
+}
+
+export class WebhookTriggerDto {
+  @ApiProperty({
+    description:
+      'Configuration key holding the signing secret; must start with WEBHOOK_SECRET_, ' +
+      'e.g. "WEBHOOK_SECRET_STRIPE"',
+  })
+  @IsString()
+  secretName: string;
+
+  @ApiPropertyOptional({
+    description: 'Header carrying the signature',
+    default: 'x-flowforge-signature',
+  })
+  @IsOptional()
+  @IsString()
+  signatureHeader?: string;
+
+  @ApiPropertyOptional({ description: 'Text before the hex digest, e.g. "sha256="' })
+  @IsOptional()
+  @IsString()
+  signaturePrefix?: string;
+
+  @ApiPropertyOptional({
+    description: 'HMAC hash algorithm',
+    enum: ['sha1', 'sha256', 'sha512'],
+    default: 'sha256',
+  })
+  @IsOptional()
+  @IsEnum(['sha1', 'sha256', 'sha512'])
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+
+  @ApiProperty({
+    description: 'Header carrying the Unix timestamp, signed with the body as "<timestamp>.<body>"',
+  })
+  @IsString()
+  timestampHeader: string;
+
+  @ApiPropertyOptional({
+    description: 'Header carrying the delivery id, e.g. "x-github-delivery", added to event tags',
+  })
+  @IsOptional()
+  @IsString()
+  deliveryHeader?: string;
+}
+
 export class WorkflowTriggerDto {
   @ApiProperty({ description: 'Trigger type' })
   @IsString()
@@ -11,21 +95,45 @@ export class WorkflowTriggerDto {
   @IsString()
   eventType: string;
 
-  @ApiPropertyOptional({ description: 'Trigger filters' })
+  @ApiPropertyOptional({
+    description: 'Trigger filters keyed by event path, e.g. { "data.total": { "$gte": 100 } }',
+  })
   @IsOptional()
   @IsObject()
   filters?: Record<string, any>;
 
-  @ApiPropertyOptional({ description: 'Trigger conditions' })
+  @ApiPropertyOptional({
+    description:
+      'Trigger condition expressions, all of which must hold, e.g. "tags.env == \'prod\'"',
+  })
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
   conditions?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Fire the trigger on a schedule instead of on published events',
+    type: ScheduleTriggerDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScheduleTriggerDto)
+  schedule?: ScheduleTriggerDto;
+
+  @ApiPropertyOptional({
+    description: 'Accept the trigger event from a signed webhook',
+    type: WebhookTriggerDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WebhookTriggerDto)
+  webhook?: WebhookTriggerDto;
 }
 
 export class RetryPolicyDto {
-  @ApiProperty({ description: 'Maximum retry attempts' })
-  @IsString()
+  @ApiProperty({ description: 'Maximum attempts, including the first one', minimum: 1 })
+  @IsInt()
+  @Min(1)
   maxAttempts: number;
 
   @ApiProperty({ description: 'Backoff strategy', enum: ['fixed', 'exponential', 'linear'] })
@@ -33,13 +141,38 @@ export class RetryPolicyDto {
   backoff: 'fixed' | 'exponential' | 'linear';
 
   @ApiProperty({ description: 'Delay between retries in milliseconds' })
-  @IsString()
+  @IsInt()
+  @Min(0)
   delay: number;
 
   @ApiPropertyOptional({ description: 'Maximum delay in milliseconds' })
   @IsOptional()
-  @IsString()
+  @IsInt()
+  @Min(0)
   maxDelay?: number;
+
+  @ApiPropertyOptional({
+    description: 'Ratio (0-1) by which each delay is randomly varied',
+    minimum: 0,
+    maximum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  jitter?: number;
+
+  @ApiPropertyOptional({ description: 'Error names or codes to retry; all errors when omitted' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  retryOn?: string[];
+
+  @ApiPropertyOptional({ description: 'Error names or codes that are never retried' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  abortOn?: string[];
 }
 
 export class WorkflowStepDto {
@@ -51,12 +184,12 @@ export class WorkflowStepDto {
   @IsString()
   name: string;
 
-  @ApiProperty({ 
-    description: 'Step type', 
-    enum: ['action', 'condition', 'loop', 'parallel', 'delay'] 
+  @ApiProperty({
+    description: 'Step type',
+    enum: ['action', 'condition', 'loop', 'parallel', 'delay', 'wait', 'subworkflow'],
   })
-  @IsEnum(['action', 'condition', 'loop', 'parallel', 'delay'])
-  type: 'action' | 'condition' | 'loop' | 'parallel' | 'delay';
+  @IsEnum(['action', 'condition', 'loop', 'parallel', 'delay', 'wait', 'subworkflow'])
+  type: 'action' | 'condition' | 'loop' | 'parallel' | 'delay' | 'wait' | 'subworkflow';
 
   @ApiProperty({ description: 'Step configuration' })
   @IsObject()
@@ -78,6 +211,42 @@ export class WorkflowStepDto {
   @ValidateNested()
   @Type(() => RetryPolicyDto)
   retryPolicy?: RetryPolicyDto;
+
+  @ApiPropertyOptional({ description: 'Timeout of each attempt in milliseconds' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  timeout?: number;
+
+  @ApiPropertyOptional({ description: 'Steps that must finish before this step runs' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  dependencies?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Step input built from expressions, e.g. { "email": "$.steps.fetchUser.output.email" }',
+  })
+  @IsOptional()
+  @IsObject()
+  input?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      'Context keys set from expressions over the step output, e.g. { "userId": "$.output.id" }',
+  })
+  @IsOptional()
+  @IsObject()
+  output?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      'Copy every key of the step result into the context, as before output mappings; ignored with output',
+  })
+  @IsOptional()
+  @IsBoolean()
+  mergeOutput?: boolean;
 }
 
 export class CreateWorkflowDto {
@@ -106,6 +275,25 @@ export class CreateWorkflowDto {
   @Type(() => WorkflowStepDto)
   steps: WorkflowStepDto[];
 
+  @ApiPropertyOptional({ description: 'Step to run as cleanup when an execution is cancelled' })
+  @IsOptional()
+  @IsString()
+  onCancel?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum executions of this workflow running at once per instance',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConcurrency?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum duration of an execution in milliseconds' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  deadline?: number;
+
   @ApiPropertyOptional({ description: 'Workflow metadata' })
   @IsOptional()
   @IsObject()
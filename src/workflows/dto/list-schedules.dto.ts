@@ -0,0 +1,23 @@
+import { IsOptional, IsInt, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ListSchedulesDto {
+  @ApiPropertyOptional({
+    description: 'Number of upcoming fire times to list per schedule',
+    minimum: 1,
+    maximum: 100,
+    default: 5,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  count?: number = 5;
+
+  @ApiPropertyOptional({ description: 'Only list schedules of the workflow with this name' })
+  @IsOptional()
+  @IsString()
+  workflow?: string;
+}
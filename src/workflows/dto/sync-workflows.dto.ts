@@ -0,0 +1,37 @@
+import { IsString, IsOptional, IsBoolean, IsEnum } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SyncWorkflowsDto {
+  @ApiPropertyOptional({
+    description: 'Publish synced versions that are still drafts',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  publish?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Report what would change without changing anything',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class ImportWorkflowsDto extends SyncWorkflowsDto {
+  @ApiProperty({
+    description: 'A workflow definition, or a bundle of them under "workflows", as YAML or JSON',
+  })
+  @IsString()
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Format of the content',
+    enum: ['yaml', 'json'],
+    default: 'yaml',
+  })
+  @IsOptional()
+  @IsEnum(['yaml', 'json'])
+  format?: 'yaml' | 'json';
+}
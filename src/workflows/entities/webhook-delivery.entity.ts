@@ -0,0 +1,28 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+@Entity('webhook_deliveries')
+@Index(['workflowName', 'eventType', 'signature'], { unique: true })
+export class WebhookDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowName: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  eventType: string;
+
+  // Verified signature in hex, long enough for sha512
+  @Column({ type: 'varchar', length: 128, nullable: false })
+  signature: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  eventId: string;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  @Index()
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -31,6 +31,15 @@ export class WorkflowDefinitionEntity {
   @Column({ type: 'jsonb', nullable: false })
   steps: any[];
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  onCancel?: string;
+
+  @Column({ type: 'integer', nullable: true })
+  maxConcurrency?: number;
+
+  @Column({ type: 'integer', nullable: true })
+  deadline?: number;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata?: Record<string, any>;
 
@@ -55,10 +64,7 @@ export class WorkflowDefinitionEntity {
   @VersionColumn()
   versionNumber: number;
 
-  @OneToMany(
-    () => WorkflowExecutionEntity,
-    (execution) => execution.workflowDefinition,
-  )
+  @OneToMany(() => WorkflowExecutionEntity, execution => execution.workflowDefinition)
   executions: WorkflowExecutionEntity[];
 
   // Helper methods
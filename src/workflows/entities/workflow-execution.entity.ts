@@ -0,0 +1,106 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WorkflowDefinitionEntity } from './workflow-definition.entity';
+
+@Entity('workflow_executions')
+@Index(['status', 'heartbeatAt'])
+export class WorkflowExecutionEntity {
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  id: string;
+
+  @Column({ type: 'uuid', nullable: false })
+  @Index()
+  workflowId: string;
+
+  @ManyToOne(() => WorkflowDefinitionEntity, definition => definition.executions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workflowId' })
+  workflowDefinition: WorkflowDefinitionEntity;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  workflowVersion?: string;
+
+  @Column({ type: 'varchar', length: 50, default: 'pending' })
+  status: 'queued' | 'pending' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  currentStep?: string;
+
+  @Column({ type: 'jsonb', nullable: false, default: {} })
+  context: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result?: any;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  errorCode?: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  triggerEvent?: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  stepAttempts?: Record<string, any[]>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  completedSteps?: string[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  skippedSteps?: string[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  transitions?: Record<string, string[]>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  cancellation?: { requestedAt: Date; reason?: string; cleanup?: boolean };
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deadlineAt?: Date;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @Index()
+  parentExecutionId?: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  parentStepId?: string;
+
+  @Column({ type: 'integer', nullable: true })
+  priority?: number;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  startedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  completedAt?: Date;
+
+  @Column({ type: 'integer', nullable: true })
+  duration?: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  ownerId?: string;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  heartbeatAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Helper methods
+  isFinished(): boolean {
+    return ['completed', 'failed', 'cancelled'].includes(this.status);
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('workflow_schedules')
+export class WorkflowScheduleEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  @Index({ unique: true })
+  scheduleKey: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowName: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowId: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: false })
+  spec: string;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  @Index()
+  nextFireAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastFiredAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
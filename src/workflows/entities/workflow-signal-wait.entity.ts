@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('workflow_signal_waits')
+@Index(['signal', 'status'])
+export class WorkflowSignalWaitEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  @Index()
+  executionId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  stepId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  signal: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  correlationKey?: string;
+
+  @Column({ type: 'varchar', length: 50, default: 'pending' })
+  status: 'pending' | 'received' | 'timed_out' | 'cancelled';
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload?: Record<string, any>;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt?: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resolvedAt?: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  resumedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('workflow_step_runs')
+@Index(['executionId', 'startedAt'])
+export class WorkflowStepRunEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  executionId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  stepId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: false })
+  stepType: string;
+
+  @Column({ type: 'integer', default: 1 })
+  attempt: number;
+
+  @Column({ type: 'varchar', length: 50, default: 'running' })
+  status: 'running' | 'waiting' | 'completed' | 'failed';
+
+  @Column({ type: 'jsonb', nullable: true })
+  input?: any;
+
+  @Column({ type: 'jsonb', nullable: true })
+  output?: any;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  errorName?: string;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  startedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  completedAt?: Date;
+
+  @Column({ type: 'integer', nullable: true })
+  duration?: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
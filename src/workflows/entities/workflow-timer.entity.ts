@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('workflow_timers')
+@Index(['status', 'fireAt'])
+export class WorkflowTimerEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  @Index()
+  executionId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  workflowId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  stepId: string;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  fireAt: Date;
+
+  @Column({ type: 'varchar', length: 50, default: 'pending' })
+  status: 'pending' | 'fired' | 'cancelled';
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload?: Record<string, any>;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
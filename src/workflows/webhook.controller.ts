@@ -0,0 +1,35 @@
+import { Controller, Post, Param, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { WebhookService } from '../core/webhook-service';
+import { WebhookReceipt } from '../types';
+
+// Not behind AuthGuard: senders prove themselves with the request signature
+@ApiTags('Webhooks')
+@Controller('api/webhooks')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post(':workflow/:eventType')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Receive a signed webhook and publish it as an event' })
+  @ApiResponse({
+    status: 202,
+    description: 'Webhook verified and its event published',
+  })
+  @ApiResponse({ status: 401, description: 'Signature or timestamp is missing or invalid' })
+  @ApiResponse({ status: 404, description: 'No published webhook for this workflow and event' })
+  async receiveWebhook(
+    @Param('workflow') workflow: string,
+    @Param('eventType') eventType: string,
+    @Req() request: Request
+  ): Promise<WebhookReceipt> {
+    // The raw parser registered for webhook routes leaves the body as sent
+    return this.webhookService.receiveWebhook(
+      workflow,
+      eventType,
+      Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0),
+      request.headers
+    );
+  }
+}
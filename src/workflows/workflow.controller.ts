@@ -7,19 +7,46 @@ import {
   Body,
   Param,
   Query,
+  Res,
   UseGuards,
   HttpCode,
   HttpStatus,
+  NotFoundException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
 import { WorkflowService } from './workflow.service';
 import { WorkflowEngine } from '../core/workflow-engine';
+import { WorkflowRegistry } from '../core/workflow-registry';
+import { CacheStats } from '../core/ttl-cache';
+import { ExecutionQueueStats } from '../core/execution-queue';
+import { WorkflowSyncService } from '../core/workflow-sync-service';
+import { TriggerService } from '../core/trigger-service';
+import { ScheduleService } from '../core/schedule-service';
+import {
+  WorkflowBundleSchema,
+  getWorkflowBundleSchema,
+  serializeWorkflowBundle,
+} from '../core/workflow-bundle';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
 import { ExecuteWorkflowDto } from './dto/execute-workflow.dto';
+import { CancelExecutionDto } from './dto/cancel-execution.dto';
+import { ImportWorkflowsDto, SyncWorkflowsDto } from './dto/sync-workflows.dto';
+import { ListSchedulesDto } from './dto/list-schedules.dto';
 import { WorkflowDefinitionEntity } from './entities/workflow-definition.entity';
 import { WorkflowExecutionEntity } from './entities/workflow-execution.entity';
 import { PaginationDto } from '../common/dto/pagination.dto';
+import {
+  StepRun,
+  ValidationResult,
+  WorkflowBundleFormat,
+  WorkflowDefinition,
+  WorkflowDiff,
+  WorkflowSchedule,
+  WorkflowSyncEntry,
+  WorkflowSyncResult,
+} from '../types';
 import { AuthGuard } from '../auth/guards/auth.guard';
 
 @ApiTags('Workflows')
@@ -30,6 +57,10 @@ export class WorkflowController {
   constructor(
     private readonly workflowService: WorkflowService,
     private readonly workflowEngine: WorkflowEngine,
+    private readonly workflowRegistry: WorkflowRegistry,
+    private readonly workflowSyncService: WorkflowSyncService,
+    private readonly triggerService: TriggerService,
+    private readonly scheduleService: ScheduleService
   ) {}
 
   @Post()
@@ -41,7 +72,7 @@ export class WorkflowController {
     type: WorkflowDefinitionEntity,
   })
   async createWorkflow(
-    @Body() createWorkflowDto: CreateWorkflowDto,
+    @Body() createWorkflowDto: CreateWorkflowDto
   ): Promise<WorkflowDefinitionEntity> {
     return this.workflowService.createWorkflow(createWorkflowDto);
   }
@@ -54,11 +85,86 @@ export class WorkflowController {
     type: [WorkflowDefinitionEntity],
   })
   async getWorkflows(
-    @Query() paginationDto: PaginationDto,
+    @Query() paginationDto: PaginationDto
   ): Promise<{ data: WorkflowDefinitionEntity[]; total: number }> {
     return this.workflowService.getWorkflows(paginationDto);
   }
 
+  @Get('queue')
+  @ApiOperation({ summary: 'Get execution queue depth and worker usage' })
+  @ApiResponse({
+    status: 200,
+    description: 'Queue statistics retrieved successfully',
+  })
+  async getQueueStats(): Promise<ExecutionQueueStats> {
+    return this.workflowEngine.getQueueStats();
+  }
+
+  @Get('triggers')
+  @ApiOperation({ summary: 'Get the event subscriptions of published workflows' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event types each workflow is started by, with the version they start',
+  })
+  async getTriggerSubscriptions(): Promise<
+    Array<{ workflow: string; workflowId: string; version: string; eventTypes: string[] }>
+  > {
+    return this.triggerService.getSubscriptions();
+  }
+
+  @Get('schedules')
+  @ApiOperation({ summary: 'Get the schedules of published workflows' })
+  @ApiResponse({
+    status: 200,
+    description: 'Schedule triggers of each workflow with their next fire times',
+  })
+  async getSchedules(@Query() query: ListSchedulesDto): Promise<WorkflowSchedule[]> {
+    return this.scheduleService.listSchedules(query.count, query.workflow);
+  }
+
+  @Get('cache')
+  @ApiOperation({ summary: 'Get workflow definition cache statistics' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cache size, hits, misses, evictions and invalidations of this instance',
+  })
+  async getCacheStats(): Promise<CacheStats> {
+    return this.workflowRegistry.getCacheStats();
+  }
+
+  @Get('schema')
+  @ApiOperation({ summary: 'Get the JSON Schema of workflow definition files' })
+  @ApiResponse({
+    status: 200,
+    description: 'JSON Schema of YAML and JSON workflow bundles',
+  })
+  async getWorkflowSchema(): Promise<WorkflowBundleSchema> {
+    return getWorkflowBundleSchema();
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Import workflow definitions from YAML or JSON' })
+  @ApiResponse({
+    status: 201,
+    description: 'What was created, updated or left unchanged for each workflow',
+  })
+  async importWorkflows(
+    @Body() importWorkflowsDto: ImportWorkflowsDto
+  ): Promise<WorkflowSyncEntry[]> {
+    const { content, format, ...options } = importWorkflowsDto;
+    return this.workflowSyncService.importBundle(content, format ?? 'yaml', options);
+  }
+
+  @Post('sync')
+  @ApiOperation({ summary: 'Sync workflow definitions from the configured directory' })
+  @ApiResponse({
+    status: 201,
+    description: 'Sync result, with drifted versions and untracked workflows',
+  })
+  async syncWorkflows(@Body() syncWorkflowsDto: SyncWorkflowsDto): Promise<WorkflowSyncResult> {
+    return this.workflowSyncService.syncConfiguredDirectory(syncWorkflowsDto);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get workflow definition by ID' })
   @ApiResponse({
@@ -79,7 +185,7 @@ export class WorkflowController {
   })
   async updateWorkflow(
     @Param('id') id: string,
-    @Body() updateWorkflowDto: UpdateWorkflowDto,
+    @Body() updateWorkflowDto: UpdateWorkflowDto
   ): Promise<WorkflowDefinitionEntity> {
     return this.workflowService.updateWorkflow(id, updateWorkflowDto);
   }
@@ -100,12 +206,12 @@ export class WorkflowController {
   @ApiOperation({ summary: 'Execute a workflow' })
   @ApiResponse({
     status: 202,
-    description: 'Workflow execution started',
+    description: 'Workflow execution queued',
     type: WorkflowExecutionEntity,
   })
   async executeWorkflow(
     @Param('id') id: string,
-    @Body() executeWorkflowDto: ExecuteWorkflowDto,
+    @Body() executeWorkflowDto: ExecuteWorkflowDto
   ): Promise<WorkflowExecutionEntity> {
     return this.workflowService.executeWorkflow(id, executeWorkflowDto);
   }
@@ -119,7 +225,7 @@ export class WorkflowController {
   })
   async getWorkflowExecutions(
     @Param('id') id: string,
-    @Query() paginationDto: PaginationDto,
+    @Query() paginationDto: PaginationDto
   ): Promise<{ data: WorkflowExecutionEntity[]; total: number }> {
     return this.workflowService.getWorkflowExecutions(id, paginationDto);
   }
@@ -135,6 +241,32 @@ export class WorkflowController {
     return this.workflowService.getExecution(executionId);
   }
 
+  @Get('executions/:executionId/steps')
+  @ApiOperation({ summary: 'Get the step journal of a workflow execution' })
+  @ApiResponse({
+    status: 200,
+    description: 'Step runs retrieved successfully, in the order they started',
+  })
+  async getExecutionSteps(@Param('executionId') executionId: string): Promise<StepRun[]> {
+    return this.workflowEngine.getExecutionSteps(executionId);
+  }
+
+  @Post('executions/:executionId/signals/:signal')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a signal to a waiting workflow execution' })
+  @ApiResponse({
+    status: 202,
+    description: 'Signal accepted; delivered is false if the execution was not waiting for it',
+  })
+  async signalExecution(
+    @Param('executionId') executionId: string,
+    @Param('signal') signal: string,
+    @Body() payload: Record<string, any>
+  ): Promise<{ delivered: boolean }> {
+    const delivered = await this.workflowEngine.signalExecution(executionId, signal, payload);
+    return { delivered };
+  }
+
   @Post('executions/:executionId/cancel')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Cancel workflow execution' })
@@ -142,20 +274,89 @@ export class WorkflowController {
     status: 202,
     description: 'Execution cancellation requested',
   })
-  async cancelExecution(@Param('executionId') executionId: string): Promise<void> {
-    return this.workflowService.cancelExecution(executionId);
+  async cancelExecution(
+    @Param('executionId') executionId: string,
+    @Body() cancelExecutionDto: CancelExecutionDto
+  ): Promise<void> {
+    return this.workflowEngine.cancelExecution(executionId, cancelExecutionDto);
+  }
+
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Export a workflow definition as YAML or JSON' })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow bundle file with the definition',
+  })
+  async exportWorkflow(
+    @Param('id') id: string,
+    @Query('format') format: WorkflowBundleFormat = 'yaml',
+    @Res({ passthrough: true }) res: Response
+  ): Promise<string> {
+    const workflow = await this.workflowRegistry.getWorkflow(id);
+    if (!workflow) {
+      throw new NotFoundException(`Workflow ${id} not found`);
+    }
+
+    res.type(format === 'json' ? 'application/json' : 'application/yaml');
+    return serializeWorkflowBundle([workflow], format === 'json' ? 'json' : 'yaml');
+  }
+
+  @Get(':id/diff/:otherId')
+  @ApiOperation({ summary: 'Compare a workflow version with another version of it' })
+  @ApiResponse({
+    status: 200,
+    description: 'Structural diff from the first version to the second',
+  })
+  async diffWorkflowVersions(
+    @Param('id') id: string,
+    @Param('otherId') otherId: string
+  ): Promise<WorkflowDiff> {
+    return this.workflowRegistry.diffWorkflowVersions(id, otherId);
   }
 
   @Post(':id/validate')
   @ApiOperation({ summary: 'Validate workflow definition' })
   @ApiResponse({
     status: 200,
-    description: 'Workflow validation result',
+    description: 'Workflow validation result, with the step and field of each issue',
   })
-  async validateWorkflow(@Param('id') id: string): Promise<any> {
+  async validateWorkflow(@Param('id') id: string): Promise<ValidationResult> {
     return this.workflowService.validateWorkflow(id);
   }
 
+  @Post(':id/deprecate')
+  @ApiOperation({ summary: 'Deprecate a published workflow version' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workflow deprecated; executions still start, with a warning',
+    type: WorkflowDefinitionEntity,
+  })
+  async deprecateWorkflow(@Param('id') id: string): Promise<WorkflowDefinition> {
+    return this.workflowRegistry.deprecateWorkflow(id);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({ summary: 'Archive a workflow version' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workflow archived; no new executions start from it',
+    type: WorkflowDefinitionEntity,
+  })
+  async archiveWorkflow(@Param('id') id: string): Promise<WorkflowDefinition> {
+    return this.workflowRegistry.archiveWorkflow(id);
+  }
+
+  @Post(':id/restore')
+  @ApiOperation({ summary: 'Restore a deprecated or archived workflow version' })
+  @ApiResponse({
+    status: 201,
+    description: 'Deprecated versions are published again, archived ones deprecated',
+    type: WorkflowDefinitionEntity,
+  })
+  async restoreWorkflow(@Param('id') id: string): Promise<WorkflowDefinition> {
+    return this.workflowRegistry.restoreWorkflow(id);
+  }
+
   @Post(':id/deploy')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Deploy workflow to runtime' })
@@ -1,31 +1,94 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventModule } from '../events/event.module';
 import { WorkflowController } from './workflow.controller';
+import { ActionController } from './action.controller';
+import { WebhookController } from './webhook.controller';
 import { WorkflowService } from './workflow.service';
 import { WorkflowDefinitionEntity } from './entities/workflow-definition.entity';
 import { WorkflowExecutionEntity } from './entities/workflow-execution.entity';
+import { WorkflowTimerEntity } from './entities/workflow-timer.entity';
+import { WorkflowStepRunEntity } from './entities/workflow-step-run.entity';
+import { WorkflowSignalWaitEntity } from './entities/workflow-signal-wait.entity';
+import { WorkflowScheduleEntity } from './entities/workflow-schedule.entity';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
 import { WorkflowEngine } from '../core/workflow-engine';
 import { WorkflowRegistry } from '../core/workflow-registry';
+import { WorkflowSyncService } from '../core/workflow-sync-service';
+import { TriggerService } from '../core/trigger-service';
+import { ScheduleService } from '../core/schedule-service';
+import { WebhookService } from '../core/webhook-service';
 import { StepExecutor } from '../core/step-executor';
+import { ActionRegistry } from '../core/action-registry';
+import { HttpRequestAction } from '../core/http-request-action';
 import { StateManager } from '../core/state-manager';
 import { WorkflowValidator } from '../core/workflow-validator';
+import { ExpressionEngine } from '../core/expression-engine';
+import { TimerService } from '../core/timer-service';
+import { StepJournal } from '../core/step-journal';
+import { SignalService } from '../core/signal-service';
+import {
+  ExecutionQueue,
+  InMemoryExecutionQueue,
+  RedisExecutionQueue,
+} from '../core/execution-queue';
+import {
+  CacheInvalidationBus,
+  InMemoryCacheInvalidationBus,
+  RedisCacheInvalidationBus,
+} from '../core/cache-invalidation';
 
 @Module({
   imports: [
+    DiscoveryModule,
+    EventModule,
     TypeOrmModule.forFeature([
       WorkflowDefinitionEntity,
       WorkflowExecutionEntity,
+      WorkflowTimerEntity,
+      WorkflowStepRunEntity,
+      WorkflowSignalWaitEntity,
+      WorkflowScheduleEntity,
+      WebhookDeliveryEntity,
     ]),
   ],
-  controllers: [WorkflowController],
+  controllers: [WorkflowController, ActionController, WebhookController],
   providers: [
     WorkflowService,
     WorkflowEngine,
     WorkflowRegistry,
+    WorkflowSyncService,
+    TriggerService,
+    ScheduleService,
+    WebhookService,
     StepExecutor,
+    ActionRegistry,
+    HttpRequestAction,
     StateManager,
     WorkflowValidator,
+    ExpressionEngine,
+    TimerService,
+    StepJournal,
+    SignalService,
+    {
+      provide: ExecutionQueue,
+      useFactory: (configService: ConfigService) =>
+        configService.get('EXECUTION_QUEUE_DRIVER', 'redis') === 'memory'
+          ? new InMemoryExecutionQueue()
+          : new RedisExecutionQueue(configService),
+      inject: [ConfigService],
+    },
+    {
+      provide: CacheInvalidationBus,
+      useFactory: (configService: ConfigService) =>
+        configService.get('CACHE_INVALIDATION_DRIVER', 'redis') === 'memory'
+          ? new InMemoryCacheInvalidationBus()
+          : new RedisCacheInvalidationBus(configService),
+      inject: [ConfigService],
+    },
   ],
-  exports: [WorkflowService, WorkflowEngine],
+  exports: [WorkflowService, WorkflowEngine, ActionRegistry],
 })
 export class WorkflowModule {}